@@ -0,0 +1,80 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import { ANALYST_ABILITIES } from "@/lib/game/abilities";
+import type { AbilityUse, AnalystAbility } from "@/lib/game/abilities";
+
+type AnalystAbilitiesProps = {
+  charges: number;
+  remaining: Record<AnalystAbility, number>;
+  /** This Analyst's own uses, oldest first. */
+  uses: Array<Pick<AbilityUse, "ability" | "at" | "result">>;
+  targets: Array<{ id: string; name: string }>;
+  onUse: (ability: AnalystAbility, targetId: string | null) => void;
+};
+
+/** The Analyst's intel abilities; only ever rendered where the card is shown. */
+export default function AnalystAbilities({
+  charges,
+  remaining,
+  uses,
+  targets,
+  onUse,
+}: AnalystAbilitiesProps) {
+  const { t, tm } = useTranslation();
+  const [targetId, setTargetId] = useState("");
+
+  return (
+    <div className={styles.taskList}>
+      <h3 className={styles.panelTitle}>{t("abilities.title")}</h3>
+      <p className={styles.panelDescription}>
+        {t("abilities.charges", { count: charges })}
+      </p>
+      <select
+        aria-label={t("abilities.scanTarget")}
+        value={targetId}
+        onChange={(event) => setTargetId(event.target.value)}
+      >
+        <option value="">{t("abilities.scanTarget")}</option>
+        {targets.map((target) => (
+          <option key={target.id} value={target.id}>
+            {target.name}
+          </option>
+        ))}
+      </select>
+      <div className={styles.cardControls}>
+        {ANALYST_ABILITIES.map((ability) => (
+          <button
+            key={ability}
+            className="secondary"
+            disabled={
+              !charges ||
+              !remaining[ability] ||
+              (ability === "scan" && !targetId)
+            }
+            onClick={() => onUse(ability, ability === "scan" ? targetId : null)}
+          >
+            {t("abilities.use", {
+              ability: t(`ability.${ability}`),
+              count: remaining[ability],
+            })}
+          </button>
+        ))}
+      </div>
+      {uses.map((use) => (
+        <div className={styles.taskItem} key={`${use.ability}@${use.at}`}>
+          <div>
+            <p className={styles.taskName}>{t(`ability.${use.ability}`)}</p>
+            {use.result.map((line, index) => (
+              <p className={styles.muted} key={index}>
+                {tm(line)}
+              </p>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
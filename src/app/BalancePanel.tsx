@@ -0,0 +1,151 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import { MAX_TASKS_PER_ROLE } from "@/lib/game/decks";
+import { getMaxImpostors } from "@/lib/game/rules";
+import {
+  getWinRate,
+  recommendImpostorCount,
+  simulateBalance,
+} from "@/lib/game/simulator";
+import type { BalanceCell, SimulationSetup } from "@/lib/game/simulator";
+
+type BalancePanelProps = {
+  playerCount: number;
+  setup: SimulationSetup;
+  onPick: (impostorCount: number) => void;
+};
+
+const ROUNDS_PER_CELL = 100;
+
+const percent = (wins: number, cell: BalanceCell) =>
+  Math.round(getWinRate(wins, cell) * 100);
+
+/** Runs the bot simulator for this lobby on demand and suggests a fair count. */
+export default function BalancePanel({
+  playerCount,
+  setup,
+  onPick,
+}: BalancePanelProps) {
+  const { t } = useTranslation();
+  const [report, setReport] = useState<{
+    key: string;
+    cells: BalanceCell[];
+  } | null>(null);
+  const [running, setRunning] = useState(false);
+
+  // Any lobby change makes an earlier report stale.
+  const key = JSON.stringify({ playerCount, setup });
+  const cells = report?.key === key ? report.cells : null;
+  const taskCount = setup.deck.taskCounts.Crewmate;
+  const taskCounts = [taskCount - 1, taskCount, taskCount + 1].filter(
+    (count) => count >= 1 && count <= MAX_TASKS_PER_ROLE,
+  );
+  const impostorCounts = Array.from(
+    { length: getMaxImpostors(playerCount, setup.rules) },
+    (_, index) => index + 1,
+  );
+  // The simulator seats the roster under these rules, so it must fit them.
+  const canRun =
+    playerCount >= setup.rules.minPlayers &&
+    playerCount <= setup.rules.maxPlayers;
+  const recommended = cells
+    ? recommendImpostorCount(
+        cells.filter((cell) => cell.taskCount === taskCount),
+      )
+    : null;
+
+  const handleRun = () => {
+    setRunning(true);
+    // Yield a frame so the button shows its busy label before the run blocks.
+    window.setTimeout(() => {
+      try {
+        setReport({
+          key,
+          cells: simulateBalance({
+            playerCount,
+            setup,
+            impostorCounts,
+            taskCounts,
+            rounds: ROUNDS_PER_CELL,
+          }),
+        });
+      } finally {
+        setRunning(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <details className={styles.deckEditor}>
+      <summary className={styles.deckSummary}>
+        {t("balance.title")}
+        {recommended &&
+          ` · ${t("balance.recommended", { count: recommended.impostorCount })}`}
+      </summary>
+      <p className={styles.panelDescription}>
+        {t("balance.description", { rounds: ROUNDS_PER_CELL })}
+      </p>
+      <div className={styles.cardControls}>
+        <button
+          className="secondary"
+          disabled={running || !canRun}
+          onClick={handleRun}
+        >
+          {running ? t("balance.running") : t("balance.run")}
+        </button>
+        {recommended && (
+          <button onClick={() => onPick(recommended.impostorCount)}>
+            {t("balance.use", { count: recommended.impostorCount })}
+          </button>
+        )}
+      </div>
+      {recommended && (
+        <p className={styles.taskName}>
+          {t("balance.split", {
+            crew: percent(recommended.crewWins, recommended),
+            impostors: percent(recommended.impostorWins, recommended),
+          })}
+        </p>
+      )}
+      {cells && (
+        <table className={styles.balanceTable}>
+          <thead>
+            <tr>
+              <th>{t("lobby.impostors")}</th>
+              {taskCounts.map((count) => (
+                <th key={count}>{t("balance.tasks", { count })}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {impostorCounts.map((impostorCount) => (
+              <tr key={impostorCount}>
+                <th>{impostorCount}</th>
+                {taskCounts.map((count) => {
+                  const cell = cells.find(
+                    (entry) =>
+                      entry.impostorCount === impostorCount &&
+                      entry.taskCount === count,
+                  );
+                  return (
+                    <td key={count}>
+                      {cell?.rounds
+                        ? t("balance.cell", {
+                            crew: percent(cell.crewWins, cell),
+                            impostors: percent(cell.impostorWins, cell),
+                          })
+                        : t("balance.noRounds")}
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </details>
+  );
+}
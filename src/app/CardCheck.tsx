@@ -0,0 +1,199 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import AnalystAbilities from "./AnalystAbilities";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import {
+  getAbilityCharges,
+  getRemainingUses,
+  hasAbilities,
+} from "@/lib/game/abilities";
+import type { AbilityUse } from "@/lib/game/abilities";
+import { CARD_CHECK_SECONDS, matchesPin } from "@/lib/game/cardCheck";
+import type { GameAction } from "@/lib/game/engine";
+import type { Player } from "@/lib/game/types";
+
+type CardCheckProps = {
+  players: Player[];
+  abilityUses: AbilityUse[];
+  send: (action: GameAction) => void;
+  /** Told whether a player is at the screen, so the host can hide secrets. */
+  onActiveChange: (active: boolean) => void;
+};
+
+type OpenCheck = { playerId: string; closesAt: number };
+
+const TICK_MS = 250;
+
+const now = () => Date.now();
+
+/**
+ * PIN-guarded re-check of one player's own card on the shared screen. The
+ * reducer verifies the PIN and logs the check; the overlay itself is local.
+ * The check counts as active from picking a player until the card hides.
+ */
+export default function CardCheck({
+  players,
+  abilityUses,
+  send,
+  onActiveChange,
+}: CardCheckProps) {
+  const { t } = useTranslation();
+  const [playerId, setPlayerId] = useState("");
+  const [pin, setPin] = useState("");
+  const [open, setOpen] = useState<OpenCheck | null>(null);
+  const [clock, setClock] = useState(now);
+  const active = playerId !== "" || open !== null;
+
+  useEffect(() => {
+    onActiveChange(active);
+  }, [active, onActiveChange]);
+
+  useEffect(() => () => onActiveChange(false), [onActiveChange]);
+
+  const close = () => {
+    setOpen(null);
+    setPlayerId("");
+  };
+
+  useEffect(() => {
+    if (!open) return;
+    const interval = window.setInterval(() => {
+      const at = now();
+      setClock(at);
+      if (at >= open.closesAt) {
+        setOpen(null);
+        setPlayerId("");
+      }
+    }, TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [open]);
+
+  const handleCheck = () => {
+    const player = players.find((entry) => entry.id === playerId);
+    if (!player) return;
+    const at = now();
+    send({ type: "checkCard", playerId: player.id, pin, at });
+    setPin("");
+    if (matchesPin(player, pin)) {
+      setClock(at);
+      setOpen({
+        playerId: player.id,
+        closesAt: at + CARD_CHECK_SECONDS * 1000,
+      });
+    }
+  };
+
+  const shown = open
+    ? players.find((player) => player.id === open.playerId)
+    : undefined;
+
+  return (
+    <div>
+      <h3 className={styles.panelTitle}>{t("cardCheck.title")}</h3>
+      <p className={styles.panelDescription}>
+        {t("cardCheck.description", { seconds: CARD_CHECK_SECONDS })}
+      </p>
+      <div className={styles.cardControls}>
+        <select
+          aria-label={t("cardCheck.player")}
+          value={playerId}
+          onChange={(event) => setPlayerId(event.target.value)}
+        >
+          <option value="">{t("cardCheck.player")}</option>
+          {players.map((player) => (
+            <option key={player.id} value={player.id}>
+              {player.name}
+            </option>
+          ))}
+        </select>
+        <input
+          aria-label={t("cardCheck.pin")}
+          placeholder={t("cardCheck.pin")}
+          type="password"
+          inputMode="numeric"
+          autoComplete="off"
+          maxLength={6}
+          value={pin}
+          onChange={(event) => setPin(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              handleCheck();
+            }
+          }}
+        />
+        <button onClick={handleCheck} disabled={!playerId || !pin}>
+          {t("cardCheck.open")}
+        </button>
+      </div>
+
+      {open && shown && (
+        <div className={styles.cardCheckOverlay} role="dialog" aria-modal>
+          <div className={styles.revealCard}>
+            <div>
+              <p className={styles.revealHint}>
+                {t("cardCheck.owner", { name: shown.name })}
+              </p>
+              <p className={styles.revealRole}>{t(`role.${shown.role}`)}</p>
+              <p className={styles.revealHint}>
+                {t(`roleDescription.${shown.role}`)}
+              </p>
+            </div>
+            {shown.tasks.length === 0 ? (
+              <p className={styles.muted}>{t("mission.noObjectives")}</p>
+            ) : (
+              <ul className={styles.taskList}>
+                {shown.tasks.map((task) => (
+                  <li className={styles.taskItem} key={task.id}>
+                    <span
+                      className={
+                        task.completed
+                          ? `${styles.taskName} ${styles.taskNameCompleted}`
+                          : styles.taskName
+                      }
+                    >
+                      {task.name}
+                      {task.room && ` · ${t(`room.${task.room}`)}`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {hasAbilities(shown) && (
+              <AnalystAbilities
+                charges={getAbilityCharges(shown, abilityUses)}
+                remaining={getRemainingUses(shown.id, abilityUses)}
+                uses={abilityUses.filter((use) => use.playerId === shown.id)}
+                targets={players.filter((player) => player.id !== shown.id)}
+                onUse={(ability, targetId) =>
+                  send({
+                    type: "useAbility",
+                    playerId: shown.id,
+                    ability,
+                    targetId,
+                    at: now(),
+                  })
+                }
+              />
+            )}
+            <div className={styles.cardControls}>
+              <span className={styles.muted}>
+                {t("cardCheck.closesIn", {
+                  seconds: Math.max(
+                    0,
+                    Math.ceil((open.closesAt - clock) / 1000),
+                  ),
+                })}
+              </span>
+              <button className="secondary" onClick={close}>
+                {t("cardCheck.close")}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,384 @@
+"use client";
+
+import { useMemo, useState, useSyncExternalStore } from "react";
+import { downloadFile, toFileSlug } from "./download";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import {
+  EMPTY_DECK_LIBRARY,
+  deleteDeckPack,
+  readDeckLibrary,
+  saveDeckPack,
+  subscribeToDeckLibrary,
+} from "@/lib/game/deckLibrary";
+import {
+  DECK_SECTIONS,
+  MAX_TASKS_PER_ROLE,
+  getStandardDeckPack,
+  normalizeTags,
+  parseDeckFile,
+  serializeDeckPack,
+} from "@/lib/game/decks";
+import type { DeckPack, DeckSection } from "@/lib/game/decks";
+import type { GameAction } from "@/lib/game/engine";
+import { ROOMS } from "@/lib/game/map";
+import type { RoomId } from "@/lib/game/map";
+import { PROMPT_EFFECTS } from "@/lib/game/prompts";
+import type { PromptEffect } from "@/lib/game/prompts";
+import { ROLES } from "@/lib/game/types";
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+
+type DeckEditorProps = {
+  deck: DeckPack;
+  send: (action: GameAction) => void;
+};
+
+const downloadDeck = (pack: DeckPack) =>
+  downloadFile(
+    `${toFileSlug(pack.name, "deck")}.json`,
+    serializeDeckPack(pack),
+    "application/json",
+  );
+
+export default function DeckEditor({ deck, send }: DeckEditorProps) {
+  const { locale, t, tm } = useTranslation();
+  const library = useSyncExternalStore(
+    subscribeToDeckLibrary,
+    readDeckLibrary,
+    () => EMPTY_DECK_LIBRARY,
+  );
+  const [section, setSection] = useState<DeckSection>("crew");
+  const [entryText, setEntryText] = useState("");
+  const [entryTags, setEntryTags] = useState("");
+  const [entryRoom, setEntryRoom] = useState<RoomId | "">("");
+  const [entryEffect, setEntryEffect] = useState<PromptEffect | "">("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [selectedPack, setSelectedPack] = useState("");
+  const [notice, setNotice] = useState<Message | null>(null);
+
+  const entries = deck.sections[section];
+  const sectionTags = useMemo(
+    () => [...new Set(entries.flatMap((entry) => entry.tags))].sort(),
+    [entries],
+  );
+  const activeFilter = sectionTags.includes(tagFilter) ? tagFilter : "";
+  const visibleEntries = activeFilter
+    ? entries.filter((entry) => entry.tags.includes(activeFilter))
+    : entries;
+
+  const handleAddEntry = () => {
+    send({
+      type: "addDeckEntry",
+      section,
+      id: crypto.randomUUID(),
+      text: entryText,
+      tags: normalizeTags(entryTags),
+      room: section === "prompts" ? null : entryRoom || null,
+      effect: section === "prompts" ? entryEffect || null : null,
+    });
+    if (entryText.trim()) {
+      setEntryText("");
+    }
+  };
+
+  const handleSavePack = () => {
+    if (!deck.name.trim()) {
+      setNotice(msg("deckEditor.nameFirst"));
+      return;
+    }
+    saveDeckPack(deck);
+    setSelectedPack(deck.name.trim());
+    setNotice(msg("deckEditor.saved", { name: deck.name.trim() }));
+  };
+
+  const handleLoadPack = () => {
+    const pack = library.find((entry) => entry.name === selectedPack);
+    if (!pack) return;
+    send({ type: "loadDeck", deck: pack });
+    setNotice(msg("deckEditor.loaded", { name: pack.name }));
+  };
+
+  const handleDeletePack = () => {
+    if (!selectedPack) return;
+    deleteDeckPack(selectedPack);
+    setNotice(msg("deckEditor.deleted", { name: selectedPack }));
+    setSelectedPack("");
+  };
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    file
+      .text()
+      .then((raw) => {
+        const result = parseDeckFile(raw);
+        if (!result.ok) {
+          setNotice(result.error);
+          return;
+        }
+        send({ type: "loadDeck", deck: result.pack });
+        setNotice(msg("deckEditor.imported", { name: result.pack.name }));
+      })
+      .catch(() => setNotice(msg("deckEditor.unreadable")));
+  };
+
+  return (
+    <details className={styles.deckEditor}>
+      <summary className={styles.deckSummary}>
+        {t("deckEditor.title")} · {deck.name || t("deckEditor.untitled")}
+      </summary>
+
+      <div className={styles.lobbyControls}>
+        <div className={styles.counter}>
+          <label htmlFor="deck-name">{t("deckEditor.packName")}</label>
+          <input
+            id="deck-name"
+            value={deck.name}
+            onChange={(event) =>
+              send({ type: "setDeckName", name: event.target.value })
+            }
+          />
+        </div>
+        <div className={styles.counter}>
+          <label htmlFor="deck-library">{t("deckEditor.savedPacks")}</label>
+          <select
+            id="deck-library"
+            value={selectedPack}
+            onChange={(event) => setSelectedPack(event.target.value)}
+          >
+            <option value="">{t("deckEditor.choosePack")}</option>
+            {library.map((pack) => (
+              <option key={pack.name} value={pack.name}>
+                {pack.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className={styles.cardControls}>
+        <button onClick={handleSavePack}>{t("deckEditor.save")}</button>
+        <button
+          className="secondary"
+          onClick={handleLoadPack}
+          disabled={!selectedPack}
+        >
+          {t("deckEditor.load")}
+        </button>
+        <button
+          className="secondary"
+          onClick={handleDeletePack}
+          disabled={!selectedPack}
+        >
+          {t("deckEditor.delete")}
+        </button>
+        <button className="secondary" onClick={() => downloadDeck(deck)}>
+          {t("deckEditor.exportJson")}
+        </button>
+        <label className={styles.fileButton}>
+          {t("deckEditor.importJson")}
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(event) => {
+              handleImport(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+        </label>
+        <button
+          className="secondary"
+          onClick={() =>
+            send({ type: "loadDeck", deck: getStandardDeckPack(locale) })
+          }
+        >
+          {t("deckEditor.restoreStandard")}
+        </button>
+      </div>
+      {notice && <p className={styles.muted}>{tm(notice)}</p>}
+
+      <div className={styles.deckCounts}>
+        {ROLES.map((role) => (
+          <div className={styles.counter} key={role}>
+            <label htmlFor={`task-count-${role}`}>
+              {t("deckEditor.roleTasks", { role: t(`role.${role}`) })}
+            </label>
+            <input
+              id={`task-count-${role}`}
+              type="number"
+              min={0}
+              max={MAX_TASKS_PER_ROLE}
+              value={deck.taskCounts[role]}
+              onChange={(event) =>
+                send({
+                  type: "setTaskCount",
+                  role,
+                  count: Number.parseInt(event.target.value, 10) || 0,
+                })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className={styles.deckTabs}>
+        {DECK_SECTIONS.map((option) => (
+          <button
+            key={option}
+            className={option === section ? undefined : "secondary"}
+            onClick={() => setSection(option)}
+          >
+            {t(`deckSection.${option}`)} ({deck.sections[option].length})
+          </button>
+        ))}
+      </div>
+
+      <div className={styles.deckEntryForm}>
+        <input
+          placeholder={t("deckEditor.newEntry", {
+            section: t(`deckSection.${section}`).toLowerCase(),
+          })}
+          value={entryText}
+          onChange={(event) => setEntryText(event.target.value)}
+          onKeyDown={(event) => {
+            if (event.key === "Enter") {
+              event.preventDefault();
+              handleAddEntry();
+            }
+          }}
+        />
+        <input
+          placeholder={t("deckEditor.tagsPlaceholder")}
+          value={entryTags}
+          onChange={(event) => setEntryTags(event.target.value)}
+        />
+        {section === "prompts" ? (
+          <select
+            aria-label={t("deckEditor.effect")}
+            value={entryEffect}
+            onChange={(event) =>
+              setEntryEffect(event.target.value as PromptEffect)
+            }
+          >
+            <option value="">{t("deckEditor.noEffect")}</option>
+            {PROMPT_EFFECTS.map((effect) => (
+              <option key={effect} value={effect}>
+                {t(`effect.${effect}`)}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <select
+            aria-label={t("deckEditor.room")}
+            value={entryRoom}
+            onChange={(event) => setEntryRoom(event.target.value as RoomId)}
+          >
+            <option value="">{t("deckEditor.anyRoom")}</option>
+            {ROOMS.map((room) => (
+              <option key={room} value={room}>
+                {t(`room.${room}`)}
+              </option>
+            ))}
+          </select>
+        )}
+        <button onClick={handleAddEntry}>{t("deckEditor.addEntry")}</button>
+      </div>
+
+      {sectionTags.length > 0 && (
+        <div className={styles.counter}>
+          <label htmlFor="deck-tag-filter">{t("deckEditor.filterTag")}</label>
+          <select
+            id="deck-tag-filter"
+            value={activeFilter}
+            onChange={(event) => setTagFilter(event.target.value)}
+          >
+            <option value="">{t("deckEditor.allEntries")}</option>
+            {sectionTags.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {visibleEntries.length === 0 ? (
+        <div className={styles.emptyState}>{t("deckEditor.emptySection")}</div>
+      ) : (
+        <ul className={styles.taskList}>
+          {visibleEntries.map((entry) => (
+            <li className={styles.deckEntry} key={entry.id}>
+              <span className={styles.taskName}>{entry.text}</span>
+              <input
+                key={entry.tags.join(",")}
+                aria-label={t("deckEditor.entryTags", { entry: entry.text })}
+                placeholder={t("deckEditor.addTags")}
+                defaultValue={entry.tags.join(", ")}
+                onBlur={(event) =>
+                  send({
+                    type: "tagDeckEntry",
+                    section,
+                    entryId: entry.id,
+                    tags: normalizeTags(event.target.value),
+                  })
+                }
+              />
+              {section === "prompts" ? (
+                <select
+                  aria-label={t("deckEditor.entryEffect", {
+                    entry: entry.text,
+                  })}
+                  value={entry.effect ?? ""}
+                  onChange={(event) =>
+                    send({
+                      type: "setDeckEntryEffect",
+                      section,
+                      entryId: entry.id,
+                      effect: (event.target.value ||
+                        null) as PromptEffect | null,
+                    })
+                  }
+                >
+                  <option value="">{t("deckEditor.noEffect")}</option>
+                  {PROMPT_EFFECTS.map((effect) => (
+                    <option key={effect} value={effect}>
+                      {t(`effect.${effect}`)}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <select
+                  aria-label={t("deckEditor.entryRoom", { entry: entry.text })}
+                  value={entry.room ?? ""}
+                  onChange={(event) =>
+                    send({
+                      type: "setDeckEntryRoom",
+                      section,
+                      entryId: entry.id,
+                      room: (event.target.value || null) as RoomId | null,
+                    })
+                  }
+                >
+                  <option value="">{t("deckEditor.anyRoom")}</option>
+                  {ROOMS.map((room) => (
+                    <option key={room} value={room}>
+                      {t(`room.${room}`)}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                className="secondary"
+                onClick={() =>
+                  send({ type: "removeDeckEntry", section, entryId: entry.id })
+                }
+              >
+                {t("deckEditor.remove")}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </details>
+  );
+}
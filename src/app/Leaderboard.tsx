@@ -0,0 +1,114 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+import { downloadFile } from "./download";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import { computeLeaderboard, formatRate, roundsToCsv } from "@/lib/game/stats";
+import {
+  EMPTY_ROUND_HISTORY,
+  clearRoundHistory,
+  readRoundHistory,
+  subscribeToRoundHistory,
+} from "@/lib/game/statsStorage";
+import { ROLES } from "@/lib/game/types";
+
+export default function Leaderboard() {
+  const { t } = useTranslation();
+  const history = useSyncExternalStore(
+    subscribeToRoundHistory,
+    readRoundHistory,
+    () => EMPTY_ROUND_HISTORY,
+  );
+  const rows = useMemo(() => computeLeaderboard(history), [history]);
+  const lastRound = history[history.length - 1];
+
+  return (
+    <div>
+      <h3 className={styles.panelTitle}>{t("leaderboard.title")}</h3>
+      <p className={styles.panelDescription}>
+        {history.length
+          ? t("leaderboard.onRecord", { count: history.length })
+          : t("leaderboard.empty")}
+      </p>
+      {lastRound && (
+        <p className={styles.muted}>
+          {t("leaderboard.lastRound", {
+            winner: lastRound.winners.length
+              ? lastRound.winners
+                  .map((winner) => t(`winner.${winner}`))
+                  .join(" · ")
+              : t("summary.draw"),
+          })}{" "}
+          {lastRound.ejections.length
+            ? t("leaderboard.ejected", {
+                names: lastRound.ejections.join(", "),
+              })
+            : t("leaderboard.nobodyEjected")}
+        </p>
+      )}
+      {rows.length > 0 && (
+        <div className={styles.logList}>
+          {rows.map((row) => (
+            <div className={styles.logEntry} key={row.name}>
+              <strong>{row.name}</strong> —{" "}
+              {t("leaderboard.wins", {
+                rate: formatRate(row.wins, row.rounds),
+                count: row.rounds,
+              })}
+              <div className={styles.taskMeta}>
+                {ROLES.map((role) => {
+                  const record = row.byRole[role];
+                  return (
+                    record && (
+                      <span key={role}>
+                        {t(`role.${role}`)} {record.won}/{record.played}
+                      </span>
+                    )
+                  );
+                })}
+              </div>
+              <div className={styles.taskMeta}>
+                <span>
+                  {t("leaderboard.impostorSurvival", {
+                    rate: formatRate(row.impostorSurvivals, row.impostorRounds),
+                  })}
+                </span>
+                <span>
+                  {t("leaderboard.correctEjections", {
+                    rate: formatRate(
+                      row.correctEjectionVotes,
+                      row.ejectionVotes,
+                    ),
+                  })}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className={styles.cardControls}>
+        <button
+          className="secondary"
+          disabled={!history.length}
+          onClick={() =>
+            downloadFile(
+              "imposter-relay-rounds.csv",
+              roundsToCsv(history),
+              "text/csv",
+            )
+          }
+        >
+          {t("leaderboard.exportCsv")}
+        </button>
+        <button
+          className="secondary"
+          disabled={!history.length}
+          onClick={clearRoundHistory}
+        >
+          {t("leaderboard.clear")}
+        </button>
+      </div>
+    </div>
+  );
+}
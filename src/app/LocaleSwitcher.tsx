@@ -0,0 +1,27 @@
+"use client";
+
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import { LOCALES, LOCALE_NAMES } from "@/lib/i18n/locales";
+import type { Locale } from "@/lib/i18n/locales";
+import { storeLocale } from "@/lib/i18n/localeStore";
+
+export default function LocaleSwitcher() {
+  const { locale, t } = useTranslation();
+  return (
+    <div className={styles.counter}>
+      <label htmlFor="locale-switcher">{t("locale.label")}</label>
+      <select
+        id="locale-switcher"
+        value={locale}
+        onChange={(event) => storeLocale(event.target.value as Locale)}
+      >
+        {LOCALES.map((option) => (
+          <option key={option} value={option}>
+            {LOCALE_NAMES[option]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import type { GameAction } from "@/lib/game/engine";
+import { findRoomLock, summarizeRooms } from "@/lib/game/map";
+import type { RoomLock } from "@/lib/game/map";
+import { formatCountdown } from "@/lib/game/timers";
+import type { Player } from "@/lib/game/types";
+
+type MapPanelProps = {
+  players: Player[];
+  roomLocks: RoomLock[];
+  /** A lock card waits here until the host picks the room. */
+  lockPending: boolean;
+  send: (action: GameAction) => void;
+};
+
+const TICK_MS = 250;
+
+const now = () => Date.now();
+
+/** The ship at a glance: open tasks, who is where, and any locked room. */
+export default function MapPanel({
+  players,
+  roomLocks,
+  lockPending,
+  send,
+}: MapPanelProps) {
+  const { t } = useTranslation();
+  const [clock, setClock] = useState(now);
+
+  useEffect(() => {
+    if (!roomLocks.length) return;
+    const interval = window.setInterval(() => setClock(now()), TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [roomLocks]);
+
+  const canLock = lockPending && !roomLocks.some((lock) => lock.endsAt > clock);
+
+  return (
+    <div className={styles.taskList}>
+      <h3 className={styles.panelTitle}>{t("map.title")}</h3>
+      {canLock && (
+        <p className={styles.panelDescription}>{t("map.lockHint")}</p>
+      )}
+      <div className={styles.mapGrid}>
+        {summarizeRooms(players).map((summary) => {
+          const lock = findRoomLock(roomLocks, summary.room, clock);
+          return (
+            <div
+              className={`${styles.mapRoom} ${lock ? styles.mapRoomLocked : ""}`}
+              key={summary.room}
+            >
+              <p className={styles.taskName}>{t(`room.${summary.room}`)}</p>
+              <p className={styles.muted}>
+                {t("map.tasks", {
+                  open: summary.openTasks,
+                  total: summary.totalTasks,
+                })}
+              </p>
+              {summary.present.length > 0 && (
+                <p className={styles.muted}>{summary.present.join(", ")}</p>
+              )}
+              {lock ? (
+                <span className={`tag ${styles.badgeToneDanger}`}>
+                  {t("map.locked", {
+                    time: formatCountdown(lock.endsAt - clock),
+                  })}
+                </span>
+              ) : (
+                canLock && (
+                  <button
+                    className="secondary"
+                    onClick={() =>
+                      send({ type: "lockRoom", room: summary.room, at: now() })
+                    }
+                  >
+                    {t("map.lock")}
+                  </button>
+                )
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,143 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { downloadFile } from "./download";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import {
+  LOG_EVENT_TYPES,
+  filterLog,
+  formatLogTime,
+  logToJson,
+  logToMarkdown,
+} from "@/lib/game/log";
+import type { LogEvent, LogEventType } from "@/lib/game/log";
+import type { Player } from "@/lib/game/types";
+
+type MissionLogProps = {
+  log: LogEvent[];
+  players: Player[];
+  seed: string | null;
+};
+
+export default function MissionLog({ log, players, seed }: MissionLogProps) {
+  const { locale, t, tm } = useTranslation();
+  const [playerId, setPlayerId] = useState("");
+  const [type, setType] = useState<LogEventType | "">("");
+  const [publicOnly, setPublicOnly] = useState(false);
+
+  const activePlayerId = players.some((player) => player.id === playerId)
+    ? playerId
+    : "";
+  const visible = useMemo(
+    () =>
+      filterLog(log, {
+        playerId: activePlayerId || null,
+        type: type || null,
+        publicOnly,
+      }).reverse(),
+    [log, activePlayerId, type, publicOnly],
+  );
+
+  const handleExport = (format: "json" | "md") => {
+    const exported = filterLog(log, { playerId: null, type: null, publicOnly });
+    const fileName = `mission-log-${seed ?? "round"}${publicOnly ? "-public" : ""}`;
+    if (format === "json") {
+      downloadFile(
+        `${fileName}.json`,
+        logToJson(exported, players, locale),
+        "application/json",
+      );
+      return;
+    }
+    downloadFile(
+      `${fileName}.md`,
+      logToMarkdown(
+        exported,
+        seed ? t("missionLog.titleSeeded", { seed }) : t("missionLog.title"),
+        locale,
+      ),
+      "text/markdown",
+    );
+  };
+
+  return (
+    <>
+      <div>
+        <h3 className={styles.panelTitle}>{t("missionLog.title")}</h3>
+        <p className={styles.panelDescription}>{t("missionLog.description")}</p>
+      </div>
+      <div className={styles.logFilters}>
+        <select
+          aria-label={t("missionLog.filterPlayer")}
+          value={activePlayerId}
+          onChange={(event) => setPlayerId(event.target.value)}
+        >
+          <option value="">{t("missionLog.allPlayers")}</option>
+          {players.map((player) => (
+            <option key={player.id} value={player.id}>
+              {player.name}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={t("missionLog.filterType")}
+          value={type}
+          onChange={(event) => setType(event.target.value as LogEventType | "")}
+        >
+          <option value="">{t("missionLog.allEvents")}</option>
+          {LOG_EVENT_TYPES.map((option) => (
+            <option key={option} value={option}>
+              {t(`logType.${option}`)}
+            </option>
+          ))}
+        </select>
+      </div>
+      <label className={styles.taskItem}>
+        <input
+          type="checkbox"
+          className={styles.taskAction}
+          checked={publicOnly}
+          onChange={(event) => setPublicOnly(event.target.checked)}
+        />
+        <span className={styles.taskName}>{t("missionLog.publicOnly")}</span>
+      </label>
+      {visible.length === 0 ? (
+        <div className={styles.emptyState}>
+          {log.length ? t("missionLog.noMatches") : t("missionLog.empty")}
+        </div>
+      ) : (
+        <div className={styles.logList}>
+          {visible.map((event) => (
+            <div
+              className={
+                event.hidden
+                  ? `${styles.logEntry} ${styles.logHidden}`
+                  : styles.logEntry
+              }
+              key={event.seq}
+            >
+              [{formatLogTime(event.at)}] {tm(event.message)}
+            </div>
+          ))}
+        </div>
+      )}
+      <div className={styles.cardControls}>
+        <button
+          className="secondary"
+          disabled={!log.length}
+          onClick={() => handleExport("json")}
+        >
+          {t("missionLog.exportJson")}
+        </button>
+        <button
+          className="secondary"
+          disabled={!log.length}
+          onClick={() => handleExport("md")}
+        >
+          {t("missionLog.exportMarkdown")}
+        </button>
+      </div>
+    </>
+  );
+}
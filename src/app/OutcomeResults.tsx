@@ -0,0 +1,41 @@
+"use client";
+
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import type { Outcome } from "@/lib/game/types";
+
+type OutcomeResultsProps = {
+  outcome: NonNullable<Outcome>;
+};
+
+/** Each winning party with the condition that decided it, or the draw. */
+export default function OutcomeResults({ outcome }: OutcomeResultsProps) {
+  const { locale, t, tm } = useTranslation();
+  const time = new Date(outcome.at).toLocaleTimeString(locale);
+  return (
+    <>
+      {outcome.results.map((result) => (
+        <div key={result.conditionId}>
+          <p className={styles.outcomeWinner}>
+            {result.winners.length === 0
+              ? t("summary.draw")
+              : result.winners.length === 1
+                ? t(`winner.${result.winners[0]}`)
+                : t("summary.sharedWin", {
+                    teams: new Intl.ListFormat(locale).format(
+                      result.winners.map((winner) => t(`team.${winner}`)),
+                    ),
+                  })}
+          </p>
+          <p className={styles.outcomeReason}>{tm(result.reason)}</p>
+          <p className={styles.muted}>
+            {t("summary.condition", {
+              condition: t(`winCondition.${result.conditionId}`),
+              time,
+            })}
+          </p>
+        </div>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,83 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import type { GameAction } from "@/lib/game/engine";
+import {
+  formatCountdown,
+  getExpiredTimers,
+  getRemainingMs,
+} from "@/lib/game/timers";
+import type { Timer } from "@/lib/game/timers";
+
+type PhaseTimersProps = {
+  timers: Timer[];
+  /** Without `send` the timers are display-only, as on a player's phone. */
+  send?: (action: GameAction) => void;
+};
+
+const TICK_MS = 250;
+
+const now = () => Date.now();
+
+/**
+ * Shows the running timers and reports expiries back to the reducer. The
+ * engine only learns that time has passed when this sends `expireTimers`.
+ */
+export default function PhaseTimers({ timers, send }: PhaseTimersProps) {
+  const { t } = useTranslation();
+  const [clock, setClock] = useState(now);
+
+  useEffect(() => {
+    if (!timers.length) return;
+    // Fresh timers (a new phase, a resumed session) need reporting afresh.
+    let reported: string | null = null;
+    const interval = window.setInterval(() => {
+      const at = now();
+      setClock(at);
+      const expired = getExpiredTimers(timers, at);
+      // Report each expiry once; a room round trip can outlast a tick.
+      const key = expired
+        .map((timer) => `${timer.kind}@${timer.endsAt}`)
+        .join();
+      if (send && expired.length && key !== reported) {
+        reported = key;
+        send({ type: "expireTimers", at });
+      }
+    }, TICK_MS);
+    return () => window.clearInterval(interval);
+  }, [timers, send]);
+
+  if (!timers.length) return null;
+
+  return (
+    <div className={styles.timerRow}>
+      {timers.map((timer) => {
+        const paused = timer.pausedRemaining !== null;
+        return (
+          <div className={styles.timerCard} key={timer.kind}>
+            <span className={styles.statLabel}>{t(`timer.${timer.kind}`)}</span>
+            <span className={styles.statValue}>
+              {formatCountdown(getRemainingMs(timer, clock))}
+            </span>
+            {send ? (
+              <button
+                className="secondary"
+                onClick={() =>
+                  send({ type: "toggleTimer", kind: timer.kind, at: now() })
+                }
+              >
+                {paused ? t("timers.resume") : t("timers.pause")}
+              </button>
+            ) : (
+              paused && (
+                <span className={styles.muted}>{t("timers.paused")}</span>
+              )
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+"use client";
+
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import type { DeckPack } from "@/lib/game/decks";
+import type { Player } from "@/lib/game/types";
+
+type PrintSheetsProps = {
+  players: Player[];
+  deck: DeckPack;
+  seed: string | null;
+};
+
+/**
+ * The dealt round on paper: one folding card per player, two to a page, and
+ * a host sheet. Hidden on screen; the print stylesheet shows only this.
+ */
+export default function PrintSheets({ players, deck, seed }: PrintSheetsProps) {
+  const { t } = useTranslation();
+  return (
+    <div className={styles.printSheets}>
+      {players.map((player) => (
+        <article className={styles.printCard} key={player.id}>
+          <div className={styles.printCardOutside}>
+            <p className={styles.revealRole}>{player.name}</p>
+            <p>{t("print.foldHint")}</p>
+          </div>
+          <div className={styles.printCardInside}>
+            <p className={styles.revealRole}>{t(`role.${player.role}`)}</p>
+            <p>{t(`roleDescription.${player.role}`)}</p>
+            <ul className={styles.printChecklist}>
+              {player.tasks.map((task) => (
+                <li key={task.id}>
+                  {task.name}
+                  {task.room && ` · ${t(`room.${task.room}`)}`}
+                  {task.kind !== "crew" && ` (${t(`taskKind.${task.kind}`)})`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </article>
+      ))}
+
+      <section className={styles.printHostSheet}>
+        <h2>{t("print.hostSheet")}</h2>
+        {seed && <p>{t("print.seed", { seed })}</p>}
+        <table className={styles.balanceTable}>
+          <thead>
+            <tr>
+              <th>{t("print.player")}</th>
+              <th>{t("print.role")}</th>
+              <th>{t("print.tasks")}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {players.map((player) => (
+              <tr key={player.id}>
+                <td>{player.name}</td>
+                <td>{t(`role.${player.role}`)}</td>
+                <td>{player.tasks.map((task) => task.name).join(" · ")}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <h3>{t("print.prompts")}</h3>
+        <ol>
+          {deck.sections.prompts.map((entry) => (
+            <li key={entry.id}>{entry.text}</li>
+          ))}
+        </ol>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useState } from "react";
+import { downloadFile, toFileSlug } from "./download";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import {
+  findKeyFrames,
+  findOutcomeFrame,
+  getFrameEvents,
+  parseReplayFile,
+  serializeReplay,
+} from "@/lib/game/replay";
+import type { Replay } from "@/lib/game/replay";
+import { formatCountdown } from "@/lib/game/timers";
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+
+type ReplayViewerProps = {
+  /** The finished round on the table, if there is one. */
+  replay: Replay | null;
+};
+
+const downloadReplay = (replay: Replay) =>
+  downloadFile(
+    `imposter-relay-replay-${toFileSlug(replay.id, "round")}.json`,
+    serializeReplay(replay),
+    "application/json",
+  );
+
+/** Steps or scrubs through a finished round, from this session or a file. */
+export default function ReplayViewer({ replay }: ReplayViewerProps) {
+  const { t, tm } = useTranslation();
+  const [loaded, setLoaded] = useState<Replay | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [notice, setNotice] = useState<Message | null>(null);
+
+  const shown = loaded ?? replay;
+  const lastIndex = shown ? shown.frames.length - 1 : 0;
+  const index = Math.min(frameIndex, lastIndex);
+  const frame = shown?.frames[index];
+
+  const handleImport = (file: File | undefined) => {
+    if (!file) return;
+    file
+      .text()
+      .then((raw) => {
+        const result = parseReplayFile(raw);
+        if (!result.ok) {
+          setNotice(result.error);
+          return;
+        }
+        setLoaded(result.replay);
+        setFrameIndex(0);
+        setNotice(msg("replay.loaded"));
+      })
+      .catch(() => setNotice(msg("replay.unreadable")));
+  };
+
+  const handleShowCurrent = () => {
+    setLoaded(null);
+    setFrameIndex(0);
+    setNotice(null);
+  };
+
+  const outcomeIndex = shown ? findOutcomeFrame(shown) : -1;
+  const rosterEntry = (playerId: string) =>
+    shown?.players.find((player) => player.id === playerId);
+
+  return (
+    <div>
+      <h3 className={styles.panelTitle}>{t("replay.title")}</h3>
+      <p className={styles.panelDescription}>{t("replay.description")}</p>
+      <div className={styles.cardControls}>
+        <button
+          className="secondary"
+          disabled={!shown}
+          onClick={() => shown && downloadReplay(shown)}
+        >
+          {t("replay.save")}
+        </button>
+        <label className={styles.fileButton}>
+          {t("replay.load")}
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={(event) => {
+              handleImport(event.target.files?.[0]);
+              event.target.value = "";
+            }}
+          />
+        </label>
+        {loaded && replay && (
+          <button className="secondary" onClick={handleShowCurrent}>
+            {t("replay.showCurrent")}
+          </button>
+        )}
+      </div>
+      {notice && <p className={styles.muted}>{tm(notice)}</p>}
+
+      {shown && frame && (
+        <>
+          <div className={styles.cardControls}>
+            <button
+              className="secondary"
+              disabled={index === 0}
+              onClick={() => setFrameIndex(index - 1)}
+            >
+              {t("replay.previous")}
+            </button>
+            <input
+              type="range"
+              aria-label={t("replay.scrub")}
+              min={0}
+              max={lastIndex}
+              value={index}
+              onChange={(event) => setFrameIndex(Number(event.target.value))}
+            />
+            <button
+              className="secondary"
+              disabled={index === lastIndex}
+              onClick={() => setFrameIndex(index + 1)}
+            >
+              {t("replay.next")}
+            </button>
+            {outcomeIndex >= 0 && (
+              <button
+                className="secondary"
+                onClick={() => setFrameIndex(outcomeIndex)}
+              >
+                {t("replay.jumpToOutcome")}
+              </button>
+            )}
+          </div>
+
+          <p className={styles.taskName}>
+            {t("replay.step", {
+              step: index + 1,
+              total: lastIndex + 1,
+              time: formatCountdown(frame.at - shown.startedAt),
+            })}{" "}
+            <span className="tag">{t(`phase.${frame.phase}`)}</span>
+          </p>
+          <p className={styles.muted}>
+            {t("replay.crewTasks", frame.crewTasks)}
+            {index === outcomeIndex && ` · ${t("replay.decided")}`}
+          </p>
+
+          <div className={styles.logList}>
+            {getFrameEvents(shown, index).map((event) => (
+              <div className={styles.logEntry} key={event.seq}>
+                {tm(event.message)}
+              </div>
+            ))}
+          </div>
+
+          <div className={styles.outcomeRoster}>
+            {frame.players.map((player) => {
+              const entry = rosterEntry(player.id);
+              return (
+                <span key={player.id}>
+                  <strong>{entry?.name ?? player.id}</strong>
+                  {entry && ` — ${t(`role.${entry.role}`)}`},{" "}
+                  {t(`status.${player.status}`)},{" "}
+                  {t("replay.tasks", {
+                    completed: player.tasksCompleted,
+                    total: player.tasksTotal,
+                  })}
+                </span>
+              );
+            })}
+          </div>
+
+          <h4 className={styles.taskName}>{t("replay.moments")}</h4>
+          <div className={styles.logList}>
+            {findKeyFrames(shown).map((moment) => (
+              <button
+                className="secondary"
+                key={moment.index}
+                disabled={moment.index === index}
+                onClick={() => setFrameIndex(moment.index)}
+              >
+                {formatCountdown(moment.events[0].at - shown.startedAt)} ·{" "}
+                {tm(moment.events[0].message)}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import type { GameAction } from "@/lib/game/engine";
+import { WINNERS } from "@/lib/game/types";
+import type { Player, Winner } from "@/lib/game/types";
+
+type ResultsEntryProps = {
+  players: Player[];
+  send: (action: GameAction) => void;
+};
+
+/** Let the win conditions decide, name the winning teams, or call a draw. */
+type WinnerChoice = "auto" | "teams" | "draw";
+
+const now = () => Date.now();
+
+const toggle = <T extends string>(ids: T[], id: T) =>
+  ids.includes(id) ? ids.filter((entry) => entry !== id) : [...ids, id];
+
+const getEliminatedIds = (players: Player[]) =>
+  players
+    .filter((player) => player.status === "eliminated")
+    .map((player) => player.id);
+
+const getCompletedTaskIds = (players: Player[]) =>
+  players.flatMap((player) =>
+    player.tasks.filter((task) => task.completed).map((task) => task.id),
+  );
+
+/** Copies a round played on printed cards back into the game state. */
+export default function ResultsEntry({ players, send }: ResultsEntryProps) {
+  const { t } = useTranslation();
+  const [eliminatedIds, setEliminatedIds] = useState(() =>
+    getEliminatedIds(players),
+  );
+  const [completedTaskIds, setCompletedTaskIds] = useState(() =>
+    getCompletedTaskIds(players),
+  );
+  const [choice, setChoice] = useState<WinnerChoice>("auto");
+  const [winners, setWinners] = useState<Winner[]>([]);
+
+  // Start from the live state each time the form opens, so kills and task
+  // ticks entered since the last time are not overwritten on save.
+  const handleToggle = (open: boolean) => {
+    if (!open) return;
+    setEliminatedIds(getEliminatedIds(players));
+    setCompletedTaskIds(getCompletedTaskIds(players));
+    setChoice("auto");
+    setWinners([]);
+  };
+
+  const handleSubmit = () => {
+    send({
+      type: "enterResults",
+      results: {
+        eliminatedIds,
+        completedTaskIds,
+        winners: choice === "auto" ? null : choice === "draw" ? [] : winners,
+      },
+      at: now(),
+    });
+  };
+
+  return (
+    <details
+      className={styles.deckEditor}
+      onToggle={(event) => handleToggle(event.currentTarget.open)}
+    >
+      <summary className={styles.deckSummary}>{t("results.title")}</summary>
+      <p className={styles.panelDescription}>{t("results.description")}</p>
+      {players.map((player) => (
+        <div className={styles.taskItem} key={player.id}>
+          <div>
+            <label className={styles.taskName}>
+              <input
+                type="checkbox"
+                checked={eliminatedIds.includes(player.id)}
+                onChange={() =>
+                  setEliminatedIds((ids) => toggle(ids, player.id))
+                }
+              />{" "}
+              {t("results.eliminated", { name: player.name })}
+            </label>
+            {player.tasks.map((task) => (
+              <label className={styles.muted} key={task.id}>
+                <input
+                  type="checkbox"
+                  checked={completedTaskIds.includes(task.id)}
+                  onChange={() =>
+                    setCompletedTaskIds((ids) => toggle(ids, task.id))
+                  }
+                />{" "}
+                {task.name}
+              </label>
+            ))}
+          </div>
+        </div>
+      ))}
+      <div className={styles.cardControls}>
+        <select
+          aria-label={t("results.winner")}
+          value={choice}
+          onChange={(event) => setChoice(event.target.value as WinnerChoice)}
+        >
+          <option value="auto">{t("results.auto")}</option>
+          <option value="teams">{t("results.teams")}</option>
+          <option value="draw">{t("summary.draw")}</option>
+        </select>
+        {choice === "teams" &&
+          WINNERS.map((winner) => (
+            <label className={styles.muted} key={winner}>
+              <input
+                type="checkbox"
+                checked={winners.includes(winner)}
+                onChange={() =>
+                  setWinners((current) => toggle(current, winner))
+                }
+              />{" "}
+              {t(`team.${winner}`)}
+            </label>
+          ))}
+        <button
+          onClick={handleSubmit}
+          disabled={choice === "teams" && !winners.length}
+        >
+          {t("results.save")}
+        </button>
+      </div>
+    </details>
+  );
+}
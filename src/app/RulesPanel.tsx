@@ -0,0 +1,140 @@
+"use client";
+
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import type { GameAction } from "@/lib/game/engine";
+import {
+  PRESET_IDS,
+  ROLE_MIN_PLAYERS_LIMITS,
+  RULE_LIMITS,
+} from "@/lib/game/presets";
+import type { PresetId, RuleCount, RuleSet } from "@/lib/game/presets";
+import { OPTIONAL_ROLES } from "@/lib/game/roles";
+import type { MessageKey } from "@/lib/i18n/translate";
+
+type RulesPanelProps = {
+  rules: RuleSet;
+  presetId: PresetId | null;
+  send: (action: GameAction) => void;
+};
+
+const RULE_COUNT_LABELS: Record<RuleCount, MessageKey> = {
+  minPlayers: "rules.minPlayers",
+  maxPlayers: "rules.maxPlayers",
+  playersPerImpostor: "rules.playersPerImpostor",
+  maxImpostors: "rules.maxImpostors",
+  promptDrawLimit: "rules.promptDrawLimit",
+};
+
+/** Lobby editor for the rule set; any edit turns the preset into "Custom". */
+export default function RulesPanel({ rules, presetId, send }: RulesPanelProps) {
+  const { t } = useTranslation();
+  return (
+    <details className={styles.deckEditor}>
+      <summary className={styles.deckSummary}>
+        {t("rules.title")} ·{" "}
+        {presetId ? t(`preset.${presetId}`) : t("rules.custom")}
+      </summary>
+
+      <div className={styles.lobbyControls}>
+        <div className={styles.counter}>
+          <label htmlFor="rules-preset">{t("rules.preset")}</label>
+          <select
+            id="rules-preset"
+            value={presetId ?? ""}
+            onChange={(event) =>
+              send({
+                type: "applyPreset",
+                presetId: event.target.value as PresetId,
+              })
+            }
+          >
+            {!presetId && <option value="">{t("rules.custom")}</option>}
+            {PRESET_IDS.map((id) => (
+              <option key={id} value={id}>
+                {t(`preset.${id}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {presetId && (
+        <p className={styles.muted}>
+          {t(`preset.${presetId}.description`)} {t("rules.presetNote")}
+        </p>
+      )}
+
+      <div className={styles.deckCounts}>
+        {(Object.keys(RULE_LIMITS) as RuleCount[]).map((key) => (
+          <div className={styles.counter} key={key}>
+            <label htmlFor={`rule-${key}`}>{t(RULE_COUNT_LABELS[key])}</label>
+            <input
+              id={`rule-${key}`}
+              type="number"
+              min={RULE_LIMITS[key].min}
+              max={RULE_LIMITS[key].max}
+              value={rules[key]}
+              onChange={(event) =>
+                send({
+                  type: "setRules",
+                  rules: { [key]: Number(event.target.value) || 0 },
+                })
+              }
+            />
+          </div>
+        ))}
+        {OPTIONAL_ROLES.map((role) => (
+          <div className={styles.counter} key={role}>
+            <label htmlFor={`rule-min-${role}`}>
+              {t("rules.roleFrom", { role: t(`role.${role}`) })}
+            </label>
+            <input
+              id={`rule-min-${role}`}
+              type="number"
+              min={ROLE_MIN_PLAYERS_LIMITS.min}
+              max={ROLE_MIN_PLAYERS_LIMITS.max}
+              value={rules.roleMinPlayers[role] ?? ROLE_MIN_PLAYERS_LIMITS.min}
+              onChange={(event) =>
+                send({
+                  type: "setRules",
+                  rules: {
+                    roleMinPlayers: { [role]: Number(event.target.value) || 0 },
+                  },
+                })
+              }
+            />
+          </div>
+        ))}
+      </div>
+
+      <label className={styles.taskItem}>
+        <input
+          type="checkbox"
+          className={styles.taskAction}
+          checked={rules.impostorsWinAtParity}
+          onChange={() =>
+            send({
+              type: "setRules",
+              rules: { impostorsWinAtParity: !rules.impostorsWinAtParity },
+            })
+          }
+        />
+        <span className={styles.taskName}>{t("rules.parity")}</span>
+      </label>
+      <label className={styles.taskItem}>
+        <input
+          type="checkbox"
+          className={styles.taskAction}
+          checked={rules.ghostTasks}
+          onChange={() =>
+            send({
+              type: "setRules",
+              rules: { ghostTasks: !rules.ghostTasks },
+            })
+          }
+        />
+        <span className={styles.taskName}>{t("rules.ghostTasks")}</span>
+      </label>
+    </details>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import {
+  SABOTAGE_CATALOGUE,
+  SABOTAGE_KINDS,
+  isCriticalSabotage,
+} from "@/lib/game/sabotage";
+import type { SabotageKind } from "@/lib/game/sabotage";
+import type { MessageKey } from "@/lib/i18n/translate";
+
+type SabotagePanelProps = {
+  sabotage: {
+    kind: SabotageKind;
+    fixes: Array<{ id: string; name: MessageKey; fixed: boolean }>;
+  } | null;
+  readyAt: number;
+  /** Omitted for players who may not trigger sabotage. */
+  onTrigger?: (kind: SabotageKind) => void;
+  onFix?: (fixId: string) => void;
+};
+
+export default function SabotagePanel({
+  sabotage,
+  readyAt,
+  onTrigger,
+  onFix,
+}: SabotagePanelProps) {
+  const { t } = useTranslation();
+  if (sabotage) {
+    const definition = SABOTAGE_CATALOGUE[sabotage.kind];
+    return (
+      <div className={styles.sabotageCard}>
+        <p className={styles.revealHeadline}>
+          {t(`sabotage.${sabotage.kind}`)}
+          {isCriticalSabotage(sabotage.kind) && (
+            <span className={`tag ${styles.badgeToneDanger}`}>
+              {t("sabotagePanel.critical")}
+            </span>
+          )}
+        </p>
+        {definition.blocksMeetings && (
+          <p className={styles.revealHint}>
+            {t("sabotagePanel.blocksMeetings")}
+          </p>
+        )}
+        <div className={styles.taskList}>
+          {sabotage.fixes.map((fix) => (
+            <label className={styles.taskItem} key={fix.id}>
+              <input
+                type="checkbox"
+                className={styles.taskAction}
+                checked={fix.fixed}
+                disabled={fix.fixed || !onFix}
+                onChange={() => onFix?.(fix.id)}
+              />
+              <span className={styles.taskName}>{t(fix.name)}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (!onTrigger) return null;
+
+  return (
+    <div>
+      <h3 className={styles.panelTitle}>{t("sabotagePanel.title")}</h3>
+      <p className={styles.panelDescription}>
+        {t("sabotagePanel.description")}
+        {readyAt > 0 &&
+          ` ${t("sabotagePanel.readyAgain", { time: new Date(readyAt).toLocaleTimeString() })}`}
+      </p>
+      <div className={styles.cardControls}>
+        {SABOTAGE_KINDS.map((kind) => (
+          <button
+            key={kind}
+            className={isCriticalSabotage(kind) ? undefined : "secondary"}
+            onClick={() => onTrigger(kind)}
+          >
+            {t(`sabotage.${kind}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { ANALYST_ABILITIES } from "@/lib/game/abilities";
+import type { GameAction } from "@/lib/game/engine";
+import { isNullable, isOneOf, isRecord, isString } from "@/lib/game/guards";
+import { SABOTAGE_KINDS } from "@/lib/game/sabotage";
+import { toHostAction } from "@/lib/multiplayer/hostActions";
+import {
+  applyRoomAction,
+  getRoom,
+  identify,
+  jsonError,
+  readBearerToken,
+  snapshotFor,
+} from "@/lib/multiplayer/roomStore";
+
+// Players may only act as themselves: tick their tasks, cast their ballot,
+// sabotage or fix sabotage, kill, take the Sheriff's shot, and use Analyst
+// abilities. The clock is always the server's.
+const toPlayerAction = (
+  action: Record<string, unknown>,
+  playerId: string,
+): GameAction | null => {
+  if (
+    action.type === "toggleTask" &&
+    action.playerId === playerId &&
+    isString(action.taskId)
+  ) {
+    return {
+      type: "toggleTask",
+      playerId,
+      taskId: action.taskId,
+      at: Date.now(),
+    };
+  }
+  if (
+    action.type === "castVote" &&
+    action.voterId === playerId &&
+    (action.targetId === null || isString(action.targetId))
+  ) {
+    return { type: "castVote", voterId: playerId, targetId: action.targetId };
+  }
+  if (
+    action.type === "triggerSabotage" &&
+    action.playerId === playerId &&
+    isOneOf(SABOTAGE_KINDS)(action.kind)
+  ) {
+    return {
+      type: "triggerSabotage",
+      kind: action.kind,
+      playerId,
+      at: Date.now(),
+    };
+  }
+  if (
+    action.type === "killPlayer" &&
+    action.killerId === playerId &&
+    isString(action.victimId)
+  ) {
+    return {
+      type: "killPlayer",
+      killerId: playerId,
+      victimId: action.victimId,
+      at: Date.now(),
+    };
+  }
+  if (
+    action.type === "sheriffShot" &&
+    action.sheriffId === playerId &&
+    isString(action.targetId)
+  ) {
+    return {
+      type: "sheriffShot",
+      sheriffId: playerId,
+      targetId: action.targetId,
+      at: Date.now(),
+    };
+  }
+  if (
+    action.type === "fixSabotage" &&
+    action.playerId === playerId &&
+    isString(action.fixId)
+  ) {
+    return {
+      type: "fixSabotage",
+      fixId: action.fixId,
+      playerId,
+      at: Date.now(),
+    };
+  }
+  if (
+    action.type === "useAbility" &&
+    action.playerId === playerId &&
+    isOneOf(ANALYST_ABILITIES)(action.ability) &&
+    isNullable(isString)(action.targetId)
+  ) {
+    return {
+      type: "useAbility",
+      playerId,
+      ability: action.ability,
+      targetId: action.targetId,
+      at: Date.now(),
+    };
+  }
+  if (
+    action.type === "approvePlayer" &&
+    action.analystId === playerId &&
+    isString(action.targetId)
+  ) {
+    return {
+      type: "approvePlayer",
+      analystId: playerId,
+      targetId: action.targetId,
+      at: Date.now(),
+    };
+  }
+  return null;
+};
+
+type ActionRouteContext = { params: Promise<{ code: string }> };
+
+export async function POST(request: Request, { params }: ActionRouteContext) {
+  const { code } = await params;
+  const room = getRoom(code);
+  if (!room) {
+    return jsonError("roomError.notFound", 404);
+  }
+  const identity = identify(room, readBearerToken(request));
+  if (!identity) {
+    return jsonError("roomError.notSeated", 403);
+  }
+  const body: unknown = await request.json().catch(() => null);
+  const action = isRecord(body) ? body.action : null;
+  if (!isRecord(action) || !isString(action.type)) {
+    return jsonError("roomError.noAction", 400);
+  }
+  if (action.type === "replaceState") {
+    return jsonError("roomError.replaceState", 400);
+  }
+  if (identity.kind === "player") {
+    const playerAction = toPlayerAction(action, identity.playerId);
+    if (!playerAction) {
+      return jsonError("roomError.playerActions", 403);
+    }
+    applyRoomAction(room, playerAction);
+  } else {
+    const hostAction = toHostAction(action);
+    if (!hostAction) {
+      return jsonError("roomError.invalidAction", 400);
+    }
+    try {
+      applyRoomAction(room, hostAction);
+    } catch {
+      return jsonError("roomError.actionFailed", 400);
+    }
+  }
+  return Response.json(snapshotFor(room, identity));
+}
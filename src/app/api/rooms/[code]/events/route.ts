@@ -0,0 +1,81 @@
+import type { NextRequest } from "next/server";
+import {
+  getRoom,
+  identify,
+  jsonError,
+  snapshotFor,
+  subscribeToRoom,
+} from "@/lib/multiplayer/roomStore";
+
+export const dynamic = "force-dynamic";
+
+const KEEP_ALIVE_MS = 20_000;
+
+type EventsRouteContext = { params: Promise<{ code: string }> };
+
+// EventSource cannot send headers, so the seat or host token rides in the query.
+export async function GET(request: NextRequest, { params }: EventsRouteContext) {
+  const { code } = await params;
+  const room = getRoom(code);
+  if (!room) {
+    return jsonError("roomError.notFound", 404);
+  }
+  const identity = identify(room, request.nextUrl.searchParams.get("token"));
+  if (!identity) {
+    return jsonError("roomError.notSeated", 403);
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const push = (event: "snapshot" | "closed", payload: unknown) =>
+        write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+      const finish = () => {
+        push("closed", null);
+        cleanup();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client going away.
+        }
+      };
+
+      push("snapshot", snapshotFor(room, identity));
+      const unsubscribe = subscribeToRoom(room.code, (current) => {
+        // A missing snapshot means the player's seat is gone, e.g. they
+        // were removed from the lobby.
+        const snapshot = current ? snapshotFor(current, identity) : null;
+        if (snapshot) {
+          push("snapshot", snapshot);
+        } else {
+          finish();
+        }
+      });
+      const keepAlive = setInterval(() => write(": ping\n\n"), KEEP_ALIVE_MS);
+      cleanup = () => {
+        clearInterval(keepAlive);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
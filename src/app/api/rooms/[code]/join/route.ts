@@ -0,0 +1,29 @@
+import { claimSeat, getRoom, jsonError } from "@/lib/multiplayer/roomStore";
+import type { PlayerSeat } from "@/lib/multiplayer/types";
+
+type JoinRouteContext = { params: Promise<{ code: string }> };
+
+export async function POST(request: Request, { params }: JoinRouteContext) {
+  const { code } = await params;
+  const room = getRoom(code);
+  if (!room) {
+    return jsonError("roomError.notFound", 404);
+  }
+  const body: unknown = await request.json().catch(() => null);
+  const playerId =
+    body && typeof body === "object" && "playerId" in body
+      ? body.playerId
+      : null;
+  if (typeof playerId !== "string") {
+    return jsonError("roomError.pickSeat", 400);
+  }
+  const token = claimSeat(room, playerId);
+  if (!token) {
+    return jsonError("roomError.seatTaken", 409);
+  }
+  return Response.json({
+    code: room.code,
+    token,
+    playerId,
+  } satisfies PlayerSeat);
+}
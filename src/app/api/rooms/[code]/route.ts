@@ -0,0 +1,34 @@
+import {
+  closeRoom,
+  getRoom,
+  identify,
+  jsonError,
+  readBearerToken,
+} from "@/lib/multiplayer/roomStore";
+import { buildRoster } from "@/lib/multiplayer/views";
+
+type RoomRouteContext = { params: Promise<{ code: string }> };
+
+export async function GET(_request: Request, { params }: RoomRouteContext) {
+  const { code } = await params;
+  const room = getRoom(code);
+  if (!room) {
+    return jsonError("roomError.notFound", 404);
+  }
+  return Response.json(
+    buildRoster(room.code, room.history.present, new Set(room.seats.keys())),
+  );
+}
+
+export async function DELETE(request: Request, { params }: RoomRouteContext) {
+  const { code } = await params;
+  const room = getRoom(code);
+  if (!room) {
+    return jsonError("roomError.notFound", 404);
+  }
+  if (identify(room, readBearerToken(request))?.kind !== "host") {
+    return jsonError("roomError.hostOnly", 403);
+  }
+  closeRoom(room.code);
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,17 @@
+import { isGameState } from "@/lib/game/persistence";
+import { createRoom, jsonError } from "@/lib/multiplayer/roomStore";
+import type { RoomCredentials } from "@/lib/multiplayer/types";
+
+export async function POST(request: Request) {
+  const body: unknown = await request.json().catch(() => null);
+  const state =
+    body && typeof body === "object" && "state" in body ? body.state : null;
+  if (!isGameState(state)) {
+    return jsonError("roomError.invalidState", 400);
+  }
+  const room = createRoom(state);
+  return Response.json(
+    { code: room.code, token: room.hostToken } satisfies RoomCredentials,
+    { status: 201 },
+  );
+}
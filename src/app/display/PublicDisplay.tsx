@@ -0,0 +1,154 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import OutcomeResults from "../OutcomeResults";
+import PhaseTimers from "../PhaseTimers";
+import SabotagePanel from "../SabotagePanel";
+import styles from "../page.module.css";
+import { useTranslation } from "../useTranslation";
+import { subscribeToDisplay } from "@/lib/display/channel";
+import type { PublicView } from "@/lib/display/publicView";
+import { formatLogTime } from "@/lib/game/log";
+
+/**
+ * Mirrors the host window on a shared screen. It only ever receives a
+ * PublicView, so there is nothing secret in this tab to leak.
+ */
+export default function PublicDisplay() {
+  const { t, tm } = useTranslation();
+  const [view, setView] = useState<PublicView | null>(null);
+
+  useEffect(() => subscribeToDisplay(setView), []);
+
+  if (!view) {
+    return (
+      <main className={styles.page}>
+        <div className={styles.emptyState}>{t("display.waiting")}</div>
+      </main>
+    );
+  }
+
+  const alive = view.players.filter((player) => player.status === "alive");
+
+  return (
+    <main className={styles.page}>
+      <header className={styles.hero}>
+        <div>
+          <h1 className={styles.heroTitle}>{t("host.title")}</h1>
+          <p className={styles.heroSubtitle}>{t(`phase.${view.phase}`)}</p>
+        </div>
+        <div className={styles.statsRow}>
+          <article className={styles.statBlock}>
+            <span className={styles.statLabel}>{t("stats.alive")}</span>
+            <span className={styles.statValue}>{alive.length}</span>
+          </article>
+          <article className={styles.statBlock}>
+            <span className={styles.statLabel}>{t("stats.eliminated")}</span>
+            <span className={styles.statValue}>
+              {view.players.length - alive.length}
+            </span>
+          </article>
+          <article className={styles.statBlock}>
+            <span className={styles.statLabel}>{t("stats.crewTasks")}</span>
+            <span className={styles.statValue}>{view.crewTasks.percent}%</span>
+          </article>
+        </div>
+      </header>
+
+      <div className={styles.mainGrid}>
+        <section className={styles.panel}>
+          <PhaseTimers timers={view.timers} />
+          <SabotagePanel sabotage={view.sabotage} readyAt={0} />
+
+          {view.outcome && (
+            <div className={styles.outcomeCard}>
+              <div>
+                <OutcomeResults outcome={view.outcome} />
+              </div>
+            </div>
+          )}
+
+          {view.meeting && (
+            <div className={styles.promptCard}>
+              <p className={styles.revealHeadline}>{t("phase.meeting")}</p>
+              <p>
+                {t("display.ballotsCast", {
+                  cast: view.meeting.ballotsCast,
+                  voters: view.meeting.voters,
+                })}
+              </p>
+              {view.meeting.runoff.length > 0 && (
+                <p className={styles.muted}>
+                  {t("display.runoff", {
+                    names: view.meeting.runoff.join(", "),
+                  })}
+                </p>
+              )}
+            </div>
+          )}
+
+          {view.prompt && (
+            <div className={styles.promptCard}>
+              <p>{view.prompt}</p>
+            </div>
+          )}
+          {view.silentRound && (
+            <p className={styles.revealHeadline}>{t("prompts.silentRound")}</p>
+          )}
+
+          <div className={styles.progressStack}>
+            <span className={styles.muted}>
+              {t("stats.crewTasksComplete", {
+                completed: view.crewTasks.completed,
+                total: view.crewTasks.total,
+              })}
+            </span>
+            <div className={styles.progressBar}>
+              <span
+                className={styles.progressValue}
+                style={{ width: `${view.crewTasks.percent}%` }}
+              />
+            </div>
+          </div>
+
+          <div className={styles.playerGrid}>
+            {view.players.map((player) => (
+              <article className={styles.playerCard} key={player.id}>
+                <div className={styles.playerName}>
+                  <span>{player.name}</span>
+                  <span
+                    className={`${styles.status} ${
+                      player.status === "alive"
+                        ? styles.statusAlive
+                        : styles.statusEliminated
+                    }`}
+                  >
+                    {player.status === "alive"
+                      ? t("status.alive")
+                      : t("status.eliminated")}
+                  </span>
+                </div>
+              </article>
+            ))}
+          </div>
+        </section>
+
+        <aside className={styles.panel}>
+          <h3 className={styles.panelTitle}>{t("display.latestEvents")}</h3>
+          {view.recentEvents.length ? (
+            <div className={styles.logList}>
+              {view.recentEvents.map((event) => (
+                <div className={styles.logEntry} key={event.seq}>
+                  <strong>{formatLogTime(event.at)}</strong>
+                  <span>{tm(event.message)}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className={styles.emptyState}>{t("display.noEvents")}</div>
+          )}
+        </aside>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+import type { Metadata } from "next";
+import PublicDisplay from "./PublicDisplay";
+import { getRequestLocale } from "@/lib/i18n/server";
+import { translate } from "@/lib/i18n/translate";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getRequestLocale();
+  return {
+    title: translate(locale, "meta.displayTitle"),
+    description: translate(locale, "meta.displayDescription"),
+  };
+}
+
+export default function DisplayPage() {
+  return <PublicDisplay />;
+}
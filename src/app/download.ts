@@ -0,0 +1,20 @@
+/** Saves text as a file through a temporary object URL. */
+export const downloadFile = (
+  fileName: string,
+  contents: string,
+  type: string,
+) => {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const toFileSlug = (name: string, fallback: string) =>
+  name
+    .trim()
+    .replace(/[^a-z0-9]+/gi, "-")
+    .replace(/^-+|-+$/g, "")
+    .toLowerCase() || fallback;
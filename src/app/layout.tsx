@@ -1,6 +1,8 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import { getRequestLocale } from "@/lib/i18n/server";
+import { translate } from "@/lib/i18n/translate";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -12,19 +14,21 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Imposter Relay | Party Host Console",
-  description:
-    "Run a full social deduction round from your browser with player cards, task tracking, and emergency meetings.",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getRequestLocale();
+  return {
+    title: translate(locale, "meta.title"),
+    description: translate(locale, "meta.description"),
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang={await getRequestLocale()}>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
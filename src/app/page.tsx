@@ -1,580 +1,484 @@
 // This page hosts the entire party controller interface, so it must run on the client.
 "use client";
 
-import { useCallback, useMemo, useState } from "react";
+import {
+  useEffect,
+  useMemo,
+  useReducer,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import BalancePanel from "./BalancePanel";
+import CardCheck from "./CardCheck";
+import DeckEditor from "./DeckEditor";
+import Leaderboard from "./Leaderboard";
+import LocaleSwitcher from "./LocaleSwitcher";
+import MapPanel from "./MapPanel";
+import MissionLog from "./MissionLog";
+import OutcomeResults from "./OutcomeResults";
+import PhaseTimers from "./PhaseTimers";
+import PrintSheets from "./PrintSheets";
+import ReplayViewer from "./ReplayViewer";
+import ResultsEntry from "./ResultsEntry";
+import RulesPanel from "./RulesPanel";
+import SabotagePanel from "./SabotagePanel";
 import styles from "./page.module.css";
+import { useTranslation } from "./useTranslation";
+import { createDisplayPublisher } from "@/lib/display/channel";
+import type { DisplayPublisher } from "@/lib/display/channel";
+import { buildPublicView } from "@/lib/display/publicView";
+import { initialGameState } from "@/lib/game/engine";
+import { createHistory, historyReducer } from "@/lib/game/history";
+import type { HistoryAction } from "@/lib/game/history";
+import {
+  clearSession,
+  getBootSession,
+  isResumable,
+  saveSession,
+} from "@/lib/game/persistence";
+import { generateSeed } from "@/lib/game/random";
+import { buildReplay } from "@/lib/game/replay";
+import {
+  canWorkTasks,
+  computeCrewTaskTotals,
+  getAliveCrew,
+  getAliveImpostors,
+  getMaxImpostors,
+  isImpostorSide,
+  validatePlayerName,
+} from "@/lib/game/rules";
+import {
+  OPTIONAL_ROLES,
+  ROLE_CATALOGUE,
+  compareByRoster,
+} from "@/lib/game/roles";
+import { findUnreportedKill } from "@/lib/game/kills";
+import { ROOMS } from "@/lib/game/map";
+import type { RoomId } from "@/lib/game/map";
+import { buildRoundRecord } from "@/lib/game/stats";
+import { recordRound } from "@/lib/game/statsStorage";
+import type { RoleTone } from "@/lib/game/roles";
+import type { SabotageKind } from "@/lib/game/sabotage";
+import { TIE_RULES } from "@/lib/game/types";
+import type { Phase, Role, TieRule } from "@/lib/game/types";
+import { SKIP_VOTE, getVoters } from "@/lib/game/voting";
+import {
+  closeRoom,
+  createRoom,
+  describeRoomError,
+  playerJoinUrl,
+  sendRoomAction,
+  subscribeToRoomEvents,
+} from "@/lib/multiplayer/client";
+import type { HostSnapshot, RoomCredentials } from "@/lib/multiplayer/types";
+import type { Message } from "@/lib/i18n/translate";
 
-type Phase = "lobby" | "reveal" | "mission" | "meeting" | "ended";
-type Role = "Crewmate" | "Impostor" | "Analyst";
-type TaskKind = "crew" | "impostor" | "support";
-
-type Task = {
-  id: string;
-  name: string;
-  kind: TaskKind;
-  completed: boolean;
-};
-
-type Player = {
-  id: string;
-  name: string;
-  role: Role;
-  tasks: Task[];
-  status: "alive" | "eliminated";
-  cardSeen: boolean;
-};
-
-type Outcome =
-  | {
-      winner: "Crewmates" | "Impostors";
-      reason: string;
-    }
-  | null;
-
-const CREW_TASK_BANK = [
-  "Calibrate hydroponics valves",
-  "Align telescope array and report spectra",
-  "Prime navigation thrusters",
-  "Divert power to security grid",
-  "Reset reactor coolant equilibrator",
-  "Refuel the landing shuttle",
-  "Run diagnostics on med-scanner",
-  "Patch hull microfractures",
-  "Reboot comms uplink",
-  "Secure cargo bay manifests",
-  "Sweep ventilation ducts",
-  "Sync shipboard chronometer",
-] as const;
-
-const IMPOSTOR_OBJECTIVES = [
-  "Sabotage oxygen recyclers unnoticed",
-  "Stage a false security alert",
-  "Shadow the analyst and gain trust",
-  "Plant decoy clues in electrical",
-  "Force a strategic split-up",
-  "Fake a task completion convincingly",
-  "Trigger lights out mid-mission",
-  "Frame a crewmate near a vent",
-] as const;
-
-const SUPPORT_ROUTINES = [
-  "Scan the field deck for anomalies",
-  "Verify DNA tags for the crew",
-  "Audit task completion logs",
-  "Run probability matrix on accusations",
-  "Coordinate safe routes between zones",
-  "Ping silent players for status",
-  "Check security feeds for patterns",
-] as const;
-
-const PROMPT_DECK = [
-  "Flash mission: everyone share their location in under 5 seconds.",
-  "Quiet round: complete a task without saying a word.",
-  "Mini-challenge: swap a task card with the player on your left.",
-  "Truth pull: each player states who they trust the most this round.",
-  "Speed check: complete any task within 30 seconds or call a meeting.",
-  "Silent signal: analysts can secretly approve one crewmate this cycle.",
-  "Saboteur stunt: impostors must orchestrate a distraction in 2 minutes.",
-  "Paranoia push: vote to lock a room for the next minute.",
-] as const;
-
-const ROLE_DESCRIPTIONS: Record<Role, string> = {
-  Crewmate: "Complete critical ship tasks and keep an eye out for sabotage.",
-  Analyst:
-    "Support the crew with intel, track alibis, and confirm suspicious activity.",
-  Impostor:
-    "Blend in, derail task completion, and eliminate the crew without exposure.",
+const ROLE_TONE_CLASS: Record<RoleTone, string> = {
+  crew: styles.roleCrewmate,
+  impostor: styles.roleImpostor,
+  intel: styles.roleAnalyst,
+  enforcer: styles.roleSheriff,
+  technician: styles.roleEngineer,
+  wildcard: styles.roleJester,
 };
 
-const PHASE_LABELS: Record<Phase, string> = {
-  lobby: "Player Lobby",
-  reveal: "Card Reveal",
-  mission: "Mission Control",
-  meeting: "Emergency Meeting",
-  ended: "Round Summary",
-};
-
-const ROLE_CLASS_MAP: Record<Role, string> = {
-  Crewmate: styles.roleCrewmate,
-  Impostor: styles.roleImpostor,
-  Analyst: styles.roleAnalyst,
-};
+const roleClass = (role: Role) => ROLE_TONE_CLASS[ROLE_CATALOGUE[role].tone];
 
 const PHASE_BADGE_TONE: Partial<Record<Phase, string>> = {
   meeting: styles.badgeToneWarning,
   ended: styles.badgeToneSuccess,
 };
 
-const clamp = (value: number, min: number, max: number) =>
-  Math.min(Math.max(value, min), max);
+const now = () => Date.now();
+
+const subscribeToNothing = () => () => {};
 
 const cx = (...classes: Array<string | false | null | undefined>) =>
   classes.filter(Boolean).join(" ");
 
-const getRandomItems = <T,>(source: readonly T[], count: number): T[] => {
-  if (!source.length || count <= 0) return [];
-  const safeCount = Math.min(count, source.length);
-  const pool = [...source];
-  for (let i = pool.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [pool[i], pool[j]] = [pool[j], pool[i]];
-  }
-  return pool.slice(0, safeCount);
-};
-
-const buildTask = (name: string, kind: TaskKind): Task => ({
-  id: crypto.randomUUID(),
-  name,
-  kind,
-  completed: false,
-});
-
-const getMaxImpostors = (playerCount: number) =>
-  clamp(Math.floor(playerCount / 3) || 1, 1, 3);
-
-const computeCrewTaskTotals = (playerList: Player[]) =>
-  playerList.reduce(
-    (acc, player) => {
-      player.tasks.forEach((task) => {
-        if (task.kind === "impostor") return;
-        acc.total += 1;
-        if (task.completed) acc.completed += 1;
-      });
-      return acc;
-    },
-    { total: 0, completed: 0 },
-  );
-
-const evaluateOutcome = (playerList: Player[]): Outcome => {
-  if (!playerList.length) {
-    return null;
-  }
-  const aliveCrew = playerList.filter(
-    (player) =>
-      player.status === "alive" &&
-      (player.role === "Crewmate" || player.role === "Analyst"),
-  ).length;
-  const aliveImpostors = playerList.filter(
-    (player) => player.status === "alive" && player.role === "Impostor",
-  ).length;
-  if (aliveImpostors === 0 && aliveCrew > 0) {
-    return { winner: "Crewmates", reason: "All impostors were neutralized." };
-  }
-  if (aliveCrew === 0 || aliveImpostors >= aliveCrew) {
-    return {
-      winner: "Impostors",
-      reason: "Impostors reached player parity and seized control.",
-    };
-  }
-  const totals = computeCrewTaskTotals(playerList);
-  if (totals.total > 0 && totals.completed === totals.total) {
-    return {
-      winner: "Crewmates",
-      reason: "Every critical task was completed before sabotage spiked.",
-    };
-  }
-  return null;
-};
-
 export default function Home() {
+  const { locale, t, tm } = useTranslation();
+  const [history, dispatch] = useReducer(
+    historyReducer,
+    initialGameState,
+    createHistory,
+  );
+  const game = history.present;
   const [playerName, setPlayerName] = useState("");
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [phase, setPhase] = useState<Phase>("lobby");
-  const [impostorCount, setImpostorCount] = useState(1);
-  const [activeCardIndex, setActiveCardIndex] = useState(0);
+  const [seedInput, setSeedInput] = useState("");
   const [showRole, setShowRole] = useState(false);
-  const [missionLog, setMissionLog] = useState<string[]>([]);
-  const [selectedSuspect, setSelectedSuspect] = useState<string | null>(null);
-  const [prompt, setPrompt] = useState<string | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [outcome, setOutcome] = useState<Outcome>(null);
-
-  const logEvent = useCallback((entry: string) => {
-    const stamp = new Date().toLocaleTimeString([], {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-    setMissionLog((prev) => [`[${stamp}] ${entry}`, ...prev].slice(0, 18));
+  const [cardCheckActive, setCardCheckActive] = useState(false);
+  const [pinInput, setPinInput] = useState("");
+  const [resumeAnswered, setResumeAnswered] = useState(false);
+  const [room, setRoom] = useState<RoomCredentials | null>(null);
+  const [claimedSeats, setClaimedSeats] = useState<string[]>([]);
+  const [roomError, setRoomError] = useState<Message | null>(null);
+  const [roomHistory, setRoomHistory] = useState({
+    canUndo: false,
+    canRedo: false,
+  });
+  const displayPublisher = useRef<DisplayPublisher | null>(null);
+  const bootSession = useSyncExternalStore(
+    subscribeToNothing,
+    getBootSession,
+    () => null,
+  );
+  const pendingResume =
+    !resumeAnswered && isResumable(bootSession) ? bootSession : null;
+  const {
+    players,
+    phase,
+    impostorCount,
+    tieRule,
+    enabledRoles,
+    rules,
+    presetId,
+    deck,
+    timerSettings,
+    timers,
+    sabotage,
+    sabotageReadyAt,
+    kills,
+    sheriffShots,
+    roomLocks,
+    abilityUses,
+    seed,
+    activeCardIndex,
+    missionLog,
+    prompt,
+    pendingEffect,
+    promptsDrawn,
+    silentRound,
+    approvalTokens,
+    meeting,
+    outcome,
+    error,
+  } = game;
+
+  useEffect(() => {
+    // Hold off until the host has answered the resume prompt, otherwise the
+    // empty lobby would overwrite the session they may want back.
+    if (!resumeAnswered && isResumable(getBootSession())) return;
+    saveSession(game, now());
+  }, [game, resumeAnswered]);
+
+  useEffect(() => {
+    const record = buildRoundRecord(game, now());
+    if (record) {
+      recordRound(record);
+    }
+  }, [game]);
+
+  useEffect(() => {
+    const publisher = createDisplayPublisher();
+    displayPublisher.current = publisher;
+    return () => {
+      displayPublisher.current = null;
+      publisher.close();
+    };
   }, []);
 
-  const aliveCrew = useMemo(
-    () =>
-      players.filter(
-        (player) =>
-          player.status === "alive" &&
-          (player.role === "Crewmate" || player.role === "Analyst"),
-      ),
-    [players],
-  );
+  useEffect(() => {
+    displayPublisher.current?.publish(buildPublicView(game));
+  }, [game]);
 
-  const aliveImpostors = useMemo(
-    () =>
-      players.filter(
-        (player) => player.status === "alive" && player.role === "Impostor",
-      ),
-    [players],
-  );
+  useEffect(() => {
+    if (!room) return;
+    return subscribeToRoomEvents<HostSnapshot>(
+      room,
+      (snapshot) => {
+        dispatch({ type: "replaceState", state: snapshot.state });
+        setClaimedSeats(snapshot.claimedSeats);
+        setRoomHistory({
+          canUndo: snapshot.canUndo,
+          canRedo: snapshot.canRedo,
+        });
+      },
+      () => {
+        setRoom(null);
+        setClaimedSeats([]);
+      },
+    );
+  }, [room]);
+
+  // With a room open the server owns the game state and its undo history;
+  // the local reducer only mirrors the snapshots it sends back.
+  const send = (action: HistoryAction) => {
+    if (!room) {
+      dispatch(action);
+      return;
+    }
+    sendRoomAction<HostSnapshot>(room, action)
+      .then((snapshot) => {
+        dispatch({ type: "replaceState", state: snapshot.state });
+        setRoomHistory({
+          canUndo: snapshot.canUndo,
+          canRedo: snapshot.canRedo,
+        });
+        setRoomError(null);
+      })
+      .catch((reason: unknown) => setRoomError(describeRoomError(reason)));
+  };
+
+  const { canUndo, canRedo } = room
+    ? roomHistory
+    : { canUndo: history.past.length > 0, canRedo: history.future.length > 0 };
+
+  const aliveCrew = useMemo(() => getAliveCrew(players), [players]);
+  const aliveImpostors = useMemo(() => getAliveImpostors(players), [players]);
 
   const crewTaskTotals = useMemo(() => {
-    const totals = computeCrewTaskTotals(players);
+    const totals = computeCrewTaskTotals(players, rules);
     const percent =
       totals.total === 0
         ? 0
         : Math.round((totals.completed / totals.total) * 100);
     return { ...totals, percent };
-  }, [players]);
-  const maximumImpostors = getMaxImpostors(players.length);
+  }, [players, rules]);
+  const voters = useMemo(() => getVoters(players), [players]);
+  const ballotsCast = meeting
+    ? voters.filter((voter) => meeting.ballots[voter.id]).length
+    : 0;
+  const maximumImpostors = getMaxImpostors(players.length, rules);
   const impostorOptions = Array.from({ length: maximumImpostors }, (_, index) => index + 1);
   const impostorValue = Math.min(impostorCount, maximumImpostors);
-  const effectivePhase: Phase =
-    outcome && phase !== "lobby" && phase !== "reveal" ? "ended" : phase;
-
-  const syncOutcome = useCallback(
-    (nextPlayers: Player[], nextPhase: Phase = phase) => {
-      if (nextPhase === "lobby" || nextPhase === "reveal") {
-        if (outcome) {
-          setOutcome(null);
-        }
-        return;
-      }
-      const evaluated = evaluateOutcome(nextPlayers);
-      if (
-        evaluated &&
-        (!outcome ||
-          evaluated.winner !== outcome.winner ||
-          evaluated.reason !== outcome.reason)
-      ) {
-        setOutcome(evaluated);
-        logEvent(
-          `${evaluated.winner} locked the round — ${evaluated.reason}`,
-        );
-      } else if (!evaluated && outcome) {
-        setOutcome(null);
-      }
-    },
-    [phase, outcome, logEvent],
-  );
+  const canDrawPrompt =
+    (phase === "mission" || phase === "meeting") &&
+    !outcome &&
+    !pendingEffect &&
+    promptsDrawn < rules.promptDrawLimit;
 
   const handleAddPlayer = () => {
-    const trimmed = playerName.trim();
-    if (!trimmed) {
-      setError("Enter a player name before adding.");
-      return;
+    send({ type: "addPlayer", id: crypto.randomUUID(), name: playerName });
+    if (!validatePlayerName(players, playerName)) {
+      setPlayerName("");
     }
-    if (
-      players.some(
-        (player) => player.name.toLowerCase() === trimmed.toLowerCase(),
-      )
-    ) {
-      setError("That player name is already in the lobby.");
-      return;
-    }
-    const newPlayer: Player = {
-      id: crypto.randomUUID(),
-      name: trimmed,
-      role: "Crewmate",
-      tasks: [],
-      status: "alive",
-      cardSeen: false,
-    };
-    setPlayers((prev) => [...prev, newPlayer]);
-    setPlayerName("");
-    setError(null);
   };
 
   const handleRemovePlayer = (id: string) => {
-    const nextPlayers = players.filter((player) => player.id !== id);
-    setPlayers(nextPlayers);
-    const nextMax = getMaxImpostors(nextPlayers.length);
-    if (impostorCount > nextMax) {
-      setImpostorCount(nextMax);
-    }
-    if (!nextPlayers.length) {
-      setPhase("lobby");
-      setOutcome(null);
-      setMissionLog([]);
-      setPrompt(null);
-      setSelectedSuspect(null);
-      setActiveCardIndex(0);
-      setShowRole(false);
-    } else {
-      syncOutcome(nextPlayers, phase);
-    }
+    send({ type: "removePlayer", playerId: id });
   };
 
   const handleResetLobby = () => {
-    setPlayers([]);
-    setMissionLog([]);
-    setPhase("lobby");
-    setOutcome(null);
-    setActiveCardIndex(0);
+    send({ type: "resetLobby" });
     setShowRole(false);
-    setPrompt(null);
-    setSelectedSuspect(null);
-    setError(null);
-    setImpostorCount(1);
   };
 
   const handleStartRound = () => {
-    if (players.length < 4) {
-      setError("You need at least 4 players to start a deduction round.");
-      return;
-    }
-    const maxImpostors = getMaxImpostors(players.length);
-    const impostorTarget = clamp(impostorCount, 1, maxImpostors);
-    const shuffledIds = [...players.map((player) => player.id)].sort(
-      () => Math.random() - 0.5,
-    );
-    const impostorIds = new Set(
-      shuffledIds.slice(0, impostorTarget),
-    );
-    const crewCandidates = shuffledIds.filter((id) => !impostorIds.has(id));
-    const analystId =
-      players.length >= 6 && crewCandidates.length
-        ? crewCandidates[Math.floor(Math.random() * crewCandidates.length)]
-        : null;
-
-    const roundPlayers = players.map((player) => {
-      let role: Role = impostorIds.has(player.id) ? "Impostor" : "Crewmate";
-      if (analystId === player.id) {
-        role = "Analyst";
-      }
-      const tasks =
-        role === "Impostor"
-          ? getRandomItems(IMPOSTOR_OBJECTIVES, 3).map((item) =>
-              buildTask(item, "impostor"),
-            )
-          : role === "Analyst"
-            ? getRandomItems(SUPPORT_ROUTINES, 3).map((item) =>
-                buildTask(item, "support"),
-              )
-            : getRandomItems(CREW_TASK_BANK, 4).map((item) =>
-                buildTask(item, "crew"),
-              );
-      return {
-        ...player,
-        role,
-        tasks,
-        status: "alive" as const,
-        cardSeen: false,
-      };
+    send({
+      type: "startRound",
+      at: now(),
+      seed: seedInput.trim() || generateSeed(),
     });
-
-    setPlayers(roundPlayers);
-    setPhase("reveal");
-    setOutcome(null);
-    setActiveCardIndex(0);
     setShowRole(false);
-    setSelectedSuspect(null);
-    setPrompt(null);
-    setMissionLog([
-      `Round armed with ${impostorTarget} impostor${impostorTarget > 1 ? "s" : ""}. Reveal cards privately before continuing.`,
-    ]);
-    setError(null);
-    setImpostorCount(impostorTarget);
   };
 
   const currentPlayer =
     phase === "reveal" ? players[activeCardIndex] ?? null : null;
 
   const handleNextCard = () => {
-    if (!currentPlayer) return;
-    const nextPlayers = players.map((player) =>
-      player.id === currentPlayer.id ? { ...player, cardSeen: true } : player,
-    );
-    setPlayers(nextPlayers);
+    send({ type: "nextCard", at: now() });
     setShowRole(false);
-    if (activeCardIndex + 1 >= players.length) {
-      setPhase("mission");
-      logEvent("All cards viewed. Mission control live.");
-      syncOutcome(nextPlayers, "mission");
-    } else {
-      setActiveCardIndex((prev) => prev + 1);
-    }
+    setPinInput("");
+  };
+
+  const handleSavePin = () => {
+    if (!currentPlayer) return;
+    send({ type: "setPin", playerId: currentPlayer.id, pin: pinInput });
+    setPinInput("");
   };
 
   const skipRemainingReveal = () => {
-    if (phase !== "reveal") return;
-    const nextPlayers = players.map((player) =>
-      player.cardSeen ? player : { ...player, cardSeen: true },
-    );
-    setPlayers(nextPlayers);
-    setPhase("mission");
+    send({ type: "skipReveal", at: now() });
     setShowRole(false);
-    logEvent("Card reveal skipped. Mission control live.");
-    syncOutcome(nextPlayers, "mission");
+    setPinInput("");
   };
 
   const handleToggleTask = (playerId: string, taskId: string) => {
-    if (effectivePhase === "ended") return;
-    const targetPlayer = players.find((player) => player.id === playerId);
-    if (!targetPlayer) return;
-    const targetTask = targetPlayer.tasks.find((task) => task.id === taskId);
-    if (!targetTask) return;
-    const updatedTask = { ...targetTask, completed: !targetTask.completed };
-    const nextPlayers = players.map((player) => {
-      if (player.id !== playerId) return player;
-      return {
-        ...player,
-        tasks: player.tasks.map((task) =>
-          task.id === taskId ? updatedTask : task,
-        ),
-      };
-    });
-    setPlayers(nextPlayers);
-    logEvent(
-      `${targetPlayer.name} ${
-        updatedTask.completed ? "completed" : "reopened"
-      } "${targetTask.name}".`,
-    );
-    syncOutcome(nextPlayers, phase);
+    send({ type: "toggleTask", playerId, taskId, at: now() });
   };
 
-  const handleToggleStatus = (playerId: string) => {
-    if (effectivePhase === "ended") return;
-    const targetPlayer = players.find((player) => player.id === playerId);
-    if (!targetPlayer) return;
-    const nextStatus: Player["status"] =
-      targetPlayer.status === "alive" ? "eliminated" : "alive";
-    const nextPlayers = players.map((player) =>
-      player.id === playerId ? { ...player, status: nextStatus } : player,
-    );
-    setPlayers(nextPlayers);
-    logEvent(
-      `${targetPlayer.name} is now marked ${
-        nextStatus === "alive" ? "safe" : "eliminated"
-      }.`,
-    );
-    syncOutcome(nextPlayers, phase);
+  const handleKill = (killerId: string, victimId: string) => {
+    send({ type: "killPlayer", killerId, victimId, at: now() });
+  };
+
+  const handleShoot = (sheriffId: string, targetId: string) => {
+    send({ type: "sheriffShot", sheriffId, targetId, at: now() });
+  };
+
+  const handleSetLocation = (playerId: string, room: RoomId | null) => {
+    send({ type: "setLocation", playerId, room });
+  };
+
+  const handleReportBody = (reporterId: string, victimId: string) => {
+    send({ type: "reportBody", reporterId, victimId, at: now() });
+  };
+
+  const handleEliminate = (playerId: string) => {
+    send({ type: "eliminatePlayer", playerId, at: now() });
+  };
+
+  const handleRevive = (playerId: string) => {
+    send({ type: "revivePlayer", playerId, at: now() });
   };
 
   const handleCallMeeting = () => {
-    if (phase !== "mission" || outcome) return;
-    setPhase("meeting");
-    setSelectedSuspect(null);
-    logEvent("Emergency meeting called. Resolve accusations swiftly.");
-    syncOutcome(players, "meeting");
+    send({ type: "callMeeting", at: now() });
   };
 
-  const handleEjectSuspect = () => {
-    if (!selectedSuspect) {
-      setError("Select a suspect before confirming the vote.");
-      return;
-    }
-    let ejectedName = "";
-    const nextPlayers = players.map((player) => {
-      if (player.id !== selectedSuspect) return player;
-      ejectedName = player.name;
-      return { ...player, status: "eliminated" as Player["status"] };
-    });
-    if (ejectedName) {
-      setPlayers(nextPlayers);
-      logEvent(`${ejectedName} was ejected during the meeting.`);
-      syncOutcome(nextPlayers, "mission");
-    }
-    setSelectedSuspect(null);
-    setPhase("mission");
-    setError(null);
+  const handlePrint = () => {
+    window.print();
+  };
+
+  const handleDeclareDraw = () => {
+    send({ type: "declareDraw", at: now() });
+  };
+
+  const handleCastVote = (voterId: string, targetId: string) => {
+    send({ type: "castVote", voterId, targetId: targetId || null });
+  };
+
+  const handleTriggerSabotage = (kind: SabotageKind) => {
+    send({ type: "triggerSabotage", kind, playerId: null, at: now() });
+  };
+
+  const handleFixSabotage = (fixId: string) => {
+    send({ type: "fixSabotage", fixId, playerId: null, at: now() });
+  };
+
+  const handleCloseVoting = () => {
+    send({ type: "closeVoting", at: now() });
   };
 
   const handleSkipVote = () => {
-    logEvent("Vote skipped. Mission resumes.");
-    setSelectedSuspect(null);
-    setPhase("mission");
-    syncOutcome(players, "mission");
+    send({ type: "skipVote", at: now() });
   };
 
   const handlePrompt = () => {
-    const card =
-      PROMPT_DECK[Math.floor(Math.random() * PROMPT_DECK.length)] ?? null;
-    setPrompt(card);
-    if (card) {
-      logEvent(`New prompt drawn: ${card}`);
-    }
+    send({ type: "drawPrompt", at: now() });
+  };
+
+  const handleRunEffect = () => {
+    send({ type: "runPromptEffect", at: now() });
+  };
+
+  const handleDismissEffect = () => {
+    send({ type: "dismissPromptEffect", at: now() });
+  };
+
+  const handleApprove = (analystId: string, targetId: string) => {
+    send({ type: "approvePlayer", analystId, targetId, at: now() });
   };
 
   const handleResetRound = () => {
-    setPlayers((prev) =>
-      prev.map((player) => ({
-        ...player,
-        role: "Crewmate",
-        tasks: [],
-        status: "alive",
-        cardSeen: false,
-      })),
-    );
-    setPhase("lobby");
-    setOutcome(null);
-    setActiveCardIndex(0);
+    send({ type: "resetRound" });
+    setShowRole(false);
+  };
+
+  const handleResumeSession = () => {
+    if (!pendingResume) return;
+    dispatch({ type: "replaceState", state: pendingResume.state });
+    setResumeAnswered(true);
     setShowRole(false);
-    setMissionLog([]);
-    setSelectedSuspect(null);
-    setPrompt(null);
-    setError(null);
+  };
+
+  const handleDiscardSession = () => {
+    clearSession();
+    setResumeAnswered(true);
+  };
+
+  const handleOpenRoom = () => {
+    createRoom(game)
+      .then((credentials) => {
+        setRoom(credentials);
+        setRoomError(null);
+      })
+      .catch((reason: unknown) => setRoomError(describeRoomError(reason)));
+  };
+
+  const handleCloseRoom = () => {
+    if (!room) return;
+    closeRoom(room)
+      .catch(() => undefined)
+      .finally(() => {
+        setRoom(null);
+        setClaimedSeats([]);
+      });
   };
 
   const sortedRoster = useMemo(
-    () =>
-      [...players].sort((a, b) => {
-        if (a.role === b.role) {
-          return a.name.localeCompare(b.name);
-        }
-        if (a.role === "Impostor") return -1;
-        if (b.role === "Impostor") return 1;
-        if (a.role === "Analyst") return -1;
-        if (b.role === "Analyst") return 1;
-        return a.name.localeCompare(b.name);
-      }),
+    () => [...players].sort(compareByRoster),
     [players],
   );
 
+  const replay = useMemo(
+    () => (phase === "ended" ? buildReplay(game) : null),
+    [phase, game],
+  );
+
   return (
     <main className={styles.page}>
       <header className={styles.hero}>
         <div>
-          <h1 className={styles.heroTitle}>Imposter Relay Control Center</h1>
-          <p className={styles.heroSubtitle}>
-            Host a full social deduction session from a single screen. Add
-            players, assign hidden roles, track progress, and resolve emergency
-            meetings without a separate rulebook.
-          </p>
+          <h1 className={styles.heroTitle}>{t("host.title")}</h1>
+          <p className={styles.heroSubtitle}>{t("host.subtitle")}</p>
         </div>
+        <LocaleSwitcher />
         <div className={styles.phaseBar}>
           <span
             className={cx(
               "tag",
               styles.phaseBadge,
-              PHASE_BADGE_TONE[effectivePhase] ?? "",
+              PHASE_BADGE_TONE[phase] ?? "",
             )}
           >
-            {PHASE_LABELS[effectivePhase]}
+            {t(`phase.${phase}`)}
           </span>
-          {effectivePhase === "mission" && (
+          {phase === "mission" && (
             <span className={cx("tag", styles.badgeToneSuccess)}>
-              {crewTaskTotals.percent}% crew tasks complete
+              {t("host.tasksPercent", { percent: crewTaskTotals.percent })}
             </span>
           )}
-          {effectivePhase === "meeting" && (
-            <span className={cx("tag", styles.badgeToneDanger)}>
-              Emergency Meeting
+          {silentRound && (
+            <span className={cx("tag", styles.badgeToneWarning)}>
+              {t("prompts.silentRound")}
             </span>
           )}
+          <div className={styles.cardControls}>
+            <button
+              className="secondary"
+              disabled={!canUndo}
+              onClick={() => send({ type: "undo", at: now() })}
+            >
+              {t("host.undo")}
+            </button>
+            <button
+              className="secondary"
+              disabled={!canRedo}
+              onClick={() => send({ type: "redo", at: now() })}
+            >
+              {t("host.redo")}
+            </button>
+          </div>
         </div>
         <div className={styles.statsRow}>
           <article className={styles.statBlock}>
-            <span className={styles.statLabel}>Players</span>
+            <span className={styles.statLabel}>{t("stats.players")}</span>
             <span className={styles.statValue}>{players.length}</span>
           </article>
           <article className={styles.statBlock}>
-            <span className={styles.statLabel}>Alive Crew</span>
+            <span className={styles.statLabel}>{t("stats.aliveCrew")}</span>
             <span className={styles.statValue}>{aliveCrew.length}</span>
           </article>
           <article className={styles.statBlock}>
-            <span className={styles.statLabel}>Alive Impostors</span>
+            <span className={styles.statLabel}>
+              {t("stats.aliveImpostors")}
+            </span>
             <span className={styles.statValue}>{aliveImpostors.length}</span>
           </article>
           <article className={styles.statBlock}>
-            <span className={styles.statLabel}>Crew Task %</span>
+            <span className={styles.statLabel}>{t("stats.crewTasks")}</span>
             <span className={styles.statValue}>
               {crewTaskTotals.percent}%
             </span>
@@ -582,66 +486,94 @@ export default function Home() {
         </div>
       </header>
 
+      {pendingResume && (
+        <section className={styles.resumeCard}>
+          <div>
+            <p className={styles.revealHeadline}>{t("resume.title")}</p>
+            <p className={styles.revealHint}>
+              {t("resume.summary", {
+                phase: t(`phase.${pendingResume.state.phase}`),
+                count: pendingResume.state.players.length,
+                time: new Date(pendingResume.savedAt).toLocaleTimeString([], {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                }),
+              })}
+            </p>
+          </div>
+          <div className={styles.cardControls}>
+            <button onClick={handleResumeSession}>{t("resume.resume")}</button>
+            <button className="secondary" onClick={handleDiscardSession}>
+              {t("resume.discard")}
+            </button>
+          </div>
+        </section>
+      )}
+
       <div className={styles.mainGrid}>
         <section className={styles.panel}>
           <div className={styles.panelHeader}>
             <div>
-              <h2 className={styles.panelTitle}>
-                {effectivePhase === "lobby" && "Build Your Lobby"}
-                {effectivePhase === "reveal" && "Card Reveal Deck"}
-                {effectivePhase === "mission" && "Mission Control Tracker"}
-                {effectivePhase === "meeting" && "Emergency Voting Console"}
-                {effectivePhase === "ended" && "Round Summary"}
-              </h2>
+              <h2 className={styles.panelTitle}>{t(`panel.${phase}`)}</h2>
               <p className={styles.panelDescription}>
-                {effectivePhase === "lobby" &&
-                  "Add each player, choose your impostor count, and lock in the next social deduction round."}
-                {effectivePhase === "reveal" &&
-                  "Hand the device to each player privately so they can reveal their role card."}
-                {effectivePhase === "mission" &&
-                  "Track task completion, mark eliminations, and pull prompt cards to add tension."}
-                {effectivePhase === "meeting" &&
-                  "Discuss the sabotage, select a suspect, and decide whether to eject or skip."}
-                {effectivePhase === "ended" &&
-                  "Celebrate victory, review the roster, and reset for the next round."}
+                {t(`panel.${phase}.description`)}
               </p>
             </div>
-            {effectivePhase === "mission" && (
+            {phase === "mission" && (
               <div className={styles.cardControls}>
-                <button onClick={handleCallMeeting} disabled={!!outcome}>
-                  Call Meeting
+                <button onClick={handleCallMeeting}>
+                  {t("host.callMeeting")}
                 </button>
                 <button
                   className="secondary"
                   onClick={handlePrompt}
-                  disabled={!!outcome}
+                  disabled={!canDrawPrompt}
                 >
-                  Draw Prompt
+                  {t("host.drawPrompt")}
+                </button>
+                <button className="secondary" onClick={handleDeclareDraw}>
+                  {t("host.declareDraw")}
+                </button>
+                <button className="secondary" onClick={handlePrint}>
+                  {t("host.printCards")}
                 </button>
               </div>
             )}
-            {effectivePhase === "lobby" && players.length > 0 && (
+            {phase === "reveal" && (
               <div className={styles.cardControls}>
-                <button onClick={handleStartRound}>Start Round</button>
+                <button className="secondary" onClick={handlePrint}>
+                  {t("host.printCards")}
+                </button>
+              </div>
+            )}
+            {phase === "lobby" && players.length > 0 && (
+              <div className={styles.cardControls}>
+                <button onClick={handleStartRound}>
+                  {t("host.startRound")}
+                </button>
                 <button className="secondary" onClick={handleResetLobby}>
-                  Clear Lobby
+                  {t("host.clearLobby")}
                 </button>
               </div>
             )}
-            {effectivePhase === "ended" && (
+            {phase === "ended" && (
               <div className={styles.cardControls}>
-                <button onClick={handleResetRound}>Reset for New Round</button>
+                <button onClick={handleResetRound}>
+                  {t("host.resetRound")}
+                </button>
               </div>
             )}
           </div>
 
-          {error && <div className={styles.error}>{error}</div>}
+          {error && <div className={styles.error}>{tm(error)}</div>}
 
-          {effectivePhase === "lobby" && (
+          <PhaseTimers timers={timers} send={send} />
+
+          {phase === "lobby" && (
             <>
               <div className={styles.lobbyForm}>
                 <input
-                  placeholder="Enter player name"
+                  placeholder={t("lobby.namePlaceholder")}
                   value={playerName}
                   onChange={(event) => setPlayerName(event.target.value)}
                   onKeyDown={(event) => {
@@ -651,19 +583,22 @@ export default function Home() {
                     }
                   }}
                 />
-                <button onClick={handleAddPlayer}>Add Player</button>
+                <button onClick={handleAddPlayer}>
+                  {t("lobby.addPlayer")}
+                </button>
               </div>
 
               <div className={styles.lobbyControls}>
                 <div className={styles.counter}>
-                  <label htmlFor="impostor-count">Impostors</label>
+                  <label htmlFor="impostor-count">{t("lobby.impostors")}</label>
                   <select
                     id="impostor-count"
                     value={impostorValue}
                     onChange={(event) =>
-                      setImpostorCount(
-                        Number.parseInt(event.target.value, 10) || 1,
-                      )
+                      send({
+                        type: "setImpostorCount",
+                        count: Number.parseInt(event.target.value, 10) || 1,
+                      })
                     }
                   >
                     {impostorOptions.map((count) => (
@@ -674,14 +609,131 @@ export default function Home() {
                   </select>
                 </div>
                 <div className={styles.counter}>
-                  <label>Round Status</label>
-                  <div className="tag">Awaiting launch</div>
+                  <label htmlFor="tie-rule">{t("lobby.tieRule")}</label>
+                  <select
+                    id="tie-rule"
+                    value={tieRule}
+                    onChange={(event) =>
+                      send({
+                        type: "setTieRule",
+                        tieRule: event.target.value as TieRule,
+                      })
+                    }
+                  >
+                    {TIE_RULES.map((rule) => (
+                      <option key={rule} value={rule}>
+                        {t(`tieRule.${rule}`)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className={styles.counter}>
+                  <label htmlFor="round-seed">{t("lobby.seed")}</label>
+                  <input
+                    id="round-seed"
+                    placeholder={t("lobby.seedPlaceholder")}
+                    value={seedInput}
+                    onChange={(event) => setSeedInput(event.target.value)}
+                  />
+                </div>
+                <div className={styles.counter}>
+                  <label htmlFor="discussion-seconds">
+                    {t("lobby.discussionSeconds")}
+                  </label>
+                  <input
+                    id="discussion-seconds"
+                    type="number"
+                    min={0}
+                    value={timerSettings.discussionSeconds}
+                    onChange={(event) =>
+                      send({
+                        type: "setTimerSettings",
+                        settings: {
+                          discussionSeconds: Number(event.target.value) || 0,
+                        },
+                      })
+                    }
+                  />
+                </div>
+                <div className={styles.counter}>
+                  <label htmlFor="voting-seconds">
+                    {t("lobby.votingSeconds")}
+                  </label>
+                  <input
+                    id="voting-seconds"
+                    type="number"
+                    min={0}
+                    value={timerSettings.votingSeconds}
+                    onChange={(event) =>
+                      send({
+                        type: "setTimerSettings",
+                        settings: {
+                          votingSeconds: Number(event.target.value) || 0,
+                        },
+                      })
+                    }
+                  />
+                </div>
+                <div className={styles.counter}>
+                  <label htmlFor="mission-minutes">
+                    {t("lobby.missionMinutes")}
+                  </label>
+                  <input
+                    id="mission-minutes"
+                    type="number"
+                    min={0}
+                    placeholder={t("lobby.off")}
+                    value={timerSettings.missionMinutes || ""}
+                    onChange={(event) =>
+                      send({
+                        type: "setTimerSettings",
+                        settings: {
+                          missionMinutes: Number(event.target.value) || 0,
+                        },
+                      })
+                    }
+                  />
                 </div>
+                <div className={styles.counter}>
+                  <label>{t("lobby.roundStatus")}</label>
+                  <div className="tag">{t("lobby.awaitingLaunch")}</div>
+                </div>
+              </div>
+
+              <BalancePanel
+                playerCount={players.length}
+                setup={{ rules, enabledRoles, deck, tieRule, timerSettings }}
+                onPick={(count) => send({ type: "setImpostorCount", count })}
+              />
+
+              <div className={styles.roleToggles}>
+                {OPTIONAL_ROLES.map((role) => (
+                  <label className={styles.taskItem} key={role}>
+                    <input
+                      type="checkbox"
+                      className={styles.taskAction}
+                      checked={enabledRoles.includes(role)}
+                      onChange={() => send({ type: "toggleRole", role })}
+                    />
+                    <div>
+                      <span className={cx(styles.roleBadge, roleClass(role))}>
+                        {t(`role.${role}`)}
+                      </span>
+                      <p className={cx(styles.taskName, styles.muted)}>
+                        {t(`roleDescription.${role}`)}
+                      </p>
+                    </div>
+                  </label>
+                ))}
               </div>
 
+              <RulesPanel rules={rules} presetId={presetId} send={send} />
+
+              <DeckEditor deck={deck} send={send} />
+
               {players.length === 0 ? (
                 <div className={styles.emptyState}>
-                  No players yet. Add at least four names to launch a round.
+                  {t("lobby.empty", { count: rules.minPlayers })}
                 </div>
               ) : (
                 <div className={styles.playerGrid}>
@@ -693,11 +745,13 @@ export default function Home() {
                           className="secondary"
                           onClick={() => handleRemovePlayer(player.id)}
                         >
-                          Remove
+                          {t("lobby.remove")}
                         </button>
                       </div>
                       <p className={styles.panelDescription}>
-                        Ready for role assignment.
+                        {claimedSeats.includes(player.id)
+                          ? t("lobby.joinedRemotely")
+                          : t("lobby.ready")}
                       </p>
                     </article>
                   ))}
@@ -710,22 +764,56 @@ export default function Home() {
             <div className={styles.revealCard}>
               <div>
                 <p className={styles.revealHeadline}>
-                  Pass device to <strong>{currentPlayer.name}</strong>
-                </p>
-                <p className={styles.revealHint}>
-                  Tap reveal to show their secret role, then continue to the next
-                  player.
+                  {t("reveal.passDevice")} <strong>{currentPlayer.name}</strong>
                 </p>
+                <p className={styles.revealHint}>{t("reveal.hint")}</p>
+                {room && (
+                  <p className={styles.revealHint}>
+                    {t("reveal.roomHint", { code: room.code })}
+                  </p>
+                )}
               </div>
               {showRole ? (
                 <div>
-                  <p className={styles.revealRole}>{currentPlayer.role}</p>
+                  <p className={styles.revealRole}>
+                    {t(`role.${currentPlayer.role}`)}
+                  </p>
                   <p className={styles.revealHint}>
-                    {ROLE_DESCRIPTIONS[currentPlayer.role]}
+                    {t(`roleDescription.${currentPlayer.role}`)}
                   </p>
+                  <div className={styles.cardControls}>
+                    <input
+                      aria-label={t("reveal.pinLabel")}
+                      placeholder={t("reveal.pinLabel")}
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="off"
+                      maxLength={6}
+                      value={pinInput}
+                      onChange={(event) => setPinInput(event.target.value)}
+                      onKeyDown={(event) => {
+                        if (event.key === "Enter") {
+                          event.preventDefault();
+                          handleSavePin();
+                        }
+                      }}
+                    />
+                    <button
+                      className="secondary"
+                      onClick={handleSavePin}
+                      disabled={!pinInput}
+                    >
+                      {t("reveal.pinSave")}
+                    </button>
+                  </div>
+                  {currentPlayer.pin !== null && (
+                    <p className={styles.muted}>{t("reveal.pinSaved")}</p>
+                  )}
                 </div>
               ) : (
-                <button onClick={() => setShowRole(true)}>Reveal Role</button>
+                <button onClick={() => setShowRole(true)}>
+                  {t("card.revealRole")}
+                </button>
               )}
               <div className={styles.cardControls}>
                 <button
@@ -733,30 +821,54 @@ export default function Home() {
                   onClick={() => setShowRole(false)}
                   disabled={!showRole}
                 >
-                  Hide Role
+                  {t("card.hideRole")}
                 </button>
-                <button onClick={handleNextCard}>Next Player</button>
+                <button onClick={handleNextCard}>{t("reveal.next")}</button>
                 <button className="secondary" onClick={skipRemainingReveal}>
-                  Skip Remainder
+                  {t("reveal.skip")}
                 </button>
               </div>
             </div>
           )}
 
-          {effectivePhase === "mission" && (
+          {(phase === "reveal" || phase === "mission") && (
+            <ResultsEntry key={phase} players={players} send={send} />
+          )}
+
+          {phase === "mission" && (
             <>
+              <SabotagePanel
+                sabotage={sabotage}
+                readyAt={sabotageReadyAt}
+                onTrigger={handleTriggerSabotage}
+                onFix={handleFixSabotage}
+              />
+              <CardCheck
+                players={players}
+                abilityUses={abilityUses}
+                send={send}
+                onActiveChange={setCardCheckActive}
+              />
+              <MapPanel
+                players={players}
+                roomLocks={roomLocks}
+                lockPending={pendingEffect === "lockRoom"}
+                send={send}
+              />
               {players.length === 0 ? (
                 <div className={styles.emptyState}>
-                  No players available. Reset to lobby and add players.
+                  {t("mission.noPlayers")}
                 </div>
               ) : (
                 <>
                   <div className={styles.progressStack}>
                     <div className={styles.utilityRow}>
-                      <span>Mission status</span>
+                      <span>{t("mission.status")}</span>
                       <span>
-                        {crewTaskTotals.completed} / {crewTaskTotals.total} tasks
-                        complete
+                        {t("mission.tasksComplete", {
+                          completed: crewTaskTotals.completed,
+                          total: crewTaskTotals.total,
+                        })}
                       </span>
                     </div>
                     <div className={styles.progressBar}>
@@ -766,156 +878,322 @@ export default function Home() {
                       />
                     </div>
                   </div>
-                  <div className={styles.playerGrid}>
-                    {players.map((player) => (
-                      <article className={styles.playerCard} key={player.id}>
-                        <div className={styles.playerName}>
-                          <span>{player.name}</span>
-                          <span
-                            className={cx(
-                              styles.roleBadge,
-                              ROLE_CLASS_MAP[player.role],
+                  {cardCheckActive ? (
+                    // Roles, tasks and impostor-only controls all give the
+                    // game away to the player standing at the screen.
+                    <p className={styles.muted}>{t("cardCheck.gridHidden")}</p>
+                  ) : (
+                    <div className={styles.playerGrid}>
+                      {players.map((player) => (
+                        <article className={styles.playerCard} key={player.id}>
+                          <div className={styles.playerName}>
+                            <span>{player.name}</span>
+                            <span
+                              className={cx(
+                                styles.roleBadge,
+                                roleClass(player.role),
+                              )}
+                            >
+                              {t(`role.${player.role}`)}
+                            </span>
+                          </div>
+                          <div className={styles.taskMeta}>
+                            <span
+                              className={cx(
+                                styles.status,
+                                player.status === "alive"
+                                  ? styles.statusAlive
+                                  : styles.statusEliminated,
+                              )}
+                            >
+                              {player.cause
+                                ? t(`cause.${player.cause}`)
+                                : t("status.alive")}
+                            </span>
+                            {player.status === "alive" ? (
+                              <button
+                                className="secondary"
+                                onClick={() => handleEliminate(player.id)}
+                              >
+                                {t("mission.eliminate")}
+                              </button>
+                            ) : (
+                              <button
+                                className="secondary"
+                                onClick={() => handleRevive(player.id)}
+                              >
+                                {t("mission.revive")}
+                              </button>
                             )}
-                          >
-                            {player.role}
-                          </span>
-                        </div>
-                        <div className={styles.taskMeta}>
-                          <span
-                            className={cx(
-                              styles.status,
-                              player.status === "alive"
-                                ? styles.statusAlive
-                                : styles.statusEliminated,
+                          </div>
+                          {player.status === "alive" &&
+                            isImpostorSide(player) && (
+                              <select
+                                aria-label={t("mission.killLabel", {
+                                  name: player.name,
+                                })}
+                                value=""
+                                onChange={(event) =>
+                                  handleKill(player.id, event.target.value)
+                                }
+                              >
+                                <option value="">
+                                  {t("mission.killPlaceholder")}
+                                </option>
+                                {voters
+                                  .filter((victim) => !isImpostorSide(victim))
+                                  .map((victim) => (
+                                    <option key={victim.id} value={victim.id}>
+                                      {victim.name}
+                                    </option>
+                                  ))}
+                              </select>
                             )}
+                          {player.status === "alive" &&
+                            player.role === "Sheriff" &&
+                            !sheriffShots.includes(player.id) && (
+                              <select
+                                aria-label={t("mission.shotLabel", {
+                                  name: player.name,
+                                })}
+                                value=""
+                                onChange={(event) =>
+                                  handleShoot(player.id, event.target.value)
+                                }
+                              >
+                                <option value="">
+                                  {t("mission.shotPlaceholder")}
+                                </option>
+                                {voters
+                                  .filter((target) => target.id !== player.id)
+                                  .map((target) => (
+                                    <option key={target.id} value={target.id}>
+                                      {target.name}
+                                    </option>
+                                  ))}
+                              </select>
+                            )}
+                          {player.status === "alive" &&
+                            approvalTokens.includes(player.id) && (
+                              <select
+                                aria-label={t("mission.approveLabel", {
+                                  name: player.name,
+                                })}
+                                value=""
+                                onChange={(event) =>
+                                  handleApprove(player.id, event.target.value)
+                                }
+                              >
+                                <option value="">
+                                  {t("mission.approvePlaceholder")}
+                                </option>
+                                {voters
+                                  .filter((target) => target.id !== player.id)
+                                  .map((target) => (
+                                    <option key={target.id} value={target.id}>
+                                      {target.name}
+                                    </option>
+                                  ))}
+                              </select>
+                            )}
+                          {player.status === "eliminated" &&
+                            findUnreportedKill(kills, player.id) && (
+                              <select
+                                aria-label={t("mission.reportLabel", {
+                                  name: player.name,
+                                })}
+                                value=""
+                                onChange={(event) =>
+                                  handleReportBody(
+                                    event.target.value,
+                                    player.id,
+                                  )
+                                }
+                              >
+                                <option value="">
+                                  {t("mission.reportPlaceholder")}
+                                </option>
+                                {voters.map((reporter) => (
+                                  <option key={reporter.id} value={reporter.id}>
+                                    {reporter.name}
+                                  </option>
+                                ))}
+                              </select>
+                            )}
+                          <select
+                            aria-label={t("mission.locationLabel", {
+                              name: player.name,
+                            })}
+                            value={player.location ?? ""}
+                            onChange={(event) =>
+                              handleSetLocation(
+                                player.id,
+                                (event.target.value || null) as RoomId | null,
+                              )
+                            }
                           >
-                            {player.status === "alive"
-                              ? "On mission"
-                              : "Eliminated"}
-                          </span>
-                          <button
-                            className="secondary"
-                            onClick={() => handleToggleStatus(player.id)}
-                            disabled={!!outcome}
-                          >
-                            Toggle status
-                          </button>
-                        </div>
-                        {player.tasks.length === 0 ? (
-                          <p className={styles.muted}>
-                            No objectives assigned for this role.
-                          </p>
-                        ) : (
-                          <div className={styles.taskList}>
-                            {player.tasks.map((task) => (
-                              <label className={styles.taskItem} key={task.id}>
-                                <input
-                                  type="checkbox"
-                                  className={styles.taskAction}
-                                  checked={task.completed}
-                                  onChange={() =>
-                                    handleToggleTask(player.id, task.id)
-                                  }
-                                  disabled={
-                                    player.status !== "alive" || !!outcome
-                                  }
-                                />
-                                <div>
-                                  <p
-                                    className={cx(
-                                      styles.taskName,
-                                      task.completed && styles.taskNameCompleted,
-                                    )}
-                                  >
-                                    {task.name}
-                                  </p>
-                                  <div className={styles.taskMeta}>
-                                    <span>
-                                      {task.kind === "crew" && "Crew Task"}
-                                      {task.kind === "support" && "Intel Task"}
-                                      {task.kind === "impostor" && "Secret Play"}
-                                    </span>
-                                  </div>
-                                </div>
-                              </label>
+                            <option value="">{t("mission.noLocation")}</option>
+                            {ROOMS.map((room) => (
+                              <option key={room} value={room}>
+                                {t(`room.${room}`)}
+                              </option>
                             ))}
-                          </div>
-                        )}
-                      </article>
-                    ))}
-                  </div>
+                          </select>
+                          {player.tasks.length === 0 ? (
+                            <p className={styles.muted}>
+                              {t("mission.noObjectives")}
+                            </p>
+                          ) : (
+                            <div className={styles.taskList}>
+                              {player.tasks.map((task) => (
+                                <label
+                                  className={styles.taskItem}
+                                  key={task.id}
+                                >
+                                  <input
+                                    type="checkbox"
+                                    className={styles.taskAction}
+                                    checked={task.completed}
+                                    onChange={() =>
+                                      handleToggleTask(player.id, task.id)
+                                    }
+                                    disabled={!canWorkTasks(player, rules)}
+                                  />
+                                  <div>
+                                    <p
+                                      className={cx(
+                                        styles.taskName,
+                                        task.completed &&
+                                          styles.taskNameCompleted,
+                                      )}
+                                    >
+                                      {task.name}
+                                    </p>
+                                    <div className={styles.taskMeta}>
+                                      <span>{t(`taskKind.${task.kind}`)}</span>
+                                      {task.room && (
+                                        <span>{t(`room.${task.room}`)}</span>
+                                      )}
+                                    </div>
+                                  </div>
+                                </label>
+                              ))}
+                            </div>
+                          )}
+                        </article>
+                      ))}
+                    </div>
+                  )}
                 </>
               )}
             </>
           )}
 
-          {effectivePhase === "meeting" && (
+          {phase === "meeting" && meeting && (
             <>
+              {meeting.runoff && (
+                <p className={styles.muted}>
+                  {t("meeting.runoff", {
+                    names: new Intl.ListFormat(locale, {
+                      type: "disjunction",
+                    }).format(
+                      players
+                        .filter((player) => meeting.runoff?.includes(player.id))
+                        .map((player) => player.name),
+                    ),
+                  })}
+                </p>
+              )}
               <div className={styles.meetingGrid}>
                 {players.map((player) => (
-                  <button
-                    key={player.id}
-                    className={cx(
-                      styles.suspectButton,
-                      selectedSuspect === player.id && styles.suspectButtonSelected,
+                  <div key={player.id} className={styles.ballotCard}>
+                    <div className={styles.playerName}>
+                      <strong>{player.name}</strong>
+                      <span
+                        className={cx(
+                          styles.roleBadge,
+                          roleClass(player.role),
+                        )}
+                      >
+                        {t(`role.${player.role}`)}
+                      </span>
+                    </div>
+                    {player.status === "alive" ? (
+                      <select
+                        aria-label={t("meeting.voteLabel", {
+                          name: player.name,
+                        })}
+                        value={meeting.ballots[player.id] ?? ""}
+                        onChange={(event) =>
+                          handleCastVote(player.id, event.target.value)
+                        }
+                      >
+                        <option value="">{t("meeting.noVote")}</option>
+                        <option value={SKIP_VOTE}>{t("tally.skip")}</option>
+                        {voters
+                          .filter(
+                            (candidate) =>
+                              !meeting.runoff ||
+                              meeting.runoff.includes(candidate.id),
+                          )
+                          .map((candidate) => (
+                            <option key={candidate.id} value={candidate.id}>
+                              {candidate.name}
+                            </option>
+                          ))}
+                      </select>
+                    ) : (
+                      <span className={styles.muted}>
+                        {t("meeting.cannotVote")}
+                      </span>
                     )}
-                    onClick={() =>
-                      setSelectedSuspect(
-                        selectedSuspect === player.id ? null : player.id,
-                      )
-                    }
-                    disabled={!!outcome}
-                  >
-                    <strong>{player.name}</strong>
-                    <span className={styles.muted}>
-                      {player.status === "alive"
-                        ? "Currently active"
-                        : "Marked eliminated"}
-                    </span>
-                    <span
-                      className={cx(
-                        styles.roleBadge,
-                        ROLE_CLASS_MAP[player.role],
-                      )}
-                    >
-                      {player.role}
-                    </span>
-                  </button>
+                  </div>
                 ))}
               </div>
+              <div className={styles.utilityRow}>
+                <span>
+                  {t("display.ballotsCast", {
+                    cast: ballotsCast,
+                    voters: voters.length,
+                  })}
+                </span>
+                <span>{t(`tieRule.${tieRule}`)}</span>
+              </div>
               <div className={styles.meetingActions}>
-                <button onClick={handleEjectSuspect} disabled={!!outcome}>
-                  Confirm ejection
+                <button onClick={handleCloseVoting}>
+                  {t("meeting.closeVoting")}
                 </button>
-                <button
-                  className="secondary"
-                  onClick={handleSkipVote}
-                  disabled={!!outcome}
-                >
-                  Skip vote
+                <button className="secondary" onClick={handleSkipVote}>
+                  {t("meeting.skipVote")}
                 </button>
               </div>
             </>
           )}
 
-          {effectivePhase === "ended" && outcome && (
+          {phase === "ended" && outcome && (
             <div className={styles.outcomeCard}>
               <div>
-                <p className={styles.outcomeWinner}>{outcome.winner} win</p>
-                <p className={styles.outcomeReason}>{outcome.reason}</p>
+                <OutcomeResults outcome={outcome} />
+                {seed && (
+                  <p className={styles.muted}>{t("summary.seed", { seed })}</p>
+                )}
               </div>
               <div className={styles.outcomeRoster}>
                 {sortedRoster.map((player) => (
                   <span key={player.id}>
-                    <strong>{player.name}</strong> — {player.role},{" "}
-                    {player.status === "alive" ? "survived" : "eliminated"}
+                    <strong>{player.name}</strong> — {t(`role.${player.role}`)},{" "}
+                    {player.cause
+                      ? t(`cause.${player.cause}`).toLowerCase()
+                      : t("summary.survived")}
                   </span>
                 ))}
               </div>
               <div className={styles.cardControls}>
-                <button onClick={handleResetRound}>Set up next round</button>
+                <button onClick={handleResetRound}>
+                  {t("summary.nextRound")}
+                </button>
                 <button className="secondary" onClick={handleResetLobby}>
-                  Back to empty lobby
+                  {t("summary.emptyLobby")}
                 </button>
               </div>
             </div>
@@ -923,54 +1201,122 @@ export default function Home() {
         </section>
 
         <aside className={styles.panel}>
+          <MissionLog log={missionLog} players={players} seed={seed} />
+
           <div>
-            <h3 className={styles.panelTitle}>Mission Log</h3>
+            <h3 className={styles.panelTitle}>{t("prompts.title")}</h3>
             <p className={styles.panelDescription}>
-              Snapshot of critical events. The newest entries sit at the top.
+              {t("prompts.description")}
             </p>
-          </div>
-          {missionLog.length === 0 ? (
-            <div className={styles.emptyState}>
-              Mission feed idle. Progress updates will appear here once the
-              round is in motion.
-            </div>
-          ) : (
-            <div className={styles.logList}>
-              {missionLog.map((entry, index) => (
-                <div className={styles.logEntry} key={entry + index}>
-                  {entry}
-                </div>
-              ))}
+            <div className={styles.promptCard}>
+              <p>{prompt ?? t("prompts.empty")}</p>
+              {pendingEffect && (
+                <>
+                  <p className={styles.taskName}>
+                    {t("prompts.effect", {
+                      effect: t(`effect.${pendingEffect}`),
+                    })}
+                  </p>
+                  <p className={styles.muted}>
+                    {t(`effectDescription.${pendingEffect}`)}
+                  </p>
+                  <div className={styles.cardControls}>
+                    {pendingEffect !== "lockRoom" && (
+                      <button
+                        onClick={handleRunEffect}
+                        disabled={phase !== "mission"}
+                      >
+                        {t("prompts.runEffect")}
+                      </button>
+                    )}
+                    <button className="secondary" onClick={handleDismissEffect}>
+                      {t("prompts.dismissEffect")}
+                    </button>
+                  </div>
+                </>
+              )}
+              <p className={styles.muted}>
+                {t("prompts.drawn", {
+                  count: promptsDrawn,
+                  limit: rules.promptDrawLimit,
+                })}
+              </p>
+              <button onClick={handlePrompt} disabled={!canDrawPrompt}>
+                {t("host.drawPrompt")}
+              </button>
             </div>
-          )}
+          </div>
 
           <div>
-            <h3 className={styles.panelTitle}>Prompt Deck</h3>
+            <h3 className={styles.panelTitle}>{t("devices.title")}</h3>
             <p className={styles.panelDescription}>
-              Pull a tension card to shake up the mission flow.
+              {t("devices.description")}
             </p>
-            <div className={styles.promptCard}>
-              <p>{prompt ?? "No prompt drawn yet. Press the button below."}</p>
-              <button onClick={handlePrompt}>Draw prompt</button>
+            {roomError && <div className={styles.error}>{tm(roomError)}</div>}
+            {room ? (
+              <div className={styles.promptCard}>
+                <p>
+                  {t("devices.roomCode")} <strong>{room.code}</strong> —{" "}
+                  {t("devices.joined", {
+                    joined: claimedSeats.length,
+                    total: players.length,
+                  })}
+                </p>
+                <p className={styles.muted}>
+                  {t("devices.joinAt", { url: playerJoinUrl(room.code) })}
+                </p>
+                <button className="secondary" onClick={handleCloseRoom}>
+                  {t("devices.close")}
+                </button>
+              </div>
+            ) : (
+              <div className={styles.cardControls}>
+                <button className="secondary" onClick={handleOpenRoom}>
+                  {t("devices.open")}
+                </button>
+              </div>
+            )}
+          </div>
+
+          <div>
+            <h3 className={styles.panelTitle}>{t("display.title")}</h3>
+            <p className={styles.panelDescription}>
+              {t("display.description")}
+            </p>
+            <div className={styles.cardControls}>
+              <button
+                className="secondary"
+                onClick={() => window.open("/display", "_blank", "noopener")}
+              >
+                {t("display.open")}
+              </button>
             </div>
           </div>
 
+          <Leaderboard />
+
+          <ReplayViewer replay={replay} />
+
           <div>
-            <h3 className={styles.panelTitle}>Quick Reset</h3>
+            <h3 className={styles.panelTitle}>{t("quickReset.title")}</h3>
             <p className={styles.panelDescription}>
-              Need a fresh start? Reset the current round or wipe the lobby.
+              {t("quickReset.description")}
             </p>
             <div className={styles.cardControls}>
               <button className="secondary" onClick={handleResetRound}>
-                Reset round
+                {t("quickReset.round")}
               </button>
               <button className="secondary" onClick={handleResetLobby}>
-                Clear lobby
+                {t("host.clearLobby")}
               </button>
             </div>
           </div>
         </aside>
       </div>
+
+      {phase !== "lobby" && (
+        <PrintSheets players={players} deck={deck} seed={seed} />
+      )}
     </main>
   );
 }
@@ -0,0 +1,446 @@
+// Each player's private view of a hosted room, opened on their own device.
+"use client";
+
+import { useEffect, useState, useSyncExternalStore } from "react";
+import AnalystAbilities from "../AnalystAbilities";
+import LocaleSwitcher from "../LocaleSwitcher";
+import OutcomeResults from "../OutcomeResults";
+import PhaseTimers from "../PhaseTimers";
+import SabotagePanel from "../SabotagePanel";
+import styles from "../page.module.css";
+import { useTranslation } from "../useTranslation";
+import {
+  describeRoomError,
+  fetchRoster,
+  joinRoom,
+  sendRoomAction,
+  subscribeToRoomEvents,
+} from "@/lib/multiplayer/client";
+import {
+  clearStoredSeat,
+  readStoredSeat,
+  storeSeat,
+  subscribeToSeat,
+} from "@/lib/multiplayer/seatStorage";
+import { SKIP_VOTE } from "@/lib/game/voting";
+import type { AnalystAbility } from "@/lib/game/abilities";
+import type { GameAction } from "@/lib/game/engine";
+import type { SabotageKind } from "@/lib/game/sabotage";
+import type { PlayerView, RoomRoster } from "@/lib/multiplayer/types";
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+
+const now = () => Date.now();
+
+const cx = (...classes: Array<string | false | null | undefined>) =>
+  classes.filter(Boolean).join(" ");
+
+export default function PlayerConsole({
+  initialCode,
+}: {
+  initialCode: string;
+}) {
+  const { t, tm } = useTranslation();
+  const seat = useSyncExternalStore(subscribeToSeat, readStoredSeat, () => null);
+  const [code, setCode] = useState(initialCode);
+  const [roster, setRoster] = useState<RoomRoster | null>(null);
+  const [view, setView] = useState<PlayerView | null>(null);
+  const [showRole, setShowRole] = useState(false);
+  const [error, setError] = useState<Message | null>(null);
+
+  useEffect(() => {
+    if (!seat) return;
+    return subscribeToRoomEvents<PlayerView>(seat, setView, () => {
+      clearStoredSeat();
+      setView(null);
+      setError(msg("player.roomClosed"));
+    });
+  }, [seat]);
+
+  const handleFindRoom = () => {
+    if (!code.trim()) {
+      setError(msg("player.codeMissing"));
+      return;
+    }
+    fetchRoster(code)
+      .then((result) => {
+        setRoster(result);
+        setError(null);
+      })
+      .catch((reason: unknown) => {
+        setRoster(null);
+        setError(describeRoomError(reason));
+      });
+  };
+
+  const handleClaimSeat = (playerId: string) => {
+    if (!roster) return;
+    joinRoom(roster.code, playerId)
+      .then((claimed) => {
+        storeSeat(claimed);
+        setRoster(null);
+        setError(null);
+      })
+      .catch((reason: unknown) => setError(describeRoomError(reason)));
+  };
+
+  const handleLeaveSeat = () => {
+    clearStoredSeat();
+    setView(null);
+    setShowRole(false);
+  };
+
+  const send = (action: GameAction) => {
+    if (!seat) return;
+    sendRoomAction<PlayerView>(seat, action)
+      .then((next) => {
+        setView(next);
+        setError(null);
+      })
+      .catch((reason: unknown) => setError(describeRoomError(reason)));
+  };
+
+  const handleToggleTask = (taskId: string) => {
+    if (!seat) return;
+    send({ type: "toggleTask", playerId: seat.playerId, taskId, at: now() });
+  };
+
+  const handleVote = (targetId: string) => {
+    if (!seat || !view?.ballot) return;
+    send({
+      type: "castVote",
+      voterId: seat.playerId,
+      targetId: view.ballot.vote === targetId ? null : targetId,
+    });
+  };
+
+  const handleTriggerSabotage = (kind: SabotageKind) => {
+    if (!seat) return;
+    send({ type: "triggerSabotage", kind, playerId: seat.playerId, at: now() });
+  };
+
+  const handleFixSabotage = (fixId: string) => {
+    if (!seat) return;
+    send({ type: "fixSabotage", fixId, playerId: seat.playerId, at: now() });
+  };
+
+  const handleKill = (victimId: string) => {
+    if (!seat) return;
+    send({ type: "killPlayer", killerId: seat.playerId, victimId, at: now() });
+  };
+
+  const handleShoot = (targetId: string) => {
+    if (!seat) return;
+    send({
+      type: "sheriffShot",
+      sheriffId: seat.playerId,
+      targetId,
+      at: now(),
+    });
+  };
+
+  const handleApprove = (targetId: string) => {
+    if (!seat) return;
+    send({
+      type: "approvePlayer",
+      analystId: seat.playerId,
+      targetId,
+      at: now(),
+    });
+  };
+
+  const handleUseAbility = (
+    ability: AnalystAbility,
+    targetId: string | null,
+  ) => {
+    if (!seat) return;
+    send({
+      type: "useAbility",
+      playerId: seat.playerId,
+      ability,
+      targetId,
+      at: now(),
+    });
+  };
+
+  const player = view?.player ?? null;
+  const canWorkTasks = !!view?.canWorkTasks;
+
+  return (
+    <main className={styles.page}>
+      <header className={styles.hero}>
+        <div>
+          <h1 className={styles.heroTitle}>{t("player.title")}</h1>
+          <p className={styles.heroSubtitle}>{t("player.subtitle")}</p>
+        </div>
+        <LocaleSwitcher />
+        {view && (
+          <div className={styles.phaseBar}>
+            <span className={cx("tag", styles.phaseBadge)}>
+              {t(`phase.${view.phase}`)}
+            </span>
+            <span className="tag">{t("room.tag", { code: view.code })}</span>
+          </div>
+        )}
+      </header>
+
+      <section className={styles.panel}>
+        {error && <div className={styles.error}>{tm(error)}</div>}
+
+        {!seat && (
+          <>
+            <div>
+              <h2 className={styles.panelTitle}>{t("player.joinTitle")}</h2>
+              <p className={styles.panelDescription}>
+                {t("player.joinDescription")}
+              </p>
+            </div>
+            <div className={styles.lobbyForm}>
+              <input
+                placeholder={t("player.codePlaceholder")}
+                value={code}
+                onChange={(event) => setCode(event.target.value.toUpperCase())}
+                onKeyDown={(event) => {
+                  if (event.key === "Enter") {
+                    event.preventDefault();
+                    handleFindRoom();
+                  }
+                }}
+              />
+              <button onClick={handleFindRoom}>{t("player.findRoom")}</button>
+            </div>
+            {roster &&
+              (roster.players.length === 0 ? (
+                <div className={styles.emptyState}>{t("player.noPlayers")}</div>
+              ) : (
+                <div className={styles.meetingGrid}>
+                  {roster.players.map((entry) => (
+                    <button
+                      key={entry.id}
+                      className={styles.suspectButton}
+                      onClick={() => handleClaimSeat(entry.id)}
+                      disabled={entry.claimed}
+                    >
+                      <strong>{entry.name}</strong>
+                      <span className={styles.muted}>
+                        {entry.claimed
+                          ? t("player.alreadyJoined")
+                          : t("player.tapToJoin")}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              ))}
+          </>
+        )}
+
+        {seat && !player && (
+          <div className={styles.emptyState}>{t("player.connecting")}</div>
+        )}
+
+        {player && view && (
+          <>
+            <div className={styles.panelHeader}>
+              <div>
+                <h2 className={styles.panelTitle}>{player.name}</h2>
+                <p className={styles.panelDescription}>
+                  {player.cause
+                    ? t(`cause.${player.cause}`)
+                    : t("status.alive")}
+                </p>
+                {player.status === "eliminated" && canWorkTasks && (
+                  <p className={styles.muted}>{t("player.ghostHint")}</p>
+                )}
+              </div>
+              <div className={styles.cardControls}>
+                <button className="secondary" onClick={handleLeaveSeat}>
+                  {t("player.leaveSeat")}
+                </button>
+              </div>
+            </div>
+
+            {!player.role ? (
+              <div className={styles.emptyState}>
+                {t("player.waitingForRoles")}
+              </div>
+            ) : (
+              <div className={styles.revealCard}>
+                {showRole ? (
+                  <div>
+                    <p className={styles.revealRole}>
+                      {t(`role.${player.role}`)}
+                    </p>
+                    <p className={styles.revealHint}>
+                      {t(`roleDescription.${player.role}`)}
+                    </p>
+                  </div>
+                ) : (
+                  <p className={styles.revealHint}>{t("player.revealHint")}</p>
+                )}
+                <div className={styles.cardControls}>
+                  <button onClick={() => setShowRole((prev) => !prev)}>
+                    {showRole ? t("card.hideRole") : t("card.revealRole")}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Impostor objectives give the role away, so they hide with it. */}
+            {showRole && player.tasks.length > 0 && (
+              <div className={styles.taskList}>
+                {player.tasks.map((task) => (
+                  <label className={styles.taskItem} key={task.id}>
+                    <input
+                      type="checkbox"
+                      className={styles.taskAction}
+                      checked={task.completed}
+                      onChange={() => handleToggleTask(task.id)}
+                      disabled={!canWorkTasks}
+                    />
+                    <p
+                      className={cx(
+                        styles.taskName,
+                        task.completed && styles.taskNameCompleted,
+                      )}
+                    >
+                      {task.name}
+                      {task.room && ` · ${t(`room.${task.room}`)}`}
+                    </p>
+                  </label>
+                ))}
+              </div>
+            )}
+
+            <PhaseTimers timers={view.timers} />
+
+            {canWorkTasks && player.status === "alive" && (
+              <SabotagePanel
+                sabotage={view.sabotage}
+                readyAt={view.sabotageReadyAt}
+                // The sabotage buttons would give the role away, so they
+                // only show while the card is revealed.
+                onTrigger={
+                  view.canSabotage && showRole
+                    ? handleTriggerSabotage
+                    : undefined
+                }
+                onFix={handleFixSabotage}
+              />
+            )}
+
+            {/* Like sabotage, the kill list only shows with the card. */}
+            {view.kill && showRole && (
+              <div>
+                <h3 className={styles.panelTitle}>{t("player.killTitle")}</h3>
+                <p className={styles.panelDescription}>
+                  {t("player.killDescription")}
+                  {view.kill.readyAt > 0 &&
+                    ` ${t("sabotagePanel.readyAgain", { time: new Date(view.kill.readyAt).toLocaleTimeString() })}`}
+                </p>
+                <div className={styles.meetingGrid}>
+                  {view.kill.targets.map((target) => (
+                    <button
+                      key={target.id}
+                      className={styles.suspectButton}
+                      onClick={() => handleKill(target.id)}
+                    >
+                      <strong>{target.name}</strong>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {view.shot && showRole && (
+              <div>
+                <h3 className={styles.panelTitle}>{t("player.shotTitle")}</h3>
+                <p className={styles.panelDescription}>
+                  {t("player.shotDescription")}
+                </p>
+                <div className={styles.meetingGrid}>
+                  {view.shot.targets.map((target) => (
+                    <button
+                      key={target.id}
+                      className={styles.suspectButton}
+                      onClick={() => handleShoot(target.id)}
+                    >
+                      <strong>{target.name}</strong>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {view.abilities && showRole && (
+              <AnalystAbilities {...view.abilities} onUse={handleUseAbility} />
+            )}
+
+            {view.approval && showRole && (
+              <div>
+                <h3 className={styles.panelTitle}>
+                  {t("player.approveTitle")}
+                </h3>
+                <p className={styles.panelDescription}>
+                  {t("player.approveDescription")}
+                </p>
+                <div className={styles.meetingGrid}>
+                  {view.approval.targets.map((target) => (
+                    <button
+                      key={target.id}
+                      className={styles.suspectButton}
+                      onClick={() => handleApprove(target.id)}
+                    >
+                      <strong>{target.name}</strong>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {view.ballot && (
+              <div>
+                <h3 className={styles.panelTitle}>{t("player.voteTitle")}</h3>
+                <p className={styles.panelDescription}>
+                  {t("player.voteDescription")}
+                </p>
+                <div className={styles.meetingGrid}>
+                  {[
+                    ...view.ballot.candidates,
+                    { id: SKIP_VOTE, name: t("tally.skip") },
+                  ].map((candidate) => (
+                    <button
+                      key={candidate.id}
+                      className={cx(
+                        styles.suspectButton,
+                        view.ballot?.vote === candidate.id &&
+                          styles.suspectButtonSelected,
+                      )}
+                      onClick={() => handleVote(candidate.id)}
+                    >
+                      <strong>{candidate.name}</strong>
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {view.prompt && (
+              <div className={styles.promptCard}>
+                <p>{view.prompt}</p>
+              </div>
+            )}
+            {view.silentRound && (
+              <p className={styles.revealHint}>{t("prompts.silentRound")}</p>
+            )}
+
+            {view.outcome && (
+              <div className={styles.outcomeCard}>
+                <OutcomeResults outcome={view.outcome} />
+              </div>
+            )}
+          </>
+        )}
+      </section>
+    </main>
+  );
+}
@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+import PlayerConsole from "./PlayerConsole";
+import { getRequestLocale } from "@/lib/i18n/server";
+import { translate } from "@/lib/i18n/translate";
+
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getRequestLocale();
+  return {
+    title: translate(locale, "meta.playTitle"),
+    description: translate(locale, "meta.playDescription"),
+  };
+}
+
+export default async function PlayPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ room?: string | string[] }>;
+}) {
+  const { room } = await searchParams;
+  const initialCode = Array.isArray(room) ? room[0] ?? "" : room ?? "";
+  return <PlayerConsole initialCode={initialCode.toUpperCase()} />;
+}
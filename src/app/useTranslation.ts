@@ -0,0 +1,25 @@
+"use client";
+
+import { useMemo, useSyncExternalStore } from "react";
+import { DEFAULT_LOCALE } from "@/lib/i18n/locales";
+import { readLocale, subscribeToLocale } from "@/lib/i18n/localeStore";
+import { translate, translateMessage } from "@/lib/i18n/translate";
+import type { Message, MessageKey, MessageParams } from "@/lib/i18n/translate";
+
+/** The chosen locale with `t` for catalogue keys and `tm` for stored messages. */
+export const useTranslation = () => {
+  const locale = useSyncExternalStore(
+    subscribeToLocale,
+    readLocale,
+    () => DEFAULT_LOCALE,
+  );
+  return useMemo(
+    () => ({
+      locale,
+      t: (key: MessageKey, params?: MessageParams) =>
+        translate(locale, key, params),
+      tm: (message: Message) => translateMessage(locale, message),
+    }),
+    [locale],
+  );
+};
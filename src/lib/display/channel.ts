@@ -0,0 +1,50 @@
+import type { PublicView } from "./publicView";
+
+// BroadcastChannel only reaches windows of the same browser on the same
+// origin, which is exactly a host laptop driving a projector window.
+const DISPLAY_CHANNEL = "imposter-relay:display";
+
+type DisplayMessage =
+  | { type: "view"; view: PublicView }
+  | { type: "request" };
+
+const openChannel = () =>
+  typeof BroadcastChannel === "undefined"
+    ? null
+    : new BroadcastChannel(DISPLAY_CHANNEL);
+
+/** Host side: publishes each view and answers displays that open later. */
+export const createDisplayPublisher = () => {
+  const channel = openChannel();
+  let latest: PublicView | null = null;
+  const post = (message: DisplayMessage) => channel?.postMessage(message);
+  if (channel) {
+    channel.onmessage = (event: MessageEvent<DisplayMessage>) => {
+      if (event.data.type === "request" && latest) {
+        post({ type: "view", view: latest });
+      }
+    };
+  }
+  return {
+    publish: (view: PublicView) => {
+      latest = view;
+      post({ type: "view", view });
+    },
+    close: () => channel?.close(),
+  };
+};
+
+export type DisplayPublisher = ReturnType<typeof createDisplayPublisher>;
+
+/** Display side: asks for the current view, then follows every update. */
+export const subscribeToDisplay = (onView: (view: PublicView) => void) => {
+  const channel = openChannel();
+  if (!channel) return () => {};
+  channel.onmessage = (event: MessageEvent<DisplayMessage>) => {
+    if (event.data.type === "view") {
+      onView(event.data.view);
+    }
+  };
+  channel.postMessage({ type: "request" } satisfies DisplayMessage);
+  return () => channel.close();
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { computeCrewTaskTotals, isImpostorSide } from "@/lib/game/rules";
+import { play, seatLobby, startMission } from "@/lib/game/testing";
+import { buildPublicView } from "./publicView";
+
+const mission = () =>
+  startMission(
+    play(seatLobby(6), {
+      type: "setRules",
+      rules: { ghostTasks: false },
+    }),
+    "public-view",
+  );
+
+describe("buildPublicView", () => {
+  it("keeps the crew task total steady through kills and ejections", () => {
+    const state = mission();
+    const impostor = state.players.find(isImpostorSide);
+    const [victim, ejected] = state.players.filter(
+      (player) => !isImpostorSide(player),
+    );
+    if (!impostor || !victim || !ejected) throw new Error("Bad deal");
+    const { total } = buildPublicView(state).crewTasks;
+
+    const killed = play(state, {
+      type: "killPlayer",
+      killerId: impostor.id,
+      victimId: victim.id,
+      at: 3_000,
+    });
+    expect(killed.players.find((p) => p.id === victim.id)?.status).toBe(
+      "eliminated",
+    );
+    expect(buildPublicView(killed).crewTasks.total).toBe(total);
+
+    const afterVote = play(
+      killed,
+      { type: "callMeeting", at: 4_000 },
+      ...killed.players
+        .filter((player) => player.status === "alive")
+        .map((player) => ({
+          type: "castVote" as const,
+          voterId: player.id,
+          targetId: ejected.id,
+        })),
+      { type: "closeVoting", at: 5_000 },
+    );
+    expect(afterVote.phase).toBe("mission");
+    expect(buildPublicView(afterVote).crewTasks.total).toBe(total);
+  });
+
+  it("trails the engine's task rule until the round ends", () => {
+    const state = mission();
+    const impostor = state.players.find(isImpostorSide);
+    const victim = state.players.find((player) => !isImpostorSide(player));
+    if (!impostor || !victim) throw new Error("Bad deal");
+    const killed = play(state, {
+      type: "killPlayer",
+      killerId: impostor.id,
+      victimId: victim.id,
+      at: 3_000,
+    });
+    const [last, ...rest] = killed.players
+      .filter((player) => player.status === "alive" && !isImpostorSide(player))
+      .flatMap((player) =>
+        player.tasks.map((task) => ({
+          type: "toggleTask" as const,
+          playerId: player.id,
+          taskId: task.id,
+          at: 4_000,
+        })),
+      );
+    if (!last) throw new Error("No crew tasks were dealt");
+
+    // The victim's tasks no longer count towards the win, but the public bar
+    // keeps them until the round is over.
+    const almost = play(killed, ...rest);
+    const engine = computeCrewTaskTotals(almost.players, almost.rules);
+    expect(buildPublicView(almost).crewTasks.total).toBeGreaterThan(
+      engine.total,
+    );
+
+    const ended = play(almost, last);
+    expect(ended.outcome?.results[0]?.winners).toEqual(["Crewmates"]);
+    expect(buildPublicView(ended).crewTasks).toEqual({
+      ...computeCrewTaskTotals(ended.players, ended.rules),
+      percent: 100,
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import type { GameState } from "@/lib/game/engine";
+import type { Message, MessageKey } from "@/lib/i18n/translate";
+import { findUnreportedKill } from "@/lib/game/kills";
+import { computeCrewTaskTotals } from "@/lib/game/rules";
+import type { SabotageKind } from "@/lib/game/sabotage";
+import type { Timer } from "@/lib/game/timers";
+import type { Outcome, Phase, Player } from "@/lib/game/types";
+import { getVoters } from "@/lib/game/voting";
+
+const PUBLIC_LOG_LENGTH = 8;
+
+/**
+ * What a shared screen may show. Built from an allow-list, so roles, tasks,
+ * hidden log entries and impostor counts never reach it. A body nobody has
+ * reported still shows as alive, and dead players' tasks stay in the total.
+ */
+export type PublicView = {
+  phase: Phase;
+  players: Array<{ id: string; name: string; status: Player["status"] }>;
+  /**
+   * Deliberately not the engine's win rule while the round runs: every dealt
+   * crew task counts, even with ghost tasks off, so the bar can read below the
+   * crew's real progress. Once the round ends it shows the engine's totals.
+   */
+  crewTasks: { completed: number; total: number; percent: number };
+  prompt: string | null;
+  silentRound: boolean;
+  timers: Timer[];
+  sabotage: {
+    kind: SabotageKind;
+    fixes: Array<{ id: string; name: MessageKey; fixed: boolean }>;
+  } | null;
+  meeting: { ballotsCast: number; voters: number; runoff: string[] } | null;
+  outcome: Outcome;
+  recentEvents: Array<{ seq: number; at: number; message: Message }>;
+};
+
+export const buildPublicView = (state: GameState): PublicView => {
+  // Without ghost play a death would otherwise shrink the total before anyone
+  // found the body, and an ejection would show whether the ejected player was
+  // crew.
+  const totals = computeCrewTaskTotals(
+    state.players,
+    state.phase === "ended"
+      ? state.rules
+      : { ...state.rules, ghostTasks: true },
+  );
+  const voters = getVoters(state.players);
+  const { meeting, sabotage } = state;
+  return {
+    phase: state.phase,
+    players: state.players.map(({ id, name, status }) => ({
+      id,
+      name,
+      status: findUnreportedKill(state.kills, id) ? "alive" : status,
+    })),
+    crewTasks: {
+      ...totals,
+      percent:
+        totals.total === 0
+          ? 0
+          : Math.round((totals.completed / totals.total) * 100),
+    },
+    prompt: state.prompt,
+    silentRound: state.silentRound,
+    timers: state.timers,
+    sabotage: sabotage && {
+      kind: sabotage.kind,
+      fixes: sabotage.fixes.map(({ id, name, fixed }) => ({ id, name, fixed })),
+    },
+    meeting:
+      state.phase === "meeting" && meeting
+        ? {
+            ballotsCast: voters.filter((voter) => meeting.ballots[voter.id])
+              .length,
+            voters: voters.length,
+            runoff: (meeting.runoff ?? []).map(
+              (id) =>
+                state.players.find((player) => player.id === id)?.name ?? id,
+            ),
+          }
+        : null,
+    outcome: state.outcome,
+    recentEvents: state.missionLog
+      .filter((event) => !event.hidden)
+      .slice(-PUBLIC_LOG_LENGTH)
+      .reverse()
+      .map(({ seq, at, message }) => ({ seq, at, message })),
+  };
+};
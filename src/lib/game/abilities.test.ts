@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { msg } from "@/lib/i18n/translate";
+import { RECENT_TASK_SECONDS, runAbility } from "./abilities";
+import { appendLogEvent } from "./log";
+import type { LogEvent } from "./log";
+import { makePlayer } from "./testing";
+import type { TaskKind } from "./types";
+
+const players = [
+  makePlayer("analyst", "Analyst"),
+  makePlayer("crew", "Crewmate"),
+  makePlayer("impostor", "Impostor"),
+];
+
+const completeTask = (
+  log: LogEvent[],
+  actorId: string,
+  kind: TaskKind,
+  at: number,
+) =>
+  appendLogEvent(log, {
+    at,
+    type: "task",
+    actorId,
+    message: msg("log.taskCompleted", { name: actorId, task: kind }),
+    payload: { taskId: `${actorId}-${at}`, kind, completed: true },
+    hidden: kind !== "crew",
+  });
+
+const recentTasks = (missionLog: LogEvent[]) =>
+  runAbility("recentTasks", "analyst", null, {
+    players,
+    voteHistory: [],
+    missionLog,
+    at: 60_000,
+  });
+
+describe("recentTasks", () => {
+  it("counts a crewmate's completed crew tasks", () => {
+    const log = completeTask([], "crew", "crew", 30_000);
+    expect(recentTasks(log)).toEqual([
+      msg("ability.recentTasksResult", {
+        seconds: RECENT_TASK_SECONDS,
+        players: [msg("ability.taskCount", { name: "crew", count: 1 })],
+      }),
+    ]);
+  });
+
+  it("ignores hidden impostor objectives", () => {
+    const crewOnly = completeTask([], "crew", "crew", 30_000);
+    const withObjective = completeTask(
+      crewOnly,
+      "impostor",
+      "impostor",
+      40_000,
+    );
+    expect(recentTasks(withObjective)).toEqual(recentTasks(crewOnly));
+    expect(
+      recentTasks(completeTask([], "impostor", "impostor", 40_000)),
+    ).toEqual([msg("ability.noRecentTasks", { seconds: RECENT_TASK_SECONDS })]);
+  });
+});
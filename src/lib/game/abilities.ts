@@ -0,0 +1,158 @@
+import { isMessage, msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import {
+  isArrayOf,
+  isNullable,
+  isNumber,
+  isOneOf,
+  isRecord,
+  isString,
+} from "./guards";
+import type { LogEvent } from "./log";
+import { getAlignment } from "./roles";
+import type { Player, VoteRecord } from "./types";
+import { SKIP_VOTE } from "./voting";
+
+export const ANALYST_ABILITIES = [
+  "scan",
+  "voteHistory",
+  "recentTasks",
+] as const;
+export type AnalystAbility = (typeof ANALYST_ABILITIES)[number];
+
+/** Most uses of each ability per round, however many charges are banked. */
+export const ABILITY_ROUND_LIMITS: Record<AnalystAbility, number> = {
+  scan: 2,
+  voteHistory: 1,
+  recentTasks: 2,
+};
+
+/** Every use costs a charge; each completed support task banks another. */
+export const STARTING_CHARGES = 1;
+
+/** How far back a recent-tasks check looks. */
+export const RECENT_TASK_SECONDS = 90;
+
+/** One use and its result, which only the Analyst who ran it gets to see. */
+export type AbilityUse = {
+  playerId: string;
+  ability: AnalystAbility;
+  targetId: string | null;
+  at: number;
+  result: Message[];
+};
+
+export const hasAbilities = (player: Player) =>
+  player.role === "Analyst" && player.status === "alive";
+
+export const getAbilityCharges = (
+  player: Player,
+  uses: readonly AbilityUse[],
+) => {
+  const earned = player.tasks.filter(
+    (task) => task.kind === "support" && task.completed,
+  ).length;
+  const spent = uses.filter((use) => use.playerId === player.id).length;
+  return Math.max(STARTING_CHARGES + earned - spent, 0);
+};
+
+export const getRemainingUses = (
+  playerId: string,
+  uses: readonly AbilityUse[],
+): Record<AnalystAbility, number> => {
+  const remaining = { ...ABILITY_ROUND_LIMITS };
+  for (const use of uses) {
+    if (use.playerId === playerId) {
+      remaining[use.ability] = Math.max(remaining[use.ability] - 1, 0);
+    }
+  }
+  return remaining;
+};
+
+export type AbilityContext = {
+  players: readonly Player[];
+  voteHistory: readonly VoteRecord[];
+  missionLog: readonly LogEvent[];
+  at: number;
+};
+
+const nameOf = (players: readonly Player[], id: string) =>
+  players.find((player) => player.id === id)?.name ?? id;
+
+/** The ability's findings, or null when a scan names no valid target. */
+export const runAbility = (
+  ability: AnalystAbility,
+  analystId: string,
+  targetId: string | null,
+  { players, voteHistory, missionLog, at }: AbilityContext,
+): Message[] | null => {
+  switch (ability) {
+    case "scan": {
+      const target = players.find((player) => player.id === targetId);
+      if (!target || target.id === analystId) return null;
+      return [
+        msg("ability.scanResult", {
+          name: target.name,
+          alignment: msg(`alignment.${getAlignment(target)}`),
+        }),
+      ];
+    }
+
+    case "voteHistory":
+      if (!voteHistory.length) return [msg("ability.noVotes")];
+      return voteHistory.map((vote, index) =>
+        msg(vote.runoff ? "ability.runoffBallots" : "ability.voteBallots", {
+          number: index + 1,
+          ballots: Object.entries(vote.ballots).map(([voterId, choice]) =>
+            msg("ability.ballot", {
+              voter: nameOf(players, voterId),
+              choice:
+                choice === SKIP_VOTE
+                  ? msg("tally.skip")
+                  : nameOf(players, choice),
+            }),
+          ),
+        }),
+      );
+
+    case "recentTasks": {
+      const since = at - RECENT_TASK_SECONDS * 1000;
+      const counts = new Map<string, number>();
+      for (const event of missionLog) {
+        // Only public crew tasks: anything else would out an impostor or neutral.
+        if (
+          event.type === "task" &&
+          event.payload.kind === "crew" &&
+          !event.hidden &&
+          event.payload.completed === true &&
+          event.at >= since &&
+          event.actorId
+        ) {
+          counts.set(event.actorId, (counts.get(event.actorId) ?? 0) + 1);
+        }
+      }
+      if (!counts.size) {
+        return [msg("ability.noRecentTasks", { seconds: RECENT_TASK_SECONDS })];
+      }
+      return [
+        msg("ability.recentTasksResult", {
+          seconds: RECENT_TASK_SECONDS,
+          players: [...counts].map(([playerId, count]) =>
+            msg("ability.taskCount", {
+              name: nameOf(players, playerId),
+              count,
+            }),
+          ),
+        }),
+      ];
+    }
+  }
+};
+
+export const isAbilityUse = (value: unknown): value is AbilityUse =>
+  isRecord(value) &&
+  isString(value.playerId) &&
+  isOneOf(ANALYST_ABILITIES)(value.ability) &&
+  isNullable(isString)(value.targetId) &&
+  isNumber(value.at) &&
+  isArrayOf(isMessage)(value.result);
@@ -0,0 +1,12 @@
+import type { Player } from "./types";
+
+/** A few digits: enough to keep a neighbour from peeking, easy to remember. */
+export const PIN_PATTERN = /^\d{4,6}$/;
+
+/** How long a private card check stays on screen before it hides itself. */
+export const CARD_CHECK_SECONDS = 15;
+
+export const isValidPin = (pin: string) => PIN_PATTERN.test(pin);
+
+export const matchesPin = (player: Pick<Player, "pin">, pin: string) =>
+  player.pin !== null && player.pin === pin.trim();
@@ -0,0 +1,178 @@
+import type { Locale } from "@/lib/i18n/locales";
+import type { DeckSection } from "./decks";
+import type { RoomId } from "./map";
+import type { PromptEffect } from "./prompts";
+
+export const CREW_TASK_BANK = [
+  "Calibrate hydroponics valves",
+  "Align telescope array and report spectra",
+  "Prime navigation thrusters",
+  "Divert power to security grid",
+  "Reset reactor coolant equilibrator",
+  "Refuel the landing shuttle",
+  "Run diagnostics on med-scanner",
+  "Patch hull microfractures",
+  "Reboot comms uplink",
+  "Secure cargo bay manifests",
+  "Sweep ventilation ducts",
+  "Sync shipboard chronometer",
+] as const;
+
+export const IMPOSTOR_OBJECTIVES = [
+  "Sabotage oxygen recyclers unnoticed",
+  "Stage a false security alert",
+  "Shadow the analyst and gain trust",
+  "Plant decoy clues in electrical",
+  "Force a strategic split-up",
+  "Fake a task completion convincingly",
+  "Trigger lights out mid-mission",
+  "Frame a crewmate near a vent",
+] as const;
+
+export const SUPPORT_ROUTINES = [
+  "Scan the field deck for anomalies",
+  "Verify DNA tags for the crew",
+  "Audit task completion logs",
+  "Run probability matrix on accusations",
+  "Coordinate safe routes between zones",
+  "Ping silent players for status",
+  "Check security feeds for patterns",
+] as const;
+
+export const JESTER_ANTICS = [
+  "Loiter near a vent until someone notices",
+  "Contradict your own alibi once",
+  "Accuse the most trusted player without evidence",
+  "Claim a task you never started",
+  "Volunteer to be searched, then refuse",
+] as const;
+
+export const PROMPT_DECK = [
+  "Flash mission: everyone share their location in under 5 seconds.",
+  "Quiet round: complete a task without saying a word.",
+  "Mini-challenge: swap a task card with the player on your left.",
+  "Truth pull: each player states who they trust the most this round.",
+  "Speed check: complete any task within 30 seconds or call a meeting.",
+  "Silent signal: analysts can secretly approve one crewmate this cycle.",
+  "Saboteur stunt: impostors must orchestrate a distraction in 2 minutes.",
+  "Paranoia push: vote to lock a room for the next minute.",
+] as const;
+
+/**
+ * The room of each standard entry, by position, so translated banks share
+ * them. Entries past the end, or null, can be done anywhere.
+ */
+export const BANK_ROOMS: Partial<
+  Record<DeckSection, readonly (RoomId | null)[]>
+> = {
+  crew: [
+    "oxygen",
+    "navigation",
+    "navigation",
+    "electrical",
+    "reactor",
+    "cargo",
+    "medbay",
+    "cargo",
+    "comms",
+    "cargo",
+    "oxygen",
+    "comms",
+  ],
+  impostor: [
+    "oxygen",
+    "security",
+    null,
+    "electrical",
+    null,
+    null,
+    "electrical",
+    null,
+  ],
+  support: [
+    "security",
+    "medbay",
+    "comms",
+    null,
+    "navigation",
+    "comms",
+    "security",
+  ],
+};
+
+/** The effect of each standard prompt card, by position like the rooms. */
+export const BANK_EFFECTS: Partial<
+  Record<DeckSection, readonly (PromptEffect | null)[]>
+> = {
+  prompts: [
+    null,
+    "silentRound",
+    "swapTasks",
+    null,
+    "forcedMeeting",
+    "analystApproval",
+    null,
+    "lockRoom",
+  ],
+};
+
+/**
+ * Translated standard banks. A locale may leave sections out, and the standard
+ * pack falls back to the English bank for those.
+ */
+export const LOCALIZED_BANKS: Partial<
+  Record<Locale, Partial<Record<DeckSection, readonly string[]>>>
+> = {
+  es: {
+    crew: [
+      "Calibrar las válvulas de hidroponía",
+      "Alinear el telescopio e informar los espectros",
+      "Cebar los propulsores de navegación",
+      "Desviar energía a la red de seguridad",
+      "Reiniciar el equilibrador del refrigerante del reactor",
+      "Repostar la lanzadera de aterrizaje",
+      "Diagnosticar el escáner médico",
+      "Sellar las microfisuras del casco",
+      "Reiniciar el enlace de comunicaciones",
+      "Asegurar los manifiestos de la bodega",
+      "Barrer los conductos de ventilación",
+      "Sincronizar el cronómetro de a bordo",
+    ],
+    impostor: [
+      "Sabotear los recicladores de oxígeno sin ser visto",
+      "Provocar una falsa alerta de seguridad",
+      "Seguir al analista y ganarte su confianza",
+      "Dejar pistas falsas en electricidad",
+      "Forzar que el grupo se separe",
+      "Fingir que completas una tarea de forma convincente",
+      "Apagar las luces en plena misión",
+      "Incriminar a un tripulante junto a una rejilla",
+    ],
+    support: [
+      "Escanear el puente en busca de anomalías",
+      "Verificar las marcas de ADN de la tripulación",
+      "Auditar los registros de tareas",
+      "Calcular probabilidades sobre las acusaciones",
+      "Coordinar rutas seguras entre zonas",
+      "Preguntar por su estado a los jugadores callados",
+      "Revisar las cámaras en busca de patrones",
+    ],
+    neutral: [
+      "Merodear junto a una rejilla hasta que alguien lo note",
+      "Contradecir tu propia coartada una vez",
+      "Acusar sin pruebas al jugador más fiable",
+      "Atribuirte una tarea que nunca empezaste",
+      "Ofrecerte a ser registrado y luego negarte",
+    ],
+    prompts: [
+      "Misión relámpago: todos dicen dónde están en menos de 5 segundos.",
+      "Ronda silenciosa: completa una tarea sin decir una palabra.",
+      "Minirreto: intercambia una tarjeta de tarea con el jugador de tu izquierda.",
+      "Verdad obligada: cada jugador dice en quién confía más esta ronda.",
+      "Control de velocidad: completa una tarea en 30 segundos o convoca una reunión.",
+      "Señal silenciosa: los analistas pueden aprobar en secreto a un tripulante en este ciclo.",
+      "Truco del saboteador: los impostores deben montar una distracción en 2 minutos.",
+      "Empujón paranoico: votad para cerrar una sala durante el próximo minuto.",
+    ],
+  },
+};
@@ -0,0 +1,32 @@
+import { isDeckPack } from "./decks";
+import type { DeckPack } from "./decks";
+import { isArrayOf } from "./guards";
+import { createStoredValue } from "./storedValue";
+
+const DECK_LIBRARY_KEY = "imposter-relay:decks";
+
+export const EMPTY_DECK_LIBRARY: DeckPack[] = [];
+
+const deckLibrary = createStoredValue(
+  DECK_LIBRARY_KEY,
+  isArrayOf(isDeckPack),
+  EMPTY_DECK_LIBRARY,
+);
+
+export const subscribeToDeckLibrary = deckLibrary.subscribe;
+
+/** Packs saved in this browser. */
+export const readDeckLibrary = deckLibrary.read;
+
+/** Saves a pack under its name, replacing any pack already using that name. */
+export const saveDeckPack = (pack: DeckPack) => {
+  const name = pack.name.trim();
+  deckLibrary.write([
+    ...readDeckLibrary().filter((entry) => entry.name !== name),
+    { ...pack, name },
+  ]);
+};
+
+export const deleteDeckPack = (name: string) => {
+  deckLibrary.write(readDeckLibrary().filter((entry) => entry.name !== name));
+};
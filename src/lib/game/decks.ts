@@ -0,0 +1,177 @@
+import type { Locale } from "@/lib/i18n/locales";
+import { msg, translate } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import {
+  BANK_EFFECTS,
+  BANK_ROOMS,
+  CREW_TASK_BANK,
+  IMPOSTOR_OBJECTIVES,
+  JESTER_ANTICS,
+  LOCALIZED_BANKS,
+  PROMPT_DECK,
+  SUPPORT_ROUTINES,
+} from "./content";
+import { isArrayOf, isNumber, isOneOf, isRecord, isString } from "./guards";
+import { ROOMS } from "./map";
+import type { RoomId } from "./map";
+import { PROMPT_EFFECTS } from "./prompts";
+import type { PromptEffect } from "./prompts";
+import { ROLE_CATALOGUE } from "./roles";
+import { ROLES, TASK_KINDS } from "./types";
+import type { Role } from "./types";
+
+export const DECK_SECTIONS = [...TASK_KINDS, "prompts"] as const;
+export type DeckSection = (typeof DECK_SECTIONS)[number];
+
+export const DECK_FILE_FORMAT = "imposter-relay-deck";
+export const DECK_FILE_VERSION = 1;
+export const MAX_ENTRY_LENGTH = 160;
+export const MAX_TASKS_PER_ROLE = 8;
+
+export type DeckEntry = {
+  id: string;
+  text: string;
+  tags: string[];
+  /** Where a task is done; packs saved before the ship map leave it out. */
+  room?: RoomId;
+  /** What a prompt card does when the host confirms it. */
+  effect?: PromptEffect;
+};
+
+export type DeckPack = {
+  name: string;
+  sections: Record<DeckSection, DeckEntry[]>;
+  taskCounts: Record<Role, number>;
+};
+
+export type DeckParseResult =
+  | { ok: true; pack: DeckPack }
+  | { ok: false; error: Message };
+
+const toEntries = (
+  section: DeckSection,
+  items: readonly string[],
+): DeckEntry[] =>
+  items.map((text, index) => ({
+    id: `builtin-${section}-${index}`,
+    text,
+    tags: [],
+    room: BANK_ROOMS[section]?.[index] ?? undefined,
+    effect: BANK_EFFECTS[section]?.[index] ?? undefined,
+  }));
+
+export const DEFAULT_DECK_PACK: DeckPack = {
+  name: "Standard Issue",
+  sections: {
+    crew: toEntries("crew", CREW_TASK_BANK),
+    impostor: toEntries("impostor", IMPOSTOR_OBJECTIVES),
+    support: toEntries("support", SUPPORT_ROUTINES),
+    neutral: toEntries("neutral", JESTER_ANTICS),
+    prompts: toEntries("prompts", PROMPT_DECK),
+  },
+  taskCounts: Object.fromEntries(
+    ROLES.map((role) => [role, ROLE_CATALOGUE[role].tasks.count]),
+  ) as Record<Role, number>,
+};
+
+/** The standard pack in a locale, keeping English for untranslated sections. */
+export const getStandardDeckPack = (locale: Locale): DeckPack => {
+  const banks = LOCALIZED_BANKS[locale] ?? {};
+  return {
+    ...DEFAULT_DECK_PACK,
+    name: translate(locale, "deck.standardName"),
+    sections: Object.fromEntries(
+      DECK_SECTIONS.map((section) => {
+        const bank = banks[section];
+        return [
+          section,
+          bank ? toEntries(section, bank) : DEFAULT_DECK_PACK.sections[section],
+        ];
+      }),
+    ) as Record<DeckSection, DeckEntry[]>,
+  };
+};
+
+export const normalizeTags = (raw: string) => [
+  ...new Set(
+    raw
+      .split(",")
+      .map((tag) => tag.trim().toLowerCase())
+      .filter(Boolean),
+  ),
+];
+
+export const validateEntryText = (text: string): Message | null => {
+  const trimmed = text.trim();
+  if (!trimmed) return msg("error.entryEmpty");
+  if (trimmed.length > MAX_ENTRY_LENGTH) {
+    return msg("error.entryTooLong", { count: MAX_ENTRY_LENGTH });
+  }
+  return null;
+};
+
+const isDeckEntry = (value: unknown): value is DeckEntry =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.text) &&
+  validateEntryText(value.text) === null &&
+  isArrayOf(isString)(value.tags) &&
+  (value.room === undefined || isOneOf(ROOMS)(value.room)) &&
+  (value.effect === undefined || isOneOf(PROMPT_EFFECTS)(value.effect));
+
+const isTaskCount = (value: unknown): value is number =>
+  isNumber(value) &&
+  Number.isInteger(value) &&
+  value >= 0 &&
+  value <= MAX_TASKS_PER_ROLE;
+
+export const isDeckPack = (value: unknown): value is DeckPack =>
+  isRecord(value) &&
+  isString(value.name) &&
+  value.name.trim().length > 0 &&
+  isRecord(value.sections) &&
+  DECK_SECTIONS.every((section) =>
+    isArrayOf(isDeckEntry)(
+      (value.sections as Record<string, unknown>)[section],
+    ),
+  ) &&
+  isRecord(value.taskCounts) &&
+  ROLES.every((role) =>
+    isTaskCount((value.taskCounts as Record<string, unknown>)[role]),
+  );
+
+export const serializeDeckPack = (pack: DeckPack) =>
+  JSON.stringify(
+    { format: DECK_FILE_FORMAT, version: DECK_FILE_VERSION, pack },
+    null,
+    2,
+  );
+
+/** Validates an imported deck file and explains the first problem found. */
+export const parseDeckFile = (raw: string): DeckParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: msg("error.deckFileJson") };
+  }
+  if (!isRecord(parsed) || parsed.format !== DECK_FILE_FORMAT) {
+    return { ok: false, error: msg("error.deckFileFormat") };
+  }
+  if (parsed.version !== DECK_FILE_VERSION) {
+    return {
+      ok: false,
+      error: msg("error.deckFileVersion", { version: DECK_FILE_VERSION }),
+    };
+  }
+  if (!isDeckPack(parsed.pack)) {
+    return {
+      ok: false,
+      error: msg("error.deckFileInvalid", { count: MAX_TASKS_PER_ROLE }),
+    };
+  }
+  if (!parsed.pack.sections.prompts.length) {
+    return { ok: false, error: msg("error.deckFilePrompts") };
+  }
+  return { ok: true, pack: parsed.pack };
+};
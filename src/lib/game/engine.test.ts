@@ -0,0 +1,373 @@
+import { describe, expect, it } from "vitest";
+import { gameReducer, initialGameState } from "./engine";
+import type { GameState } from "./engine";
+import { play, seatLobby, startMission } from "./testing";
+import { findTimer } from "./timers";
+import type { TimerKind } from "./timers";
+import type { Player } from "./types";
+
+const dealt = () =>
+  play(seatLobby(5), { type: "startRound", at: 1_000, seed: "phase-tests" });
+
+const mission = () => startMission(seatLobby(5), "phase-tests");
+
+const meeting = () => play(mission(), { type: "callMeeting", at: 3_000 });
+
+const voteOut = (state: GameState, targetId: string, at: number) =>
+  play(
+    state,
+    ...state.players
+      .filter((player) => player.status === "alive")
+      .map((player) => ({
+        type: "castVote" as const,
+        voterId: player.id,
+        targetId,
+      })),
+    { type: "closeVoting", at },
+  );
+
+// Expires one timer the moment it runs out, as the host screen would.
+const runOut = (state: GameState, kind: TimerKind) => {
+  const timer = findTimer(state.timers, kind);
+  if (!timer) throw new Error(`No ${kind} timer is running`);
+  return play(state, { type: "expireTimers", at: timer.endsAt });
+};
+
+const isImpostor = (player: Player) => player.role === "Impostor";
+
+const findImpostor = (state: GameState) => {
+  const impostor = state.players.find(isImpostor);
+  if (!impostor) throw new Error("No impostor was dealt");
+  return impostor;
+};
+
+const findCrew = (state: GameState) =>
+  state.players.filter((player) => !isImpostor(player));
+
+describe("phase transitions", () => {
+  it("deals roles and moves from lobby to reveal", () => {
+    const state = dealt();
+    expect(state.phase).toBe("reveal");
+    expect(state.error).toBeNull();
+    expect(state.players.filter(isImpostor)).toHaveLength(1);
+    expect(state.players.every((player) => player.tasks.length > 0)).toBe(true);
+  });
+
+  it("refuses to deal a lobby below the minimum player count", () => {
+    const state = play(seatLobby(2), {
+      type: "startRound",
+      at: 1_000,
+      seed: "phase-tests",
+    });
+    expect(state.phase).toBe("lobby");
+    expect(state.error).not.toBeNull();
+  });
+
+  it("moves from reveal to mission once every card is seen", () => {
+    let state = dealt();
+    for (let card = 0; card < state.players.length; card += 1) {
+      expect(state.phase).toBe("reveal");
+      state = gameReducer(state, { type: "nextCard", at: 1_500 });
+    }
+    expect(state.phase).toBe("mission");
+    expect(state.players.every((player) => player.cardSeen)).toBe(true);
+  });
+
+  it("moves from mission to meeting and back when the vote is skipped", () => {
+    const state = meeting();
+    expect(state.phase).toBe("meeting");
+    expect(state.meeting).not.toBeNull();
+    const skipped = play(state, { type: "skipVote", at: 4_000 });
+    expect(skipped.phase).toBe("mission");
+    expect(skipped.meeting).toBeNull();
+  });
+
+  it("ends the round when the last impostor is ejected", () => {
+    const state = meeting();
+    const ended = voteOut(state, findImpostor(state).id, 4_000);
+    expect(ended.phase).toBe("ended");
+    expect(ended.outcome?.results[0]?.winners).toEqual(["Crewmates"]);
+  });
+
+  it("returns to the mission when a crewmate is ejected", () => {
+    const state = meeting();
+    const [crewmate] = findCrew(state);
+    const next = voteOut(state, crewmate.id, 4_000);
+    expect(next.phase).toBe("mission");
+    expect(
+      next.players.find((player) => player.id === crewmate.id)?.cause,
+    ).toBe("ejected");
+  });
+
+  it("ends the mission when the impostors reach parity", () => {
+    const state = mission();
+    // Five players, one impostor: three losses leave one crewmate standing.
+    const ended = play(
+      state,
+      ...findCrew(state)
+        .slice(0, 3)
+        .map((player) => ({
+          type: "eliminatePlayer" as const,
+          playerId: player.id,
+          at: 5_000,
+        })),
+    );
+    expect(ended.phase).toBe("ended");
+    expect(ended.outcome?.results[0]?.winners).toEqual(["Impostors"]);
+  });
+
+  it("ends the mission when the crew finishes every task", () => {
+    const state = mission();
+    const ended = play(
+      state,
+      ...findCrew(state).flatMap((player) =>
+        player.tasks.map((task) => ({
+          type: "toggleTask" as const,
+          playerId: player.id,
+          taskId: task.id,
+          at: 5_000,
+        })),
+      ),
+    );
+    expect(ended.phase).toBe("ended");
+    expect(ended.outcome?.results[0]?.winners).toEqual(["Crewmates"]);
+  });
+
+  it("returns from ended to the lobby with the roster kept", () => {
+    const state = meeting();
+    const ended = voteOut(state, findImpostor(state).id, 4_000);
+    const next = play(ended, { type: "resetRound" });
+    expect(next.phase).toBe("lobby");
+    expect(next.outcome).toBeNull();
+    expect(next.players.map((player) => player.id)).toEqual(
+      ended.players.map((player) => player.id),
+    );
+    expect(
+      next.players.every(
+        (player) => player.role === "Crewmate" && !player.tasks.length,
+      ),
+    ).toBe(true);
+  });
+
+  it("clears the roster when the lobby is reset", () => {
+    const state = play(mission(), { type: "resetLobby" });
+    expect(state.phase).toBe("lobby");
+    expect(state.players).toEqual([]);
+  });
+
+  it("ignores actions that belong to another phase", () => {
+    const inLobby = seatLobby(5);
+    expect(gameReducer(inLobby, { type: "nextCard", at: 1 })).toBe(inLobby);
+    expect(gameReducer(inLobby, { type: "callMeeting", at: 1 })).toBe(inLobby);
+
+    const inReveal = dealt();
+    expect(gameReducer(inReveal, { type: "callMeeting", at: 1 })).toBe(
+      inReveal,
+    );
+
+    const inMission = mission();
+    // Nobody can be voted out or ejected outside a meeting.
+    expect(
+      gameReducer(inMission, {
+        type: "castVote",
+        voterId: "p1",
+        targetId: "p1",
+      }),
+    ).toBe(inMission);
+    expect(gameReducer(inMission, { type: "closeVoting", at: 1 })).toBe(
+      inMission,
+    );
+    expect(
+      gameReducer(inMission, { type: "startRound", at: 1, seed: "" }),
+    ).toBe(inMission);
+
+    const inMeeting = meeting();
+    expect(gameReducer(inMeeting, { type: "callMeeting", at: 1 })).toBe(
+      inMeeting,
+    );
+    expect(
+      gameReducer(inMeeting, {
+        type: "eliminatePlayer",
+        playerId: "p1",
+        at: 1,
+      }),
+    ).toBe(inMeeting);
+  });
+
+  it("keeps an ended round closed", () => {
+    const state = meeting();
+    const ended = voteOut(state, findImpostor(state).id, 4_000);
+    expect(gameReducer(ended, { type: "callMeeting", at: 5_000 })).toBe(ended);
+    expect(gameReducer(ended, { type: "skipReveal", at: 5_000 })).toBe(ended);
+    expect(
+      gameReducer(ended, { type: "startRound", at: 5_000, seed: "" }),
+    ).toBe(ended);
+  });
+});
+
+describe("timer-driven transitions", () => {
+  it("returns to the mission when the voting clock runs out", () => {
+    const voting = runOut(meeting(), "discussion");
+    expect(voting.phase).toBe("meeting");
+    expect(findTimer(voting.timers, "voting")).not.toBeNull();
+
+    const resumed = runOut(voting, "voting");
+    expect(resumed.phase).toBe("mission");
+    expect(resumed.meeting).toBeNull();
+    expect(resumed.missionLog.at(-1)?.message.key).toBe("log.votingExpired");
+  });
+
+  it("ends the round for the impostors when the mission clock runs out", () => {
+    const state = play(
+      seatLobby(5),
+      { type: "setTimerSettings", settings: { missionMinutes: 1 } },
+      { type: "startRound", at: 1_000, seed: "phase-tests" },
+      { type: "skipReveal", at: 2_000 },
+    );
+    expect(state.phase).toBe("mission");
+
+    const ended = runOut(state, "mission");
+    expect(ended.phase).toBe("ended");
+    expect(ended.outcome?.results[0]?.winners).toEqual(["Impostors"]);
+  });
+});
+
+describe("role abilities", () => {
+  const withRoles = () => {
+    const state = startMission(
+      play(
+        seatLobby(7),
+        { type: "toggleRole", role: "Sheriff" },
+        { type: "toggleRole", role: "Engineer" },
+        { type: "setImpostorCount", count: 2 },
+      ),
+      "role-abilities",
+    );
+    const byRole = (role: Player["role"]) => {
+      const found = state.players.find((player) => player.role === role);
+      if (!found) throw new Error(`No ${role} was dealt`);
+      return found;
+    };
+    return {
+      state,
+      sheriff: byRole("Sheriff"),
+      engineer: byRole("Engineer"),
+      impostor: byRole("Impostor"),
+      crewmate: byRole("Crewmate"),
+    };
+  };
+
+  const statusOf = (state: GameState, playerId: string) =>
+    state.players.find((player) => player.id === playerId);
+
+  it("lets the Sheriff's shot eliminate an impostor", () => {
+    const { state, sheriff, impostor } = withRoles();
+    const next = play(state, {
+      type: "sheriffShot",
+      sheriffId: sheriff.id,
+      targetId: impostor.id,
+      at: 3_000,
+    });
+    expect(next.error).toBeNull();
+    expect(statusOf(next, impostor.id)).toMatchObject({
+      status: "eliminated",
+      cause: "sheriff",
+    });
+    expect(statusOf(next, sheriff.id)?.status).toBe("alive");
+  });
+
+  it("costs the Sheriff their life when the shot misfires", () => {
+    const { state, sheriff, crewmate } = withRoles();
+    const next = play(state, {
+      type: "sheriffShot",
+      sheriffId: sheriff.id,
+      targetId: crewmate.id,
+      at: 3_000,
+    });
+    expect(statusOf(next, crewmate.id)?.status).toBe("alive");
+    expect(statusOf(next, sheriff.id)).toMatchObject({
+      status: "eliminated",
+      cause: "sheriff",
+    });
+  });
+
+  it("allows one Sheriff shot per round", () => {
+    const { state, sheriff } = withRoles();
+    const [first, second] = state.players.filter(isImpostor);
+    const fired = play(state, {
+      type: "sheriffShot",
+      sheriffId: sheriff.id,
+      targetId: first.id,
+      at: 3_000,
+    });
+    const again = play(fired, {
+      type: "sheriffShot",
+      sheriffId: sheriff.id,
+      targetId: second.id,
+      at: 4_000,
+    });
+    expect(again.error?.key).toBe("error.sheriffSpent");
+    expect(again.players).toBe(fired.players);
+    expect(statusOf(again, second.id)?.status).toBe("alive");
+  });
+
+  it("lets only a living Sheriff shoot", () => {
+    const { state, crewmate, impostor } = withRoles();
+    const next = play(state, {
+      type: "sheriffShot",
+      sheriffId: crewmate.id,
+      targetId: impostor.id,
+      at: 3_000,
+    });
+    expect(next.error?.key).toBe("error.sheriffInvalid");
+    expect(next.players).toBe(state.players);
+  });
+
+  it("lets one Engineer fix repair a whole sabotage", () => {
+    const { state, engineer, crewmate } = withRoles();
+    const sabotaged = play(state, {
+      type: "triggerSabotage",
+      kind: "reactor",
+      playerId: null,
+      at: 3_000,
+    });
+    const [fix] = sabotaged.sabotage?.fixes ?? [];
+    if (!fix) throw new Error("The reactor has no fixes");
+
+    const byCrewmate = play(sabotaged, {
+      type: "fixSabotage",
+      fixId: fix.id,
+      playerId: crewmate.id,
+      at: 4_000,
+    });
+    expect(byCrewmate.sabotage).not.toBeNull();
+
+    const byEngineer = play(sabotaged, {
+      type: "fixSabotage",
+      fixId: fix.id,
+      playerId: engineer.id,
+      at: 4_000,
+    });
+    expect(byEngineer.sabotage).toBeNull();
+  });
+});
+
+describe("removePlayer", () => {
+  it("keeps the host's settings when the last player leaves", () => {
+    const configured = play(
+      initialGameState,
+      { type: "applyPreset", presetId: "speed" },
+      { type: "setDeckName", name: "House Rules" },
+      { type: "setTieRule", tieRule: "random" },
+      { type: "addPlayer", id: "p1", name: "Solo" },
+    );
+    const empty = play(configured, { type: "removePlayer", playerId: "p1" });
+    expect(empty.players).toEqual([]);
+    expect(empty.deck).toBe(configured.deck);
+    expect(empty.rules).toBe(configured.rules);
+    expect(empty.presetId).toBe("speed");
+    expect(empty.tieRule).toBe("random");
+    expect(empty.enabledRoles).toBe(configured.enabledRoles);
+    expect(empty.timerSettings).toBe(configured.timerSettings);
+  });
+});
@@ -0,0 +1,1892 @@
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import {
+  getAbilityCharges,
+  getRemainingUses,
+  hasAbilities,
+  runAbility,
+} from "./abilities";
+import type { AbilityUse, AnalystAbility } from "./abilities";
+import { isValidPin, matchesPin } from "./cardCheck";
+import {
+  DEFAULT_DECK_PACK,
+  MAX_TASKS_PER_ROLE,
+  isDeckPack,
+  validateEntryText,
+} from "./decks";
+import type { DeckEntry, DeckPack, DeckSection } from "./decks";
+import { findUnreportedKill, getKillReadyAt, revealBodies } from "./kills";
+import type { Kill } from "./kills";
+import { appendLogEvent } from "./log";
+import type { LogEvent, LogEventInput } from "./log";
+import { ROOM_LOCK_SECONDS, findRoomLock } from "./map";
+import type { RoomId, RoomLock } from "./map";
+import {
+  CLASSIC_RULES,
+  GAME_PRESETS,
+  ROLE_MIN_PLAYERS_LIMITS,
+  RULE_LIMITS,
+} from "./presets";
+import type { PresetId, RuleCount, RuleSet } from "./presets";
+import { swapAdjacentTasks } from "./prompts";
+import type { PromptEffect } from "./prompts";
+import { captureFrame } from "./replay";
+import type { ReplayFrame } from "./replay";
+import {
+  canWorkTasks,
+  clamp,
+  getMaxImpostors,
+  isImpostorSide,
+  getRandomItems,
+  validatePlayerName,
+} from "./rules";
+import { createRng, seedToState } from "./random";
+import {
+  DEFAULT_ENABLED_ROLES,
+  FILLER_ROLE,
+  ROLE_CATALOGUE,
+  planRoleCounts,
+} from "./roles";
+import {
+  SABOTAGE_CATALOGUE,
+  SABOTAGE_COOLDOWN_SECONDS,
+  createSabotage,
+  isSabotageFixed,
+} from "./sabotage";
+import type { ActiveSabotage, SabotageKind } from "./sabotage";
+import {
+  DEFAULT_TIMER_SETTINGS,
+  TIMER_SETTING_LIMITS,
+  findTimer,
+  formatCountdown,
+  getExpiredTimers,
+  getRemainingMs,
+  parsePromptSeconds,
+  startTimer,
+  stopTimers,
+  togglePause,
+} from "./timers";
+import type { Timer, TimerKind, TimerSettings } from "./timers";
+import type {
+  Ejection,
+  MeetingState,
+  Outcome,
+  OutcomeResult,
+  Phase,
+  Player,
+  Random,
+  Role,
+  TableResults,
+  Task,
+  TaskKind,
+  TieRule,
+  VoteRecord,
+} from "./types";
+import {
+  SKIP_VOTE,
+  describeTally,
+  isValidBallot,
+  tallyBallots,
+} from "./voting";
+import { evaluateOutcome } from "./winConditions";
+import type { OutcomeContext } from "./winConditions";
+
+export type GameState = {
+  players: Player[];
+  phase: Phase;
+  impostorCount: number;
+  tieRule: TieRule;
+  enabledRoles: Role[];
+  rules: RuleSet;
+  /** The preset the rules came from, or null once the host has changed them. */
+  presetId: PresetId | null;
+  deck: DeckPack;
+  timerSettings: TimerSettings;
+  seed: string | null;
+  roundStartedAt: number | null;
+  rngState: number;
+  activeCardIndex: number;
+  missionLog: LogEvent[];
+  prompt: string | null;
+  /** The drawn card's effect, waiting for the host to run or dismiss it. */
+  pendingEffect: PromptEffect | null;
+  promptsDrawn: number;
+  /** Set by a silent-round card until the next meeting opens. */
+  silentRound: boolean;
+  /** Analysts who may still secretly approve one player. */
+  approvalTokens: string[];
+  meeting: MeetingState | null;
+  ejections: Ejection[];
+  kills: Kill[];
+  /** Sheriffs who have already taken their shot this round. */
+  sheriffShots: string[];
+  /** Rooms a prompt card has locked; expired locks are simply ignored. */
+  roomLocks: RoomLock[];
+  /** Every closed vote this round, ballots included. */
+  voteHistory: VoteRecord[];
+  abilityUses: AbilityUse[];
+  /** One frame per step of the dealt round, for the replay viewer. */
+  replay: ReplayFrame[];
+  timers: Timer[];
+  sabotage: ActiveSabotage | null;
+  /** Sabotages stay on cooldown until this time. */
+  sabotageReadyAt: number;
+  outcome: Outcome;
+  error: Message | null;
+};
+
+export type GameAction =
+  | { type: "addPlayer"; id: string; name: string }
+  | { type: "removePlayer"; playerId: string }
+  | { type: "setImpostorCount"; count: number }
+  | { type: "setTieRule"; tieRule: TieRule }
+  | { type: "toggleRole"; role: Role }
+  | { type: "applyPreset"; presetId: PresetId }
+  | { type: "setRules"; rules: Partial<RuleSet> }
+  | {
+      type: "addDeckEntry";
+      section: DeckSection;
+      id: string;
+      text: string;
+      tags: string[];
+      room: RoomId | null;
+      effect: PromptEffect | null;
+    }
+  | { type: "removeDeckEntry"; section: DeckSection; entryId: string }
+  | {
+      type: "tagDeckEntry";
+      section: DeckSection;
+      entryId: string;
+      tags: string[];
+    }
+  | {
+      type: "setDeckEntryRoom";
+      section: DeckSection;
+      entryId: string;
+      room: RoomId | null;
+    }
+  | {
+      type: "setDeckEntryEffect";
+      section: DeckSection;
+      entryId: string;
+      effect: PromptEffect | null;
+    }
+  | { type: "setDeckName"; name: string }
+  | { type: "setTaskCount"; role: Role; count: number }
+  | { type: "loadDeck"; deck: DeckPack }
+  | { type: "setTimerSettings"; settings: Partial<TimerSettings> }
+  | { type: "resetLobby" }
+  | { type: "startRound"; at: number; seed: string }
+  | { type: "nextCard"; at: number }
+  | { type: "skipReveal"; at: number }
+  | { type: "setPin"; playerId: string; pin: string }
+  | { type: "checkCard"; playerId: string; pin: string; at: number }
+  | { type: "toggleTask"; playerId: string; taskId: string; at: number }
+  | { type: "setLocation"; playerId: string; room: RoomId | null }
+  | { type: "lockRoom"; room: RoomId; at: number }
+  | { type: "killPlayer"; killerId: string; victimId: string; at: number }
+  | { type: "reportBody"; reporterId: string; victimId: string; at: number }
+  | { type: "sheriffShot"; sheriffId: string; targetId: string; at: number }
+  | {
+      type: "useAbility";
+      playerId: string;
+      ability: AnalystAbility;
+      targetId: string | null;
+      at: number;
+    }
+  | { type: "eliminatePlayer"; playerId: string; at: number }
+  | { type: "revivePlayer"; playerId: string; at: number }
+  | { type: "callMeeting"; at: number }
+  | { type: "castVote"; voterId: string; targetId: string | null }
+  | { type: "closeVoting"; at: number }
+  | { type: "skipVote"; at: number }
+  | { type: "drawPrompt"; at: number }
+  | { type: "runPromptEffect"; at: number }
+  | { type: "dismissPromptEffect"; at: number }
+  | { type: "approvePlayer"; analystId: string; targetId: string; at: number }
+  | { type: "toggleTimer"; kind: TimerKind; at: number }
+  | {
+      type: "triggerSabotage";
+      kind: SabotageKind;
+      playerId: string | null;
+      at: number;
+    }
+  | { type: "fixSabotage"; fixId: string; playerId: string | null; at: number }
+  | { type: "expireTimers"; at: number }
+  | { type: "declareDraw"; at: number }
+  | { type: "enterResults"; results: TableResults; at: number }
+  | { type: "resetRound" }
+  | { type: "replaceState"; state: GameState };
+
+export const initialGameState: GameState = {
+  players: [],
+  phase: "lobby",
+  impostorCount: 1,
+  tieRule: "noEjection",
+  enabledRoles: DEFAULT_ENABLED_ROLES,
+  rules: CLASSIC_RULES,
+  presetId: "classic",
+  deck: DEFAULT_DECK_PACK,
+  timerSettings: DEFAULT_TIMER_SETTINGS,
+  seed: null,
+  roundStartedAt: null,
+  rngState: 0,
+  activeCardIndex: 0,
+  missionLog: [],
+  prompt: null,
+  pendingEffect: null,
+  promptsDrawn: 0,
+  silentRound: false,
+  approvalTokens: [],
+  meeting: null,
+  ejections: [],
+  kills: [],
+  sheriffShots: [],
+  roomLocks: [],
+  voteHistory: [],
+  abilityUses: [],
+  replay: [],
+  timers: [],
+  sabotage: null,
+  sabotageReadyAt: 0,
+  outcome: null,
+  error: null,
+};
+
+const logEvent = (state: GameState, input: LogEventInput): GameState => ({
+  ...state,
+  missionLog: appendLogEvent(state.missionLog, input),
+});
+
+const isRoundLive = (state: GameState) =>
+  state.phase === "mission" || state.phase === "meeting";
+
+const lockOutcome = (
+  state: GameState,
+  at: number,
+  results: OutcomeResult[],
+): GameState =>
+  results.reduce<GameState>(
+    (locked, result) =>
+      logEvent(locked, {
+        at,
+        type: "outcome",
+        message: result.winners.length
+          ? msg("log.outcome", {
+              team: result.winners.map((winner) => msg(`team.${winner}`)),
+              reason: result.reason,
+            })
+          : msg("log.draw", { reason: result.reason }),
+        payload: {
+          condition: result.conditionId,
+          winners: result.winners.join(","),
+        },
+      }),
+    {
+      ...state,
+      phase: "ended",
+      outcome: { at, results },
+      meeting: null,
+      timers: [],
+      sabotage: null,
+    },
+  );
+
+/**
+ * Runs the win conditions after anything that could decide the round. A
+ * decided round moves straight to `ended`; nothing can reopen it short of a
+ * reset.
+ */
+const settleOutcome = (
+  state: GameState,
+  at: number,
+  context: OutcomeContext = {},
+): GameState => {
+  if (!isRoundLive(state)) return state;
+  const results = evaluateOutcome({
+    ...context,
+    players: state.players,
+    rules: state.rules,
+  });
+  if (!results.length) return state;
+  return lockOutcome(state, at, results);
+};
+
+const MEETING_TIMERS: TimerKind[] = ["discussion", "voting"];
+
+/** Starts (or restarts) a timer; a zero duration clears it instead. */
+const runTimer = (
+  state: GameState,
+  kind: TimerKind,
+  at: number,
+  seconds: number,
+): GameState => {
+  if (seconds <= 0) {
+    return { ...state, timers: stopTimers(state.timers, [kind]) };
+  }
+  return logEvent(
+    { ...state, timers: startTimer(state.timers, kind, at, seconds * 1000) },
+    {
+      at,
+      type: "timer",
+      message: msg("log.timerStarted", {
+        timer: msg(`timer.${kind}`),
+        time: formatCountdown(seconds * 1000),
+      }),
+      payload: { kind, seconds },
+    },
+  );
+};
+
+const buildTask = (
+  playerId: string,
+  entry: DeckEntry,
+  kind: TaskKind,
+  index: number,
+): Task => ({
+  id: `${playerId}-${kind}-${index}`,
+  name: entry.text,
+  kind,
+  room: entry.room ?? null,
+  completed: false,
+});
+
+type RolePlan = ReturnType<typeof planRoleCounts>;
+
+const assignRoles = (
+  players: Player[],
+  plan: RolePlan,
+  deck: DeckPack,
+  random: Random,
+): Player[] => {
+  const shuffledIds = getRandomItems(
+    players.map((player) => player.id),
+    players.length,
+    random,
+  );
+  const dealt = new Map<string, Role>();
+  let cursor = 0;
+  plan.forEach(({ role, count }) => {
+    shuffledIds.slice(cursor, cursor + count).forEach((id) => {
+      dealt.set(id, role);
+    });
+    cursor += count;
+  });
+
+  return players.map((player) => {
+    const role = dealt.get(player.id) ?? FILLER_ROLE;
+    const { kind } = ROLE_CATALOGUE[role].tasks;
+    const tasks = getRandomItems(
+      deck.sections[kind],
+      deck.taskCounts[role],
+      random,
+    ).map((entry, index) => buildTask(player.id, entry, kind, index));
+    return {
+      ...player,
+      role,
+      tasks,
+      status: "alive" as const,
+      cause: null,
+      cardSeen: false,
+      pin: null,
+      location: null,
+    };
+  });
+};
+
+/** Names the first dealt role whose deck section cannot cover its task count. */
+const findShortBank = (plan: RolePlan, deck: DeckPack): Message | null => {
+  const dealtRoles = [FILLER_ROLE, ...plan.map(({ role }) => role)];
+  const short = dealtRoles.find(
+    (role) =>
+      deck.sections[ROLE_CATALOGUE[role].tasks.kind].length <
+      deck.taskCounts[role],
+  );
+  if (!short) return null;
+  return msg("error.shortBank", {
+    role: msg(`role.${short}`),
+    needed: deck.taskCounts[short],
+    deck: deck.name,
+    available: deck.sections[ROLE_CATALOGUE[short].tasks.kind].length,
+  });
+};
+
+const updateDeckSection = (
+  state: GameState,
+  section: DeckSection,
+  update: (entries: DeckEntry[]) => DeckEntry[],
+): GameState => ({
+  ...state,
+  deck: {
+    ...state.deck,
+    sections: {
+      ...state.deck.sections,
+      [section]: update(state.deck.sections[section]),
+    },
+  },
+});
+
+const clearRound = (players: Player[]): Player[] =>
+  players.map((player) => ({
+    ...player,
+    role: "Crewmate",
+    tasks: [],
+    status: "alive",
+    cause: null,
+    cardSeen: false,
+    pin: null,
+    location: null,
+  }));
+
+/** A fresh round on the same roster, keeping the host's settings and deck. */
+const resetToLobby = (state: GameState, players: Player[]): GameState => ({
+  ...initialGameState,
+  players: clearRound(players),
+  impostorCount: state.impostorCount,
+  tieRule: state.tieRule,
+  enabledRoles: state.enabledRoles,
+  rules: state.rules,
+  presetId: state.presetId,
+  deck: state.deck,
+  timerSettings: state.timerSettings,
+});
+
+const endMeeting = (
+  state: GameState,
+  targetId: string | null,
+  at: number,
+  entry: Message,
+): GameState => {
+  const base = {
+    ...state,
+    phase: "mission" as const,
+    meeting: null,
+    timers: stopTimers(state.timers, MEETING_TIMERS),
+  };
+  const ejected = state.players.find((player) => player.id === targetId);
+  if (!ejected) {
+    return logEvent(base, {
+      at,
+      type: "ejection",
+      message: msg("log.nobodyEjected", { reason: entry }),
+    });
+  }
+  const players = state.players.map((player) =>
+    player.id === ejected.id
+      ? { ...player, status: "eliminated" as const, cause: "ejected" as const }
+      : player,
+  );
+  const ballots = state.meeting?.ballots ?? {};
+  const voterIds = Object.keys(ballots).filter(
+    (voterId) => ballots[voterId] === ejected.id,
+  );
+  const ejections = [...state.ejections, { playerId: ejected.id, voterIds }];
+  return settleOutcome(
+    logEvent(
+      { ...base, players, ejections },
+      {
+        at,
+        type: "ejection",
+        targetId: ejected.id,
+        message: msg("log.playerEjected", {
+          reason: entry,
+          name: ejected.name,
+        }),
+        payload: { votes: voterIds.length },
+      },
+    ),
+    at,
+    { ejectedId: ejected.id },
+  );
+};
+
+const skipMeeting = (
+  state: GameState,
+  at: number,
+  message: Message,
+): GameState =>
+  logEvent(
+    {
+      ...state,
+      phase: "mission",
+      meeting: null,
+      timers: stopTimers(state.timers, MEETING_TIMERS),
+    },
+    { at, type: "meeting", message },
+  );
+
+/** Opens a meeting; any body nobody reported yet is found by everyone. */
+const openMeeting = (
+  state: GameState,
+  at: number,
+  input: Omit<LogEventInput, "at" | "type">,
+): GameState => {
+  const called = logEvent(
+    {
+      ...state,
+      phase: "meeting",
+      meeting: { ballots: {}, runoff: null },
+      kills: revealBodies(state.kills, at),
+      silentRound: false,
+      error: null,
+    },
+    { ...input, at, type: "meeting" },
+  );
+  const { discussionSeconds, votingSeconds } = state.timerSettings;
+  return discussionSeconds > 0
+    ? runTimer(called, "discussion", at, discussionSeconds)
+    : runTimer(called, "voting", at, votingSeconds);
+};
+
+const meetingBlocker = (state: GameState) =>
+  state.sabotage && SABOTAGE_CATALOGUE[state.sabotage.kind].blocksMeetings
+    ? msg("error.meetingBlocked", {
+        sabotage: msg(`sabotage.${state.sabotage.kind}`),
+      })
+    : null;
+
+/** Carries out a confirmed prompt effect and logs what it did. */
+const runPromptEffect = (
+  state: GameState,
+  effect: Exclude<PromptEffect, "lockRoom">,
+  at: number,
+): GameState => {
+  switch (effect) {
+    case "swapTasks": {
+      // The public log never says how many players held tasks to pass.
+      const { players } = swapAdjacentTasks(state.players);
+      return logEvent(
+        { ...state, players },
+        {
+          at,
+          type: "prompt",
+          message: msg("log.effectSwap"),
+          payload: { effect },
+        },
+      );
+    }
+
+    case "silentRound":
+      return logEvent(
+        { ...state, silentRound: true },
+        {
+          at,
+          type: "prompt",
+          message: msg("log.effectSilent"),
+          payload: { effect },
+        },
+      );
+
+    case "analystApproval": {
+      const approvalTokens = state.players
+        .filter((player) => player.role === "Analyst")
+        .filter((player) => player.status === "alive")
+        .map((player) => player.id);
+      return logEvent(
+        { ...state, approvalTokens },
+        {
+          at,
+          type: "prompt",
+          message: msg("log.effectApproval"),
+          payload: { effect },
+        },
+      );
+    }
+
+    case "forcedMeeting": {
+      const blocker = meetingBlocker(state);
+      // Keep the card waiting so the host can run it once the lights are on.
+      if (blocker) return { ...state, pendingEffect: effect, error: blocker };
+      return openMeeting(state, at, {
+        message: msg("log.effectMeeting"),
+        payload: { effect },
+      });
+    }
+  }
+};
+
+const startMission = (
+  state: GameState,
+  players: Player[],
+  at: number,
+  entry: Message,
+): GameState =>
+  settleOutcome(
+    runTimer(
+      logEvent(
+        { ...state, players, phase: "mission" },
+        { at, type: "round", message: entry },
+      ),
+      "mission",
+      at,
+      state.timerSettings.missionMinutes * 60,
+    ),
+    at,
+  );
+
+const expireTimer = (
+  state: GameState,
+  kind: TimerKind,
+  at: number,
+): GameState => {
+  const { timerSettings } = state;
+  const expired = logEvent(
+    { ...state, timers: stopTimers(state.timers, [kind]) },
+    {
+      at,
+      type: "timer",
+      message: msg("log.timerRanOut", { timer: msg(`timer.${kind}`) }),
+      payload: { kind },
+    },
+  );
+  switch (kind) {
+    case "discussion":
+      return runTimer(expired, "voting", at, timerSettings.votingSeconds);
+    case "voting":
+      return skipMeeting(expired, at, msg("log.votingExpired"));
+    case "mission":
+      return settleOutcome(expired, at, { missionClockExpired: true });
+    case "sabotage":
+      return state.sabotage
+        ? settleOutcome(expired, at, { meltdown: state.sabotage.kind })
+        : expired;
+    default:
+      return expired;
+  }
+};
+
+/**
+ * The reducer without replay frames, for bot rounds nobody will watch back.
+ * Everything else goes through gameReducer.
+ */
+export function applyAction(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case "addPlayer": {
+      if (state.phase !== "lobby") return state;
+      const nameError = validatePlayerName(state.players, action.name);
+      if (nameError) {
+        return { ...state, error: nameError };
+      }
+      if (state.players.length >= state.rules.maxPlayers) {
+        return {
+          ...state,
+          error: msg("error.maxPlayers", { count: state.rules.maxPlayers }),
+        };
+      }
+      const newPlayer: Player = {
+        id: action.id,
+        name: action.name.trim(),
+        role: "Crewmate",
+        tasks: [],
+        status: "alive",
+        cause: null,
+        cardSeen: false,
+        pin: null,
+        location: null,
+      };
+      return { ...state, players: [...state.players, newPlayer], error: null };
+    }
+
+    case "removePlayer": {
+      if (state.phase !== "lobby") return state;
+      const players = state.players.filter(
+        (player) => player.id !== action.playerId,
+      );
+      const impostorCount = Math.min(
+        state.impostorCount,
+        getMaxImpostors(players.length, state.rules),
+      );
+      if (!players.length) {
+        return { ...resetToLobby(state, players), error: state.error };
+      }
+      return { ...state, players, impostorCount };
+    }
+
+    case "setImpostorCount": {
+      if (state.phase !== "lobby") return state;
+      return {
+        ...state,
+        impostorCount: clamp(
+          action.count,
+          1,
+          getMaxImpostors(state.players.length, state.rules),
+        ),
+      };
+    }
+
+    case "setTieRule": {
+      if (state.phase !== "lobby") return state;
+      return { ...state, tieRule: action.tieRule };
+    }
+
+    case "toggleRole": {
+      if (state.phase !== "lobby" || !ROLE_CATALOGUE[action.role].optional) {
+        return state;
+      }
+      const enabledRoles = state.enabledRoles.includes(action.role)
+        ? state.enabledRoles.filter((role) => role !== action.role)
+        : [...state.enabledRoles, action.role];
+      return { ...state, enabledRoles, presetId: null };
+    }
+
+    case "applyPreset": {
+      if (state.phase !== "lobby") return state;
+      const preset = GAME_PRESETS[action.presetId];
+      return {
+        ...state,
+        rules: preset.rules,
+        presetId: action.presetId,
+        enabledRoles: preset.enabledRoles,
+        deck: { ...state.deck, taskCounts: preset.taskCounts },
+        impostorCount: clamp(
+          state.impostorCount,
+          1,
+          getMaxImpostors(state.players.length, preset.rules),
+        ),
+        error: null,
+      };
+    }
+
+    case "setRules": {
+      if (state.phase !== "lobby") return state;
+      const rules = { ...state.rules, ...action.rules };
+      (Object.keys(RULE_LIMITS) as RuleCount[]).forEach((key) => {
+        rules[key] = clamp(
+          Math.round(rules[key]),
+          RULE_LIMITS[key].min,
+          RULE_LIMITS[key].max,
+        );
+      });
+      rules.maxPlayers = Math.max(rules.maxPlayers, rules.minPlayers);
+      rules.roleMinPlayers = Object.fromEntries(
+        Object.entries({
+          ...state.rules.roleMinPlayers,
+          ...action.rules.roleMinPlayers,
+        }).map(([role, count]) => [
+          role,
+          clamp(
+            Math.round(count ?? 0),
+            ROLE_MIN_PLAYERS_LIMITS.min,
+            ROLE_MIN_PLAYERS_LIMITS.max,
+          ),
+        ]),
+      );
+      return {
+        ...state,
+        rules,
+        presetId: null,
+        impostorCount: clamp(
+          state.impostorCount,
+          1,
+          getMaxImpostors(state.players.length, rules),
+        ),
+      };
+    }
+
+    case "addDeckEntry": {
+      if (state.phase !== "lobby") return state;
+      const entryError = validateEntryText(action.text);
+      if (entryError) {
+        return { ...state, error: entryError };
+      }
+      return updateDeckSection(
+        { ...state, error: null },
+        action.section,
+        (entries) => [
+          ...entries,
+          {
+            id: action.id,
+            text: action.text.trim(),
+            tags: action.tags,
+            room: action.room ?? undefined,
+            effect: action.effect ?? undefined,
+          },
+        ],
+      );
+    }
+
+    case "removeDeckEntry": {
+      if (state.phase !== "lobby") return state;
+      return updateDeckSection(state, action.section, (entries) =>
+        entries.filter((entry) => entry.id !== action.entryId),
+      );
+    }
+
+    case "tagDeckEntry": {
+      if (state.phase !== "lobby") return state;
+      return updateDeckSection(state, action.section, (entries) =>
+        entries.map((entry) =>
+          entry.id === action.entryId ? { ...entry, tags: action.tags } : entry,
+        ),
+      );
+    }
+
+    case "setDeckEntryRoom": {
+      if (state.phase !== "lobby") return state;
+      return updateDeckSection(state, action.section, (entries) =>
+        entries.map((entry) =>
+          entry.id === action.entryId
+            ? { ...entry, room: action.room ?? undefined }
+            : entry,
+        ),
+      );
+    }
+
+    case "setDeckEntryEffect": {
+      if (state.phase !== "lobby") return state;
+      return updateDeckSection(state, action.section, (entries) =>
+        entries.map((entry) =>
+          entry.id === action.entryId
+            ? { ...entry, effect: action.effect ?? undefined }
+            : entry,
+        ),
+      );
+    }
+
+    case "setDeckName": {
+      if (state.phase !== "lobby") return state;
+      return { ...state, deck: { ...state.deck, name: action.name } };
+    }
+
+    case "setTaskCount": {
+      if (state.phase !== "lobby") return state;
+      return {
+        ...state,
+        deck: {
+          ...state.deck,
+          taskCounts: {
+            ...state.deck.taskCounts,
+            [action.role]: clamp(action.count, 0, MAX_TASKS_PER_ROLE),
+          },
+        },
+        presetId: null,
+      };
+    }
+
+    case "loadDeck": {
+      if (state.phase !== "lobby") return state;
+      if (!isDeckPack(action.deck)) {
+        return { ...state, error: msg("error.invalidDeck") };
+      }
+      // A pack brings its own task counts, so the preset no longer applies.
+      return { ...state, deck: action.deck, presetId: null, error: null };
+    }
+
+    case "setTimerSettings": {
+      if (state.phase !== "lobby") return state;
+      const timerSettings = { ...state.timerSettings };
+      (Object.keys(action.settings) as Array<keyof TimerSettings>).forEach(
+        (key) => {
+          timerSettings[key] = clamp(
+            Math.round(action.settings[key] ?? 0),
+            0,
+            TIMER_SETTING_LIMITS[key],
+          );
+        },
+      );
+      return { ...state, timerSettings };
+    }
+
+    case "resetLobby":
+      return initialGameState;
+
+    case "startRound": {
+      if (state.phase !== "lobby") return state;
+      const { rules } = state;
+      if (state.players.length < rules.minPlayers) {
+        return {
+          ...state,
+          error: msg("error.minPlayers", { count: rules.minPlayers }),
+        };
+      }
+      if (state.players.length > rules.maxPlayers) {
+        return {
+          ...state,
+          error: msg("error.tooManyPlayers", { count: rules.maxPlayers }),
+        };
+      }
+      const impostorTarget = clamp(
+        state.impostorCount,
+        1,
+        getMaxImpostors(state.players.length, rules),
+      );
+      if (!state.deck.name.trim()) {
+        return { ...state, error: msg("error.deckName") };
+      }
+      const plan = planRoleCounts(
+        state.players.length,
+        impostorTarget,
+        state.enabledRoles,
+        rules,
+      );
+      const shortBank = findShortBank(plan, state.deck);
+      if (shortBank) {
+        return { ...state, error: shortBank };
+      }
+      const seed = action.seed.trim();
+      const rng = createRng(seedToState(seed));
+      const players = assignRoles(state.players, plan, state.deck, rng.next);
+      return {
+        ...state,
+        players,
+        phase: "reveal",
+        impostorCount: impostorTarget,
+        seed,
+        roundStartedAt: action.at,
+        rngState: rng.getState(),
+        activeCardIndex: 0,
+        ejections: [],
+        kills: [],
+        sheriffShots: [],
+        roomLocks: [],
+        voteHistory: [],
+        abilityUses: [],
+        replay: [],
+        timers: [],
+        sabotage: null,
+        sabotageReadyAt: 0,
+        outcome: null,
+        prompt: null,
+        pendingEffect: null,
+        promptsDrawn: 0,
+        silentRound: false,
+        approvalTokens: [],
+        error: null,
+        missionLog: appendLogEvent([], {
+          at: action.at,
+          type: "round",
+          message: msg("log.roundArmed", { count: impostorTarget }),
+          payload: { seed, impostors: impostorTarget },
+        }),
+      };
+    }
+
+    case "nextCard": {
+      if (state.phase !== "reveal") return state;
+      const current = state.players[state.activeCardIndex];
+      if (!current) return state;
+      const players = state.players.map((player) =>
+        player.id === current.id ? { ...player, cardSeen: true } : player,
+      );
+      if (state.activeCardIndex + 1 >= players.length) {
+        return startMission(
+          state,
+          players,
+          action.at,
+          msg("log.allCardsViewed"),
+        );
+      }
+      return {
+        ...state,
+        players,
+        activeCardIndex: state.activeCardIndex + 1,
+      };
+    }
+
+    case "skipReveal": {
+      if (state.phase !== "reveal") return state;
+      const players = state.players.map((player) =>
+        player.cardSeen ? player : { ...player, cardSeen: true },
+      );
+      return startMission(state, players, action.at, msg("log.revealSkipped"));
+    }
+
+    case "setPin": {
+      if (state.phase !== "reveal") return state;
+      const pin = action.pin.trim();
+      if (!isValidPin(pin)) {
+        return { ...state, error: msg("error.pinFormat") };
+      }
+      const players = state.players.map((player) =>
+        player.id === action.playerId ? { ...player, pin } : player,
+      );
+      return { ...state, players, error: null };
+    }
+
+    case "checkCard": {
+      if (state.phase !== "mission") return state;
+      const player = state.players.find(
+        (entry) => entry.id === action.playerId,
+      );
+      if (!player) return state;
+      if (player.pin === null) {
+        return { ...state, error: msg("error.noPin", { name: player.name }) };
+      }
+      if (!matchesPin(player, action.pin)) {
+        return { ...state, error: msg("error.wrongPin") };
+      }
+      // The entry only says that a check happened, never what was on the card.
+      return logEvent(
+        { ...state, error: null },
+        {
+          at: action.at,
+          type: "card",
+          actorId: player.id,
+          message: msg("log.cardChecked", { name: player.name }),
+        },
+      );
+    }
+
+    case "toggleTask": {
+      if (state.phase !== "mission") return state;
+      const targetPlayer = state.players.find(
+        (player) => player.id === action.playerId,
+      );
+      if (!targetPlayer || !canWorkTasks(targetPlayer, state.rules)) {
+        return state;
+      }
+      const targetTask = targetPlayer.tasks.find(
+        (task) => task.id === action.taskId,
+      );
+      if (!targetTask) return state;
+      const completed = !targetTask.completed;
+      const lock = completed
+        ? findRoomLock(state.roomLocks, targetTask.room, action.at)
+        : undefined;
+      if (lock) {
+        return {
+          ...state,
+          error: msg("error.roomLocked", {
+            room: msg(`room.${lock.room}`),
+            time: formatCountdown(lock.endsAt - action.at),
+          }),
+        };
+      }
+      const players = state.players.map((player) => {
+        if (player.id !== action.playerId) return player;
+        return {
+          ...player,
+          tasks: player.tasks.map((task) =>
+            task.id === action.taskId ? { ...task, completed } : task,
+          ),
+        };
+      });
+      return settleOutcome(
+        logEvent(
+          { ...state, players },
+          {
+            at: action.at,
+            type: "task",
+            actorId: targetPlayer.id,
+            message: msg(completed ? "log.taskCompleted" : "log.taskReopened", {
+              name: targetPlayer.name,
+              task: targetTask.name,
+            }),
+            payload: {
+              taskId: targetTask.id,
+              kind: targetTask.kind,
+              completed,
+            },
+            // Anything but a crew task gives away the player's role.
+            hidden: targetTask.kind !== "crew",
+          },
+        ),
+        action.at,
+      );
+    }
+
+    case "setLocation": {
+      if (state.phase !== "mission") return state;
+      return {
+        ...state,
+        players: state.players.map((player) =>
+          player.id === action.playerId
+            ? { ...player, location: action.room }
+            : player,
+        ),
+      };
+    }
+
+    case "lockRoom": {
+      if (state.phase !== "mission") return state;
+      if (state.pendingEffect !== "lockRoom") {
+        return { ...state, error: msg("error.lockPrompt") };
+      }
+      if (state.roomLocks.some((lock) => lock.endsAt > action.at)) {
+        return { ...state, error: msg("error.lockActive") };
+      }
+      const seconds =
+        parsePromptSeconds(state.prompt ?? "") ?? ROOM_LOCK_SECONDS;
+      return logEvent(
+        {
+          ...state,
+          roomLocks: [
+            { room: action.room, endsAt: action.at + seconds * 1000 },
+          ],
+          pendingEffect: null,
+          error: null,
+        },
+        {
+          at: action.at,
+          type: "prompt",
+          message: msg("log.roomLocked", {
+            room: msg(`room.${action.room}`),
+            seconds,
+          }),
+          payload: { room: action.room, seconds },
+        },
+      );
+    }
+
+    case "killPlayer": {
+      if (state.phase !== "mission") return state;
+      const killer = state.players.find(
+        (player) => player.id === action.killerId,
+      );
+      const victim = state.players.find(
+        (player) => player.id === action.victimId,
+      );
+      if (!killer || killer.status !== "alive" || !isImpostorSide(killer)) {
+        return {
+          ...state,
+          error: msg("error.killerInvalid"),
+        };
+      }
+      if (
+        !victim ||
+        victim.id === killer.id ||
+        victim.status !== "alive" ||
+        isImpostorSide(victim)
+      ) {
+        return {
+          ...state,
+          error: msg("error.victimInvalid"),
+        };
+      }
+      const readyAt = getKillReadyAt(state.kills, killer.id);
+      if (action.at < readyAt) {
+        return {
+          ...state,
+          error: msg("error.killCooldown", {
+            name: killer.name,
+            seconds: Math.ceil((readyAt - action.at) / 1000),
+          }),
+        };
+      }
+      const players = state.players.map((player) =>
+        player.id === victim.id
+          ? {
+              ...player,
+              status: "eliminated" as const,
+              cause: "killed" as const,
+            }
+          : player,
+      );
+      const kill: Kill = {
+        killerId: killer.id,
+        victimId: victim.id,
+        at: action.at,
+        reportedAt: null,
+        reportedBy: null,
+      };
+      return settleOutcome(
+        logEvent(
+          { ...state, players, kills: [...state.kills, kill], error: null },
+          {
+            at: action.at,
+            type: "kill",
+            actorId: killer.id,
+            targetId: victim.id,
+            message: msg("log.kill", {
+              killer: killer.name,
+              victim: victim.name,
+            }),
+            // Only a report or a meeting should tell the table about a kill.
+            hidden: true,
+          },
+        ),
+        action.at,
+      );
+    }
+
+    case "sheriffShot": {
+      if (state.phase !== "mission") return state;
+      const sheriff = state.players.find(
+        (player) => player.id === action.sheriffId,
+      );
+      const target = state.players.find(
+        (player) => player.id === action.targetId,
+      );
+      if (
+        !sheriff ||
+        sheriff.status !== "alive" ||
+        sheriff.role !== "Sheriff"
+      ) {
+        return { ...state, error: msg("error.sheriffInvalid") };
+      }
+      if (state.sheriffShots.includes(sheriff.id)) {
+        return {
+          ...state,
+          error: msg("error.sheriffSpent", { name: sheriff.name }),
+        };
+      }
+      if (!target || target.id === sheriff.id || target.status !== "alive") {
+        return { ...state, error: msg("error.shotTargetInvalid") };
+      }
+      // A shot at anyone but an impostor takes the Sheriff out instead.
+      const hit = isImpostorSide(target);
+      const eliminatedId = hit ? target.id : sheriff.id;
+      const players = state.players.map((player) =>
+        player.id === eliminatedId
+          ? {
+              ...player,
+              status: "eliminated" as const,
+              cause: "sheriff" as const,
+            }
+          : player,
+      );
+      return settleOutcome(
+        logEvent(
+          {
+            ...state,
+            players,
+            sheriffShots: [...state.sheriffShots, sheriff.id],
+            error: null,
+          },
+          {
+            at: action.at,
+            type: "status",
+            actorId: sheriff.id,
+            targetId: target.id,
+            message: msg(hit ? "log.sheriffHit" : "log.sheriffMisfire", {
+              sheriff: sheriff.name,
+              name: target.name,
+            }),
+            payload: { status: "eliminated", cause: "sheriff", hit },
+          },
+        ),
+        action.at,
+      );
+    }
+
+    case "reportBody": {
+      if (state.phase !== "mission") return state;
+      const reporter = state.players.find(
+        (player) => player.id === action.reporterId,
+      );
+      const victim = state.players.find(
+        (player) => player.id === action.victimId,
+      );
+      const kill = findUnreportedKill(state.kills, action.victimId);
+      if (!reporter || reporter.status !== "alive") {
+        return {
+          ...state,
+          error: msg("error.reporterInvalid"),
+        };
+      }
+      if (!victim || victim.status !== "eliminated" || !kill) {
+        return { ...state, error: msg("error.noBody") };
+      }
+      const blocker = meetingBlocker(state);
+      if (blocker) {
+        return { ...state, error: blocker };
+      }
+      return openMeeting(
+        {
+          ...state,
+          kills: state.kills.map((entry) =>
+            entry === kill
+              ? { ...entry, reportedAt: action.at, reportedBy: reporter.id }
+              : entry,
+          ),
+        },
+        action.at,
+        {
+          actorId: reporter.id,
+          targetId: victim.id,
+          message: msg("log.bodyReported", {
+            reporter: reporter.name,
+            victim: victim.name,
+          }),
+        },
+      );
+    }
+
+    case "useAbility": {
+      if (!isRoundLive(state)) return state;
+      const analyst = state.players.find(
+        (player) => player.id === action.playerId,
+      );
+      if (!analyst || !hasAbilities(analyst)) {
+        return { ...state, error: msg("error.abilityRole") };
+      }
+      const ability = msg(`ability.${action.ability}`);
+      if (getRemainingUses(analyst.id, state.abilityUses)[action.ability] < 1) {
+        return { ...state, error: msg("error.abilityLimit", { ability }) };
+      }
+      if (getAbilityCharges(analyst, state.abilityUses) < 1) {
+        return { ...state, error: msg("error.abilityCharge") };
+      }
+      const result = runAbility(action.ability, analyst.id, action.targetId, {
+        ...state,
+        at: action.at,
+      });
+      if (!result) {
+        return { ...state, error: msg("error.scanTarget") };
+      }
+      const use: AbilityUse = {
+        playerId: analyst.id,
+        ability: action.ability,
+        targetId: action.targetId,
+        at: action.at,
+        result,
+      };
+      return logEvent(
+        { ...state, abilityUses: [...state.abilityUses, use], error: null },
+        {
+          at: action.at,
+          type: "ability",
+          actorId: analyst.id,
+          targetId: action.targetId,
+          message: msg("log.abilityUsed", {
+            name: analyst.name,
+            ability,
+            result,
+          }),
+          payload: { ability: action.ability },
+          hidden: true,
+        },
+      );
+    }
+
+    case "eliminatePlayer": {
+      if (state.phase !== "mission") return state;
+      const targetPlayer = state.players.find(
+        (player) => player.id === action.playerId,
+      );
+      if (!targetPlayer || targetPlayer.status !== "alive") return state;
+      const players = state.players.map((player) =>
+        player.id === targetPlayer.id
+          ? { ...player, status: "eliminated" as const, cause: "host" as const }
+          : player,
+      );
+      return settleOutcome(
+        logEvent(
+          { ...state, players },
+          {
+            at: action.at,
+            type: "status",
+            targetId: targetPlayer.id,
+            message: msg("log.hostEliminated", { name: targetPlayer.name }),
+            payload: { status: "eliminated", cause: "host" },
+          },
+        ),
+        action.at,
+      );
+    }
+
+    case "revivePlayer": {
+      if (state.phase !== "mission") return state;
+      const targetPlayer = state.players.find(
+        (player) => player.id === action.playerId,
+      );
+      if (!targetPlayer || targetPlayer.status !== "eliminated") return state;
+      const players = state.players.map((player) =>
+        player.id === targetPlayer.id
+          ? { ...player, status: "alive" as const, cause: null }
+          : player,
+      );
+      return settleOutcome(
+        logEvent(
+          { ...state, players },
+          {
+            at: action.at,
+            type: "status",
+            targetId: targetPlayer.id,
+            message: msg("log.hostRevived", { name: targetPlayer.name }),
+            payload: { status: "alive", previousCause: targetPlayer.cause },
+          },
+        ),
+        action.at,
+      );
+    }
+
+    case "callMeeting": {
+      if (state.phase !== "mission") return state;
+      const blocker = meetingBlocker(state);
+      if (blocker) {
+        return { ...state, error: blocker };
+      }
+      return openMeeting(state, action.at, {
+        message: msg("log.meetingCalled"),
+      });
+    }
+
+    case "castVote": {
+      const { meeting } = state;
+      if (state.phase !== "meeting" || !meeting) return state;
+      if (action.targetId === null) {
+        const ballots = { ...meeting.ballots };
+        delete ballots[action.voterId];
+        return { ...state, meeting: { ...meeting, ballots } };
+      }
+      if (
+        !isValidBallot(meeting, state.players, action.voterId, action.targetId)
+      ) {
+        return {
+          ...state,
+          error: msg("error.invalidBallot"),
+        };
+      }
+      return {
+        ...state,
+        error: null,
+        meeting: {
+          ...meeting,
+          ballots: { ...meeting.ballots, [action.voterId]: action.targetId },
+        },
+      };
+    }
+
+    case "closeVoting": {
+      const { meeting } = state;
+      if (state.phase !== "meeting" || !meeting) return state;
+      const tally = tallyBallots(meeting, state.players);
+      const vote: VoteRecord = {
+        at: action.at,
+        runoff: !!meeting.runoff,
+        ballots: meeting.ballots,
+      };
+      const logged = logEvent(
+        { ...state, voteHistory: [...state.voteHistory, vote] },
+        {
+          at: action.at,
+          type: "vote",
+          message: msg(vote.runoff ? "log.runoffTally" : "log.voteTally", {
+            tally: describeTally(tally, state.players),
+          }),
+          payload: { runoff: vote.runoff, abstained: tally.abstained },
+        },
+      );
+      if (tally.leaders.length <= 1) {
+        const [leader = null] = tally.leaders;
+        return endMeeting(
+          { ...logged, error: null },
+          leader === SKIP_VOTE ? null : leader,
+          action.at,
+          msg(
+            leader === SKIP_VOTE
+              ? "vote.skipped"
+              : leader
+                ? "vote.decided"
+                : "vote.noBallots",
+          ),
+        );
+      }
+      if (state.tieRule === "revote" && !meeting.runoff) {
+        const runoff = tally.leaders.filter((id) => id !== SKIP_VOTE);
+        return runTimer(
+          logEvent(
+            { ...logged, meeting: { ballots: {}, runoff }, error: null },
+            {
+              at: action.at,
+              type: "meeting",
+              message: msg("log.runoffCalled"),
+            },
+          ),
+          "voting",
+          action.at,
+          state.timerSettings.votingSeconds,
+        );
+      }
+      if (state.tieRule === "random") {
+        const rng = createRng(state.rngState);
+        const pick =
+          tally.leaders[Math.floor(rng.next() * tally.leaders.length)];
+        return endMeeting(
+          { ...logged, rngState: rng.getState(), error: null },
+          pick === SKIP_VOTE ? null : pick,
+          action.at,
+          msg("vote.randomTie"),
+        );
+      }
+      return endMeeting(
+        { ...logged, error: null },
+        null,
+        action.at,
+        msg(meeting.runoff ? "vote.runoffTied" : "vote.tied"),
+      );
+    }
+
+    case "skipVote": {
+      if (state.phase !== "meeting") return state;
+      return skipMeeting(state, action.at, msg("log.voteSkipped"));
+    }
+
+    case "drawPrompt": {
+      if (!isRoundLive(state)) return state;
+      if (state.pendingEffect) {
+        return { ...state, error: msg("error.effectPending") };
+      }
+      if (state.promptsDrawn >= state.rules.promptDrawLimit) {
+        return {
+          ...state,
+          error: msg("error.promptLimit", {
+            count: state.rules.promptDrawLimit,
+          }),
+        };
+      }
+      const rng = createRng(state.rngState);
+      const prompts = state.deck.sections.prompts;
+      const entry = prompts[Math.floor(rng.next() * prompts.length)];
+      if (!entry) return state;
+      const card = entry.text;
+      const drawn = logEvent(
+        {
+          ...state,
+          prompt: card,
+          pendingEffect: entry.effect ?? null,
+          promptsDrawn: state.promptsDrawn + 1,
+          rngState: rng.getState(),
+          error: null,
+        },
+        {
+          at: action.at,
+          type: "prompt",
+          message: msg("log.promptDrawn", { card }),
+          payload: entry.effect ? { effect: entry.effect } : {},
+        },
+      );
+      return runTimer(
+        drawn,
+        "prompt",
+        action.at,
+        parsePromptSeconds(card) ?? 0,
+      );
+    }
+
+    case "runPromptEffect": {
+      // A room lock needs a room, so it runs through `lockRoom` instead.
+      if (
+        state.phase !== "mission" ||
+        !state.pendingEffect ||
+        state.pendingEffect === "lockRoom"
+      ) {
+        return state;
+      }
+      return runPromptEffect(
+        { ...state, pendingEffect: null, error: null },
+        state.pendingEffect,
+        action.at,
+      );
+    }
+
+    case "dismissPromptEffect": {
+      if (!state.pendingEffect) return state;
+      return logEvent(
+        { ...state, pendingEffect: null },
+        {
+          at: action.at,
+          type: "prompt",
+          message: msg("log.effectDismissed", {
+            effect: msg(`effect.${state.pendingEffect}`),
+          }),
+          payload: { effect: state.pendingEffect },
+        },
+      );
+    }
+
+    case "approvePlayer": {
+      if (!isRoundLive(state)) return state;
+      const analyst = state.players.find(
+        (player) => player.id === action.analystId,
+      );
+      const target = state.players.find(
+        (player) => player.id === action.targetId,
+      );
+      if (
+        !analyst ||
+        !target ||
+        analyst.id === target.id ||
+        analyst.status !== "alive" ||
+        !state.approvalTokens.includes(analyst.id)
+      ) {
+        return state;
+      }
+      return logEvent(
+        {
+          ...state,
+          approvalTokens: state.approvalTokens.filter(
+            (id) => id !== analyst.id,
+          ),
+        },
+        {
+          at: action.at,
+          type: "prompt",
+          actorId: analyst.id,
+          targetId: target.id,
+          message: msg("log.approved", {
+            analyst: analyst.name,
+            name: target.name,
+          }),
+          hidden: true,
+        },
+      );
+    }
+
+    case "toggleTimer": {
+      const timer = findTimer(state.timers, action.kind);
+      if (!isRoundLive(state) || !timer) return state;
+      const toggled = togglePause(timer, action.at);
+      return logEvent(
+        {
+          ...state,
+          timers: state.timers.map((entry) =>
+            entry.kind === action.kind ? toggled : entry,
+          ),
+        },
+        {
+          at: action.at,
+          type: "timer",
+          message:
+            toggled.pausedRemaining === null
+              ? msg("log.timerResumed", { timer: msg(`timer.${action.kind}`) })
+              : msg("log.timerPaused", {
+                  timer: msg(`timer.${action.kind}`),
+                  time: formatCountdown(toggled.pausedRemaining),
+                }),
+          payload: {
+            kind: action.kind,
+            remainingMs: getRemainingMs(toggled, action.at),
+          },
+        },
+      );
+    }
+
+    case "triggerSabotage": {
+      if (state.phase !== "mission") return state;
+      const definition = SABOTAGE_CATALOGUE[action.kind];
+      const saboteur = state.players.find(
+        (player) => player.id === action.playerId,
+      );
+      if (
+        action.playerId !== null &&
+        (!saboteur || saboteur.status !== "alive" || !isImpostorSide(saboteur))
+      ) {
+        return {
+          ...state,
+          error: msg("error.saboteurInvalid"),
+        };
+      }
+      if (state.sabotage) {
+        return {
+          ...state,
+          error: msg("error.sabotageActive", {
+            sabotage: msg(`sabotage.${state.sabotage.kind}`),
+          }),
+        };
+      }
+      if (action.at < state.sabotageReadyAt) {
+        return {
+          ...state,
+          error: msg("error.sabotageCooldown", {
+            seconds: Math.ceil((state.sabotageReadyAt - action.at) / 1000),
+          }),
+        };
+      }
+      const announced = logEvent(
+        {
+          ...state,
+          sabotage: createSabotage(action.kind, action.playerId, action.at),
+          error: null,
+        },
+        {
+          at: action.at,
+          type: "sabotage",
+          message: msg("log.sabotageStarted", {
+            sabotage: msg(`sabotage.${action.kind}`),
+            fixes: definition.fixes.map((fix) => msg(fix)),
+          }),
+          payload: {
+            kind: action.kind,
+            critical: !!definition.countdownSeconds,
+          },
+        },
+      );
+      // Who pulled the sabotage is the secret part, so it gets its own entry.
+      const attributed = saboteur
+        ? logEvent(announced, {
+            at: action.at,
+            type: "sabotage",
+            actorId: saboteur.id,
+            message: msg("log.sabotageTriggered", {
+              name: saboteur.name,
+              sabotage: msg(`sabotage.${action.kind}`),
+            }),
+            payload: { kind: action.kind },
+            hidden: true,
+          })
+        : announced;
+      return runTimer(
+        attributed,
+        "sabotage",
+        action.at,
+        definition.countdownSeconds ?? 0,
+      );
+    }
+
+    case "fixSabotage": {
+      const { sabotage } = state;
+      if (state.phase !== "mission" || !sabotage) return state;
+      const fix = sabotage.fixes.find((entry) => entry.id === action.fixId);
+      const fixer = state.players.find(
+        (player) => player.id === action.playerId,
+      );
+      if (!fix || fix.fixed) return state;
+      if (action.playerId !== null && fixer?.status !== "alive") {
+        return {
+          ...state,
+          error: msg("error.fixerInvalid"),
+        };
+      }
+      // An Engineer knows the ship well enough to finish every fix at once.
+      const engineer = fixer?.role === "Engineer";
+      const updated = {
+        ...sabotage,
+        fixes: sabotage.fixes.map((entry) =>
+          entry.id === fix.id || (engineer && !entry.fixed)
+            ? { ...entry, fixed: true, fixedBy: action.playerId }
+            : entry,
+        ),
+      };
+      const logged = logEvent(
+        { ...state, sabotage: updated, error: null },
+        {
+          at: action.at,
+          type: "sabotage",
+          actorId: fixer?.id ?? null,
+          message: !fixer
+            ? msg("log.sabotageFixedByHost", { fix: msg(fix.name) })
+            : engineer
+              ? msg("log.sabotageFixedByEngineer", {
+                  name: fixer.name,
+                  sabotage: msg(`sabotage.${sabotage.kind}`),
+                })
+              : msg("log.sabotageFixed", {
+                  name: fixer.name,
+                  fix: msg(fix.name),
+                }),
+          payload: { kind: sabotage.kind, fixId: fix.id },
+        },
+      );
+      if (!isSabotageFixed(updated)) return logged;
+      return logEvent(
+        {
+          ...logged,
+          sabotage: null,
+          sabotageReadyAt: action.at + SABOTAGE_COOLDOWN_SECONDS * 1000,
+          timers: stopTimers(logged.timers, ["sabotage"]),
+        },
+        {
+          at: action.at,
+          type: "sabotage",
+          message: msg("log.sabotageResolved", {
+            sabotage: msg(`sabotage.${sabotage.kind}`),
+            seconds: SABOTAGE_COOLDOWN_SECONDS,
+          }),
+          payload: { kind: sabotage.kind },
+        },
+      );
+    }
+
+    case "expireTimers": {
+      if (!isRoundLive(state)) return state;
+      // Each expiry can start or clear other timers, so re-check as we go.
+      return getExpiredTimers(state.timers, action.at).reduce(
+        (next, timer) =>
+          isRoundLive(next) &&
+          findTimer(next.timers, timer.kind)?.endsAt === timer.endsAt
+            ? expireTimer(next, timer.kind, action.at)
+            : next,
+        state,
+      );
+    }
+
+    case "declareDraw":
+      return settleOutcome(state, action.at, { hostDraw: true });
+
+    case "enterResults": {
+      if (state.phase !== "reveal" && !isRoundLive(state)) return state;
+      const { eliminatedIds, completedTaskIds, winners } = action.results;
+      // The paper cards are the record now, so they replace the digital state.
+      const players = state.players.map((player) => {
+        const eliminated = eliminatedIds.includes(player.id);
+        return {
+          ...player,
+          cardSeen: true,
+          status: eliminated ? ("eliminated" as const) : ("alive" as const),
+          cause: eliminated ? (player.cause ?? ("host" as const)) : null,
+          tasks: player.tasks.map((task) => ({
+            ...task,
+            completed: completedTaskIds.includes(task.id),
+          })),
+        };
+      });
+      const entered = logEvent(
+        {
+          ...state,
+          players,
+          phase: "mission",
+          meeting: null,
+          timers: [],
+          sabotage: null,
+        },
+        {
+          at: action.at,
+          type: "round",
+          message: msg("log.tableResults", {
+            eliminated: eliminatedIds.length,
+            tasks: completedTaskIds.length,
+          }),
+          payload: {
+            eliminated: eliminatedIds.length,
+            tasks: completedTaskIds.length,
+          },
+        },
+      );
+      return settleOutcome(
+        entered,
+        action.at,
+        winners ? { tableWinners: winners } : {},
+      );
+    }
+
+    case "resetRound":
+      return resetToLobby(state, state.players);
+
+    case "replaceState":
+      return action.state;
+
+    default:
+      return state;
+  }
+}
+
+/**
+ * Adds a replay frame after any step that changed the dealt round's phase,
+ * players or log. Steps without a time of their own take the latest log time.
+ */
+const recordFrame = (
+  before: GameState,
+  after: GameState,
+  action: GameAction,
+): GameState => {
+  if (
+    action.type === "replaceState" ||
+    after.roundStartedAt === null ||
+    (after.phase === before.phase &&
+      after.players === before.players &&
+      after.missionLog === before.missionLog)
+  ) {
+    return after;
+  }
+  const at =
+    "at" in action
+      ? action.at
+      : (after.missionLog.at(-1)?.at ?? after.roundStartedAt);
+  return { ...after, replay: [...after.replay, captureFrame(after, at)] };
+};
+
+export function gameReducer(state: GameState, action: GameAction): GameState {
+  return recordFrame(state, applyAction(state, action), action);
+}
@@ -0,0 +1,26 @@
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isString = (value: unknown): value is string =>
+  typeof value === "string";
+
+export const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+export const isBoolean = (value: unknown): value is boolean =>
+  typeof value === "boolean";
+
+export const isNullable =
+  <T,>(guard: (value: unknown) => value is T) =>
+  (value: unknown): value is T | null =>
+    value === null || guard(value);
+
+export const isOneOf =
+  <T extends string>(options: readonly T[]) =>
+  (value: unknown): value is T =>
+    isString(value) && (options as readonly string[]).includes(value);
+
+export const isArrayOf =
+  <T,>(guard: (value: unknown) => value is T) =>
+  (value: unknown): value is T[] =>
+    Array.isArray(value) && value.every(guard);
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { createHistory, historyReducer } from "./history";
+import type { GameHistory, HistoryAction } from "./history";
+import { seatLobby, startMission } from "./testing";
+import { findTimer } from "./timers";
+
+const apply = (history: GameHistory, ...actions: HistoryAction[]) =>
+  actions.reduce(historyReducer, history);
+
+// Reports every timer that has run out, as the host screen does each tick.
+const tick = (history: GameHistory) => {
+  const ends = history.present.timers.map((timer) => timer.endsAt);
+  return apply(history, { type: "expireTimers", at: Math.min(...ends) });
+};
+
+describe("historyReducer", () => {
+  it("keeps timer expiries out of the undo history", () => {
+    const mission = startMission(seatLobby(5), "history");
+    const meeting = apply(createHistory(mission), {
+      type: "callMeeting",
+      at: 3_000,
+    });
+    const resumed = tick(tick(meeting));
+    expect(resumed.present.phase).toBe("mission");
+    expect(resumed.past).toEqual(meeting.past);
+
+    const undone = apply(resumed, { type: "undo", at: 200_000 });
+    expect(undone.present.phase).toBe("mission");
+    expect(findTimer(undone.present.timers, "voting")).toBeNull();
+    expect(undone.future).toHaveLength(1);
+
+    const redone = apply(undone, { type: "redo", at: 201_000 });
+    expect(redone.present.phase).toBe("mission");
+    expect(redone.present.meeting).toBeNull();
+  });
+
+  it("lets a stale timer expire again after an undo without losing redo", () => {
+    const mission = startMission(seatLobby(5), "history");
+    const voting = tick(
+      apply(createHistory(mission), { type: "callMeeting", at: 3_000 }),
+    );
+    const target = voting.present.players[0];
+    if (!target) throw new Error("No players were seated");
+    const voted = apply(voting, {
+      type: "castVote",
+      voterId: target.id,
+      targetId: target.id,
+    });
+    const expiredAt = findTimer(voted.present.timers, "voting")?.endsAt ?? 0;
+
+    const undone = apply(voted, { type: "undo", at: expiredAt + 1_000 });
+    const reExpired = apply(undone, {
+      type: "expireTimers",
+      at: expiredAt + 1_250,
+    });
+    expect(reExpired.present.phase).toBe("mission");
+    expect(reExpired.future).toHaveLength(1);
+  });
+});
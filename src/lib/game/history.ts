@@ -0,0 +1,128 @@
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import { gameReducer } from "./engine";
+import type { GameAction, GameState } from "./engine";
+import { appendLogEvent } from "./log";
+
+export const HISTORY_LIMIT = 50;
+
+/** Snapshots either side of the current state, newest first in `future`. */
+export type GameHistory = {
+  past: GameState[];
+  present: GameState;
+  future: GameState[];
+};
+
+export type HistoryAction =
+  | GameAction
+  | { type: "undo"; at: number }
+  | { type: "redo"; at: number };
+
+export const createHistory = (present: GameState): GameHistory => ({
+  past: [],
+  present,
+  future: [],
+});
+
+// Validation errors alone are feedback, not something to undo.
+const changedBeyondError = (before: GameState, after: GameState) =>
+  (Object.keys(after) as Array<keyof GameState>).some(
+    (key) => key !== "error" && before[key] !== after[key],
+  );
+
+type StepDescription = {
+  step: Message;
+  /** The step wrote a hidden entry, so quoting it must stay hidden too. */
+  hidden: boolean;
+};
+
+/** Names a step by the first log entry it wrote, for the correction entry. */
+const describeStep = (from: GameState, to: GameState): StepDescription => {
+  const known = new Set(from.missionLog);
+  const written = to.missionLog.filter(
+    (event) => !known.has(event) && event.type !== "correction",
+  );
+  const [first] = written;
+  return {
+    step: first
+      ? msg("log.quotedStep", { text: first.message })
+      : msg("log.lastHostChange"),
+    hidden: written.some((event) => event.hidden),
+  };
+};
+
+const restore = (
+  target: GameState,
+  at: number,
+  key: "log.correctionUndo" | "log.correctionRedo",
+  { step, hidden }: StepDescription,
+): GameState => ({
+  ...target,
+  error: null,
+  missionLog: appendLogEvent(target.missionLog, {
+    at,
+    type: "correction",
+    message: msg(key, { step }),
+    hidden,
+  }),
+});
+
+export function historyReducer(
+  history: GameHistory,
+  action: HistoryAction,
+): GameHistory {
+  switch (action.type) {
+    case "undo": {
+      const previous = history.past[history.past.length - 1];
+      if (!previous) return history;
+      return {
+        past: history.past.slice(0, -1),
+        present: restore(
+          previous,
+          action.at,
+          "log.correctionUndo",
+          describeStep(previous, history.present),
+        ),
+        future: [history.present, ...history.future],
+      };
+    }
+
+    case "redo": {
+      const [next, ...future] = history.future;
+      if (!next) return history;
+      return {
+        past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+        present: restore(
+          next,
+          action.at,
+          "log.correctionRedo",
+          describeStep(history.present, next),
+        ),
+        future,
+      };
+    }
+
+    // A wholesale replacement (resume, room snapshot) starts a fresh history.
+    case "replaceState":
+      return createHistory(action.state);
+
+    default: {
+      const next = gameReducer(history.present, action);
+      if (next === history.present) return history;
+      // Expiries are the clock's doing, so they are never a step of their own:
+      // undo goes back past them to the host's last action, and a timer that
+      // has run out by then simply expires again without clearing `future`.
+      if (
+        action.type === "expireTimers" ||
+        !changedBeyondError(history.present, next)
+      ) {
+        return { ...history, present: next };
+      }
+      return {
+        past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+      };
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { isNullable, isNumber, isRecord, isString } from "./guards";
+
+/** Seconds an impostor has to wait between kills. */
+export const KILL_COOLDOWN_SECONDS = 25;
+
+export type Kill = {
+  killerId: string;
+  victimId: string;
+  at: number;
+  /** Null until someone reports the body or a meeting brings it to light. */
+  reportedAt: number | null;
+  reportedBy: string | null;
+};
+
+/** When this killer may strike again; 0 if they have not killed yet. */
+export const getKillReadyAt = (kills: readonly Kill[], killerId: string) =>
+  kills.reduce(
+    (readyAt, kill) =>
+      kill.killerId === killerId
+        ? Math.max(readyAt, kill.at + KILL_COOLDOWN_SECONDS * 1000)
+        : readyAt,
+    0,
+  );
+
+export const findUnreportedKill = (
+  kills: readonly Kill[],
+  victimId: string,
+): Kill | undefined =>
+  kills.find((kill) => kill.victimId === victimId && kill.reportedAt === null);
+
+/** A meeting shows everyone who is gone, so every body counts as found. */
+export const revealBodies = (kills: readonly Kill[], at: number): Kill[] =>
+  kills.map((kill) =>
+    kill.reportedAt === null ? { ...kill, reportedAt: at } : kill,
+  );
+
+export const isKill = (value: unknown): value is Kill =>
+  isRecord(value) &&
+  isString(value.killerId) &&
+  isString(value.victimId) &&
+  isNumber(value.at) &&
+  isNullable(isNumber)(value.reportedAt) &&
+  isNullable(isString)(value.reportedBy);
@@ -0,0 +1,150 @@
+import { isMessage, msg, translateMessage } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import type { Locale } from "@/lib/i18n/locales";
+import {
+  isArrayOf,
+  isBoolean,
+  isNullable,
+  isNumber,
+  isOneOf,
+  isRecord,
+  isString,
+} from "./guards";
+import type { Player } from "./types";
+
+export const LOG_EVENT_TYPES = [
+  "round",
+  "task",
+  "status",
+  "card",
+  "ability",
+  "kill",
+  "meeting",
+  "vote",
+  "ejection",
+  "prompt",
+  "timer",
+  "sabotage",
+  "correction",
+  "outcome",
+] as const;
+export type LogEventType = (typeof LOG_EVENT_TYPES)[number];
+
+export type LogPayloadValue = string | number | boolean | null;
+
+export type LogEvent = {
+  /** Position in the round's log, starting at 1. */
+  seq: number;
+  at: number;
+  type: LogEventType;
+  actorId: string | null;
+  targetId: string | null;
+  message: Message;
+  payload: Record<string, LogPayloadValue>;
+  /** Reveals secret information, so public exports leave it out. */
+  hidden: boolean;
+};
+
+export type LogEventInput = Omit<
+  LogEvent,
+  "seq" | "actorId" | "targetId" | "payload" | "hidden"
+> &
+  Partial<Pick<LogEvent, "actorId" | "targetId" | "payload" | "hidden">>;
+
+export type LogFilter = {
+  playerId: string | null;
+  type: LogEventType | null;
+  publicOnly: boolean;
+};
+
+export const appendLogEvent = (
+  log: readonly LogEvent[],
+  input: LogEventInput,
+): LogEvent[] => [
+  ...log,
+  {
+    actorId: null,
+    targetId: null,
+    payload: {},
+    hidden: false,
+    ...input,
+    seq: log.length + 1,
+  },
+];
+
+export const formatLogTime = (at: number) =>
+  new Date(at).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+export const filterLog = (log: readonly LogEvent[], filter: LogFilter) =>
+  log.filter(
+    (event) =>
+      (!filter.publicOnly || !event.hidden) &&
+      (!filter.type || event.type === filter.type) &&
+      (!filter.playerId ||
+        event.actorId === filter.playerId ||
+        event.targetId === filter.playerId),
+  );
+
+const isPayload = (value: unknown): value is Record<string, LogPayloadValue> =>
+  isRecord(value) &&
+  Object.values(value).every(
+    (entry) =>
+      entry === null || isString(entry) || isNumber(entry) || isBoolean(entry),
+  );
+
+export const isLogEvent = (value: unknown): value is LogEvent =>
+  isRecord(value) &&
+  isNumber(value.seq) &&
+  isNumber(value.at) &&
+  isOneOf(LOG_EVENT_TYPES)(value.type) &&
+  isNullable(isString)(value.actorId) &&
+  isNullable(isString)(value.targetId) &&
+  isMessage(value.message) &&
+  isPayload(value.payload) &&
+  isBoolean(value.hidden);
+
+export const isMissionLog = isArrayOf(isLogEvent);
+
+const nameLookup = (players: readonly Player[]) => {
+  const names = new Map(players.map((player) => [player.id, player.name]));
+  return (playerId: string | null) =>
+    playerId === null ? null : (names.get(playerId) ?? playerId);
+};
+
+export const logToJson = (
+  log: readonly LogEvent[],
+  players: readonly Player[],
+  locale: Locale,
+) => {
+  const nameOf = nameLookup(players);
+  return JSON.stringify(
+    log.map((event) => ({
+      ...event,
+      text: translateMessage(locale, event.message),
+      time: new Date(event.at).toISOString(),
+      actor: nameOf(event.actorId),
+      target: nameOf(event.targetId),
+    })),
+    null,
+    2,
+  );
+};
+
+export const logToMarkdown = (
+  log: readonly LogEvent[],
+  title: string,
+  locale: Locale,
+) => {
+  const t = (message: Message) => translateMessage(locale, message);
+  return [
+    `# ${title}`,
+    "",
+    `| ${t(msg("log.columnTime"))} | ${t(msg("log.columnType"))} | ${t(msg("log.columnEvent"))} |`,
+    "| --- | --- | --- |",
+    ...log.map(
+      (event) =>
+        `| ${formatLogTime(event.at)} | ${t(msg(`logType.${event.type}`))}${event.hidden ? ` (${t(msg("log.hidden"))})` : ""} | ${t(event.message).replace(/\|/g, "\\|")} |`,
+    ),
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,57 @@
+import { isNumber, isOneOf, isRecord } from "./guards";
+import type { Player } from "./types";
+
+export const ROOMS = [
+  "reactor",
+  "electrical",
+  "oxygen",
+  "comms",
+  "medbay",
+  "navigation",
+  "security",
+  "cargo",
+] as const;
+export type RoomId = (typeof ROOMS)[number];
+
+/** How long a lock lasts when its prompt card gives no time of its own. */
+export const ROOM_LOCK_SECONDS = 60;
+
+/** Nobody can finish a task in a locked room until `endsAt`. */
+export type RoomLock = {
+  room: RoomId;
+  endsAt: number;
+};
+
+export const findRoomLock = (
+  locks: readonly RoomLock[],
+  room: RoomId | null,
+  at: number,
+): RoomLock | undefined =>
+  locks.find((lock) => lock.room === room && lock.endsAt > at);
+
+export type RoomSummary = {
+  room: RoomId;
+  openTasks: number;
+  totalTasks: number;
+  /** Names of the players marked in the room. */
+  present: string[];
+};
+
+/** Task density and who is where, room by room. */
+export const summarizeRooms = (players: readonly Player[]): RoomSummary[] =>
+  ROOMS.map((room) => {
+    const tasks = players.flatMap((player) =>
+      player.tasks.filter((task) => task.room === room),
+    );
+    return {
+      room,
+      openTasks: tasks.filter((task) => !task.completed).length,
+      totalTasks: tasks.length,
+      present: players
+        .filter((player) => player.location === room)
+        .map((player) => player.name),
+    };
+  });
+
+export const isRoomLock = (value: unknown): value is RoomLock =>
+  isRecord(value) && isOneOf(ROOMS)(value.room) && isNumber(value.endsAt);
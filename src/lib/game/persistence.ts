@@ -0,0 +1,217 @@
+import { isMessage } from "@/lib/i18n/translate";
+import { isAbilityUse } from "./abilities";
+import { isDeckPack } from "./decks";
+import type { GameState } from "./engine";
+import {
+  isArrayOf,
+  isBoolean,
+  isNullable,
+  isNumber,
+  isOneOf,
+  isRecord,
+  isString,
+} from "./guards";
+import { isKill } from "./kills";
+import { isMissionLog } from "./log";
+import { ROOMS, isRoomLock } from "./map";
+import { PRESET_IDS, isRuleSet } from "./presets";
+import { PROMPT_EFFECTS } from "./prompts";
+import { isReplayFrame } from "./replay";
+import { isActiveSabotage } from "./sabotage";
+import { isTimerList, isTimerSettings } from "./timers";
+import {
+  ELIMINATION_CAUSES,
+  PHASES,
+  ROLES,
+  TASK_KINDS,
+  TIE_RULES,
+  WINNERS,
+  WIN_CONDITION_IDS,
+} from "./types";
+import type {
+  Ejection,
+  MeetingState,
+  Outcome,
+  OutcomeResult,
+  Player,
+  Task,
+  VoteRecord,
+} from "./types";
+
+export const SESSION_STORAGE_KEY = "imposter-relay:session";
+export const SESSION_SCHEMA_VERSION = 19;
+
+export type SavedSession = {
+  version: number;
+  savedAt: number;
+  state: GameState;
+};
+
+const isTask = (value: unknown): value is Task =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isOneOf(TASK_KINDS)(value.kind) &&
+  isNullable(isOneOf(ROOMS))(value.room) &&
+  isBoolean(value.completed);
+
+const isPlayer = (value: unknown): value is Player =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isOneOf(ROLES)(value.role) &&
+  isArrayOf(isTask)(value.tasks) &&
+  isOneOf(["alive", "eliminated"] as const)(value.status) &&
+  isNullable(isOneOf(ELIMINATION_CAUSES))(value.cause) &&
+  isBoolean(value.cardSeen) &&
+  isNullable(isString)(value.pin) &&
+  isNullable(isOneOf(ROOMS))(value.location);
+
+const isOutcomeResult = (value: unknown): value is OutcomeResult =>
+  isRecord(value) &&
+  isOneOf(WIN_CONDITION_IDS)(value.conditionId) &&
+  isArrayOf(isOneOf(WINNERS))(value.winners) &&
+  isMessage(value.reason);
+
+const isOutcome = (value: unknown): value is Outcome =>
+  value === null ||
+  (isRecord(value) &&
+    isNumber(value.at) &&
+    isArrayOf(isOutcomeResult)(value.results));
+
+export const isMeeting = (value: unknown): value is MeetingState =>
+  isRecord(value) &&
+  isRecord(value.ballots) &&
+  Object.values(value.ballots).every(isString) &&
+  isNullable(isArrayOf(isString))(value.runoff);
+
+const isVoteRecord = (value: unknown): value is VoteRecord =>
+  isRecord(value) &&
+  isNumber(value.at) &&
+  isBoolean(value.runoff) &&
+  isRecord(value.ballots) &&
+  Object.values(value.ballots).every(isString);
+
+const isEjection = (value: unknown): value is Ejection =>
+  isRecord(value) &&
+  isString(value.playerId) &&
+  isArrayOf(isString)(value.voterIds);
+
+export const isGameState = (value: unknown): value is GameState =>
+  isRecord(value) &&
+  isArrayOf(isPlayer)(value.players) &&
+  isOneOf(PHASES)(value.phase) &&
+  isNumber(value.impostorCount) &&
+  isOneOf(TIE_RULES)(value.tieRule) &&
+  isArrayOf(isOneOf(ROLES))(value.enabledRoles) &&
+  isRuleSet(value.rules) &&
+  isNullable(isOneOf(PRESET_IDS))(value.presetId) &&
+  isDeckPack(value.deck) &&
+  isTimerSettings(value.timerSettings) &&
+  isNullable(isString)(value.seed) &&
+  isNullable(isNumber)(value.roundStartedAt) &&
+  isNumber(value.rngState) &&
+  isNumber(value.activeCardIndex) &&
+  value.activeCardIndex >= 0 &&
+  value.activeCardIndex <= value.players.length &&
+  isMissionLog(value.missionLog) &&
+  isNullable(isString)(value.prompt) &&
+  isNullable(isOneOf(PROMPT_EFFECTS))(value.pendingEffect) &&
+  isNumber(value.promptsDrawn) &&
+  isBoolean(value.silentRound) &&
+  isArrayOf(isString)(value.approvalTokens) &&
+  isNullable(isMeeting)(value.meeting) &&
+  isArrayOf(isEjection)(value.ejections) &&
+  isArrayOf(isKill)(value.kills) &&
+  isArrayOf(isString)(value.sheriffShots) &&
+  isArrayOf(isRoomLock)(value.roomLocks) &&
+  isArrayOf(isVoteRecord)(value.voteHistory) &&
+  isArrayOf(isAbilityUse)(value.abilityUses) &&
+  isArrayOf(isReplayFrame)(value.replay) &&
+  isTimerList(value.timers) &&
+  isNullable(isActiveSabotage)(value.sabotage) &&
+  isNumber(value.sabotageReadyAt) &&
+  isOutcome(value.outcome);
+
+export const serializeSession = (state: GameState, savedAt: number) =>
+  JSON.stringify({
+    version: SESSION_SCHEMA_VERSION,
+    savedAt,
+    state: { ...state, error: null },
+  } satisfies SavedSession);
+
+/**
+ * Returns null for anything that is not a session written by this schema
+ * version, including malformed JSON. Older saves are not migrated.
+ */
+export const parseSession = (raw: string): SavedSession | null => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (
+    !isRecord(parsed) ||
+    parsed.version !== SESSION_SCHEMA_VERSION ||
+    !isNumber(parsed.savedAt) ||
+    !isGameState(parsed.state)
+  ) {
+    return null;
+  }
+  return {
+    version: SESSION_SCHEMA_VERSION,
+    savedAt: parsed.savedAt,
+    state: { ...parsed.state, error: null },
+  };
+};
+
+export const loadSession = (): SavedSession | null => {
+  try {
+    const raw = window.localStorage.getItem(SESSION_STORAGE_KEY);
+    if (raw === null) return null;
+    const session = parseSession(raw);
+    if (!session) {
+      window.localStorage.removeItem(SESSION_STORAGE_KEY);
+    }
+    return session;
+  } catch {
+    return null;
+  }
+};
+
+let bootSession: SavedSession | null | undefined;
+
+/**
+ * The session that was in storage when the page loaded. Read once, so
+ * autosaves made afterwards never change what the resume prompt offers.
+ */
+export const getBootSession = () => {
+  if (bootSession === undefined) {
+    bootSession = loadSession();
+  }
+  return bootSession;
+};
+
+export const isResumable = (
+  session: SavedSession | null,
+): session is SavedSession => !!session && session.state.players.length > 0;
+
+export const saveSession = (state: GameState, savedAt: number) => {
+  try {
+    window.localStorage.setItem(
+      SESSION_STORAGE_KEY,
+      serializeSession(state, savedAt),
+    );
+  } catch {
+    // Storage can be full or disabled (private browsing); autosave is best effort.
+  }
+};
+
+export const clearSession = () => {
+  try {
+    window.localStorage.removeItem(SESSION_STORAGE_KEY);
+  } catch {
+    // Nothing to clear when storage is unavailable.
+  }
+};
@@ -0,0 +1,114 @@
+import { DEFAULT_DECK_PACK } from "./decks";
+import { isBoolean, isNumber, isRecord } from "./guards";
+import { ROLES } from "./types";
+import type { Role } from "./types";
+
+export type RuleSet = {
+  minPlayers: number;
+  maxPlayers: number;
+  /** One impostor seat for every this many players, up to `maxImpostors`. */
+  playersPerImpostor: number;
+  maxImpostors: number;
+  /** Smallest roster an optional role is dealt to; unlisted roles have none. */
+  roleMinPlayers: Partial<Record<Role, number>>;
+  /** Impostors win once they match the rest; otherwise they must outnumber. */
+  impostorsWinAtParity: boolean;
+  /**
+   * Eliminated players keep working their tasks as ghosts. Without it their
+   * tasks drop out of the crew's total instead.
+   */
+  ghostTasks: boolean;
+  /** Most prompt cards the host may draw in one round. */
+  promptDrawLimit: number;
+};
+
+export type RuleCount = Exclude<
+  keyof RuleSet,
+  "roleMinPlayers" | "impostorsWinAtParity" | "ghostTasks"
+>;
+
+export const RULE_LIMITS: Record<RuleCount, { min: number; max: number }> = {
+  minPlayers: { min: 3, max: 15 },
+  maxPlayers: { min: 4, max: 20 },
+  playersPerImpostor: { min: 2, max: 6 },
+  maxImpostors: { min: 1, max: 5 },
+  promptDrawLimit: { min: 1, max: 20 },
+};
+
+export const ROLE_MIN_PLAYERS_LIMITS = { min: 3, max: 20 };
+
+export const CLASSIC_RULES: RuleSet = {
+  minPlayers: 4,
+  maxPlayers: 12,
+  playersPerImpostor: 3,
+  maxImpostors: 3,
+  roleMinPlayers: { Analyst: 6, Sheriff: 7, Engineer: 5, Jester: 6 },
+  impostorsWinAtParity: true,
+  ghostTasks: true,
+  promptDrawLimit: 6,
+};
+
+export const PRESET_IDS = [
+  "classic",
+  "speed",
+  "bigParty",
+  "noAnalyst",
+] as const;
+export type PresetId = (typeof PRESET_IDS)[number];
+
+/**
+ * A preset also sets the optional roles and the active pack's task counts. Its
+ * name and description live in the catalogue under `preset.<id>`.
+ */
+export type GamePreset = {
+  rules: RuleSet;
+  enabledRoles: Role[];
+  taskCounts: Record<Role, number>;
+};
+
+export const GAME_PRESETS: Record<PresetId, GamePreset> = {
+  classic: {
+    rules: CLASSIC_RULES,
+    enabledRoles: ["Analyst"],
+    taskCounts: DEFAULT_DECK_PACK.taskCounts,
+  },
+  speed: {
+    rules: { ...CLASSIC_RULES, maxPlayers: 10, promptDrawLimit: 3 },
+    enabledRoles: ["Analyst"],
+    taskCounts: {
+      Crewmate: 2,
+      Impostor: 2,
+      Analyst: 2,
+      Sheriff: 2,
+      Engineer: 3,
+      Jester: 1,
+    },
+  },
+  bigParty: {
+    rules: {
+      ...CLASSIC_RULES,
+      minPlayers: 8,
+      maxPlayers: 15,
+      maxImpostors: 5,
+    },
+    enabledRoles: ["Analyst", "Sheriff", "Engineer", "Jester"],
+    taskCounts: DEFAULT_DECK_PACK.taskCounts,
+  },
+  noAnalyst: {
+    rules: CLASSIC_RULES,
+    enabledRoles: [],
+    taskCounts: DEFAULT_DECK_PACK.taskCounts,
+  },
+};
+
+export const isRuleSet = (value: unknown): value is RuleSet =>
+  isRecord(value) &&
+  (Object.keys(RULE_LIMITS) as RuleCount[]).every(
+    (key) => isNumber(value[key]) && value[key] >= RULE_LIMITS[key].min,
+  ) &&
+  isRecord(value.roleMinPlayers) &&
+  Object.entries(value.roleMinPlayers).every(
+    ([role, count]) => ROLES.includes(role as Role) && isNumber(count),
+  ) &&
+  isBoolean(value.impostorsWinAtParity) &&
+  isBoolean(value.ghostTasks);
@@ -0,0 +1,54 @@
+import type { Player, Task } from "./types";
+
+/**
+ * What a prompt card does once the host confirms it. A card without an effect
+ * is read out and nothing else happens.
+ */
+export const PROMPT_EFFECTS = [
+  "swapTasks",
+  "silentRound",
+  "analystApproval",
+  "forcedMeeting",
+  "lockRoom",
+] as const;
+export type PromptEffect = (typeof PROMPT_EFFECTS)[number];
+
+const firstOpenCrewTask = (player: Player) =>
+  player.tasks.find((task) => task.kind === "crew" && !task.completed);
+
+/**
+ * Everyone holding an open crew task passes their first one to the next such
+ * player in seating order (the lobby order), wrapping round at the end. Only
+ * crew tasks move, so nobody is handed an objective that gives a role away.
+ */
+export const swapAdjacentTasks = (
+  players: readonly Player[],
+): { players: Player[]; swapped: number } => {
+  const held = players.flatMap((player) => {
+    const task = firstOpenCrewTask(player);
+    return player.status === "alive" && task ? [{ player, task }] : [];
+  });
+  if (held.length < 2) return { players: [...players], swapped: 0 };
+  const handedOver = new Map<string, { given: Task; received: Task }>(
+    held.map(({ player, task }, index) => [
+      player.id,
+      {
+        given: task,
+        received: held[(index + held.length - 1) % held.length].task,
+      },
+    ]),
+  );
+  return {
+    players: players.map((player) => {
+      const swap = handedOver.get(player.id);
+      if (!swap) return player;
+      return {
+        ...player,
+        tasks: player.tasks.map((task) =>
+          task.id === swap.given.id ? swap.received : task,
+        ),
+      };
+    }),
+    swapped: held.length,
+  };
+};
@@ -0,0 +1,45 @@
+import type { Random } from "./types";
+
+export type Rng = {
+  next: Random;
+  getState: () => number;
+};
+
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/** FNV-1a over the seed text, so any string a host types maps to a state. */
+export const seedToState = (seed: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i += 1) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Mulberry32. The generator state is a single 32-bit integer so the engine
+ * can keep it in `GameState` and stay a pure reducer.
+ */
+export const createRng = (state: number): Rng => {
+  let current = state >>> 0;
+  return {
+    next: () => {
+      current = (current + 0x6d2b79f5) >>> 0;
+      let t = current;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => current,
+  };
+};
+
+/** Short, unambiguous codes for seeds and room names. Not for secrets. */
+export const generateCode = (length: number) =>
+  Array.from(
+    { length },
+    () => CODE_ALPHABET[Math.floor(Math.random() * CODE_ALPHABET.length)],
+  ).join("");
+
+export const generateSeed = () => generateCode(6);
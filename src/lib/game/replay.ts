@@ -0,0 +1,171 @@
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import type { GameState } from "./engine";
+import {
+  isArrayOf,
+  isNullable,
+  isNumber,
+  isOneOf,
+  isRecord,
+  isString,
+} from "./guards";
+import { isMissionLog } from "./log";
+import type { LogEvent, LogEventType } from "./log";
+import { computeCrewTaskTotals } from "./rules";
+import { PHASES, ROLES } from "./types";
+import type { Phase, Player, Role } from "./types";
+
+export const REPLAY_FILE_FORMAT = "imposter-relay-replay";
+export const REPLAY_FILE_VERSION = 1;
+
+export type ReplayPlayerFrame = {
+  id: string;
+  status: Player["status"];
+  tasksCompleted: number;
+  tasksTotal: number;
+};
+
+/** The round as it stood after one step. */
+export type ReplayFrame = {
+  at: number;
+  phase: Phase;
+  /** Log entries up to here; the step wrote those after the previous frame's. */
+  logLength: number;
+  players: ReplayPlayerFrame[];
+  crewTasks: { completed: number; total: number };
+};
+
+export type Replay = {
+  id: string;
+  startedAt: number;
+  seed: string | null;
+  players: Array<{ id: string; name: string; role: Role }>;
+  log: LogEvent[];
+  frames: ReplayFrame[];
+};
+
+export type ReplayParseResult =
+  | { ok: true; replay: Replay }
+  | { ok: false; error: Message };
+
+/** Log types the viewer lists as turning points. */
+const KEY_EVENT_TYPES: readonly LogEventType[] = [
+  "meeting",
+  "vote",
+  "ejection",
+  "kill",
+  "outcome",
+];
+
+export const captureFrame = (state: GameState, at: number): ReplayFrame => ({
+  at,
+  phase: state.phase,
+  logLength: state.missionLog.length,
+  players: state.players.map((player) => ({
+    id: player.id,
+    status: player.status,
+    tasksCompleted: player.tasks.filter((task) => task.completed).length,
+    tasksTotal: player.tasks.length,
+  })),
+  crewTasks: computeCrewTaskTotals(state.players, state.rules),
+});
+
+/** Everything needed to step through the round, or null before one is dealt. */
+export const buildReplay = (state: GameState): Replay | null => {
+  if (state.roundStartedAt === null || !state.replay.length) return null;
+  return {
+    id: `${state.roundStartedAt}-${state.seed ?? "unseeded"}`,
+    startedAt: state.roundStartedAt,
+    seed: state.seed,
+    players: state.players.map(({ id, name, role }) => ({ id, name, role })),
+    log: state.missionLog,
+    frames: state.replay,
+  };
+};
+
+/** The log entries written by the step that produced frame `index`. */
+export const getFrameEvents = (replay: Replay, index: number) =>
+  replay.log.slice(
+    replay.frames[index - 1]?.logLength ?? 0,
+    replay.frames[index]?.logLength ?? 0,
+  );
+
+/** Frames whose step held a kill, meeting, vote, ejection or the outcome. */
+export const findKeyFrames = (replay: Replay) =>
+  replay.frames.flatMap((_, index) => {
+    const events = getFrameEvents(replay, index).filter((event) =>
+      KEY_EVENT_TYPES.includes(event.type),
+    );
+    return events.length ? [{ index, events }] : [];
+  });
+
+/** The first frame after which the round was decided, or -1. */
+export const findOutcomeFrame = (replay: Replay) =>
+  replay.frames.findIndex((frame) => frame.phase === "ended");
+
+const isCount = (value: unknown): value is number =>
+  isNumber(value) && Number.isInteger(value) && value >= 0;
+
+const isReplayPlayerFrame = (value: unknown): value is ReplayPlayerFrame =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isOneOf(["alive", "eliminated"] as const)(value.status) &&
+  isCount(value.tasksCompleted) &&
+  isCount(value.tasksTotal);
+
+export const isReplayFrame = (value: unknown): value is ReplayFrame =>
+  isRecord(value) &&
+  isNumber(value.at) &&
+  isOneOf(PHASES)(value.phase) &&
+  isCount(value.logLength) &&
+  isArrayOf(isReplayPlayerFrame)(value.players) &&
+  isRecord(value.crewTasks) &&
+  isCount(value.crewTasks.completed) &&
+  isCount(value.crewTasks.total);
+
+const isReplayPlayer = (value: unknown): value is Replay["players"][number] =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isString(value.name) &&
+  isOneOf(ROLES)(value.role);
+
+const isReplay = (value: unknown): value is Replay =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isNumber(value.startedAt) &&
+  isNullable(isString)(value.seed) &&
+  isArrayOf(isReplayPlayer)(value.players) &&
+  isMissionLog(value.log) &&
+  isArrayOf(isReplayFrame)(value.frames) &&
+  // Frames only ever point further into the log, so checking the last will do.
+  (value.frames.at(-1)?.logLength ?? Infinity) <= value.log.length;
+
+export const serializeReplay = (replay: Replay) =>
+  JSON.stringify(
+    { format: REPLAY_FILE_FORMAT, version: REPLAY_FILE_VERSION, replay },
+    null,
+    2,
+  );
+
+/** Validates a saved replay file and explains the first problem found. */
+export const parseReplayFile = (raw: string): ReplayParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: msg("error.replayFileJson") };
+  }
+  if (!isRecord(parsed) || parsed.format !== REPLAY_FILE_FORMAT) {
+    return { ok: false, error: msg("error.replayFileFormat") };
+  }
+  if (parsed.version !== REPLAY_FILE_VERSION) {
+    return {
+      ok: false,
+      error: msg("error.replayFileVersion", { version: REPLAY_FILE_VERSION }),
+    };
+  }
+  if (!isReplay(parsed.replay)) {
+    return { ok: false, error: msg("error.replayFileInvalid") };
+  }
+  return { ok: true, replay: parsed.replay };
+};
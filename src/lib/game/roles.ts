@@ -0,0 +1,143 @@
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import type { RuleSet } from "./presets";
+import { ROLES } from "./types";
+import type { Alignment, Player, Role, TaskKind, Winner } from "./types";
+
+export type RoleTone =
+  | "crew"
+  | "intel"
+  | "enforcer"
+  | "technician"
+  | "impostor"
+  | "wildcard";
+
+export type SpecialWin = {
+  trigger: "ejected";
+  winner: Winner;
+  reason: (player: Player) => Message;
+};
+
+export type RoleDefinition = {
+  role: Role;
+  alignment: Alignment;
+  tone: RoleTone;
+  /** Lower sorts first in the round summary. */
+  rosterOrder: number;
+  /** Which deck section the role draws from; count is the standard pack default. */
+  tasks: { kind: TaskKind; count: number };
+  /** Copies dealt for a roster; the filler role takes whoever is left. */
+  copies: (playerCount: number, impostorCount: number) => number;
+  /**
+   * Optional roles are only dealt when the host enables them and the roster
+   * reaches the rule set's minimum for the role.
+   */
+  optional: boolean;
+  specialWin?: SpecialWin;
+};
+
+export const FILLER_ROLE: Role = "Crewmate";
+
+export const ROLE_CATALOGUE: Record<Role, RoleDefinition> = {
+  Crewmate: {
+    role: "Crewmate",
+    alignment: "crew",
+    tone: "crew",
+    rosterOrder: 5,
+    tasks: { kind: "crew", count: 4 },
+    copies: () => 0,
+    optional: false,
+  },
+  Impostor: {
+    role: "Impostor",
+    alignment: "impostor",
+    tone: "impostor",
+    rosterOrder: 0,
+    tasks: { kind: "impostor", count: 3 },
+    copies: (_playerCount, impostorCount) => impostorCount,
+    optional: false,
+  },
+  Analyst: {
+    role: "Analyst",
+    alignment: "crew",
+    tone: "intel",
+    rosterOrder: 2,
+    tasks: { kind: "support", count: 3 },
+    copies: () => 1,
+    optional: true,
+  },
+  Sheriff: {
+    role: "Sheriff",
+    alignment: "crew",
+    tone: "enforcer",
+    rosterOrder: 3,
+    tasks: { kind: "crew", count: 3 },
+    copies: () => 1,
+    optional: true,
+  },
+  Engineer: {
+    role: "Engineer",
+    alignment: "crew",
+    tone: "technician",
+    rosterOrder: 4,
+    tasks: { kind: "crew", count: 5 },
+    copies: () => 1,
+    optional: true,
+  },
+  Jester: {
+    role: "Jester",
+    alignment: "neutral",
+    tone: "wildcard",
+    rosterOrder: 1,
+    tasks: { kind: "neutral", count: 2 },
+    copies: () => 1,
+    optional: true,
+    specialWin: {
+      trigger: "ejected",
+      winner: "Jester",
+      reason: (player) => msg("outcome.jester", { name: player.name }),
+    },
+  },
+};
+
+export const OPTIONAL_ROLES = ROLES.filter(
+  (role) => ROLE_CATALOGUE[role].optional,
+);
+
+export const DEFAULT_ENABLED_ROLES: Role[] = ["Analyst"];
+
+export const getAlignment = (player: Player) =>
+  ROLE_CATALOGUE[player.role].alignment;
+
+/**
+ * How many of each special role to deal, in catalogue order, never dealing
+ * more seats than there are players. The filler role is not listed.
+ */
+export const planRoleCounts = (
+  playerCount: number,
+  impostorCount: number,
+  enabledRoles: readonly Role[],
+  rules: RuleSet,
+): Array<{ role: Role; count: number }> => {
+  let seatsLeft = playerCount;
+  return ROLES.filter(
+    (role) =>
+      role !== FILLER_ROLE &&
+      (!ROLE_CATALOGUE[role].optional ||
+        (enabledRoles.includes(role) &&
+          playerCount >= (rules.roleMinPlayers[role] ?? 0))),
+  )
+    .map((role) => {
+      const count = Math.min(
+        Math.max(ROLE_CATALOGUE[role].copies(playerCount, impostorCount), 0),
+        seatsLeft,
+      );
+      seatsLeft -= count;
+      return { role, count };
+    })
+    .filter((entry) => entry.count > 0);
+};
+
+export const compareByRoster = (a: Player, b: Player) =>
+  ROLE_CATALOGUE[a.role].rosterOrder - ROLE_CATALOGUE[b.role].rosterOrder ||
+  a.name.localeCompare(b.name);
@@ -0,0 +1,96 @@
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import type { RuleSet } from "./presets";
+import { ROLE_CATALOGUE, getAlignment } from "./roles";
+import type { Alignment, Outcome, Player, Random, Winner } from "./types";
+
+export const clamp = (value: number, min: number, max: number) =>
+  Math.min(Math.max(value, min), max);
+
+export const getRandomItems = <T>(
+  source: readonly T[],
+  count: number,
+  random: Random,
+): T[] => {
+  if (!source.length || count <= 0) return [];
+  const safeCount = Math.min(count, source.length);
+  const pool = [...source];
+  for (let i = pool.length - 1; i > 0; i -= 1) {
+    const j = Math.floor(random() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+  return pool.slice(0, safeCount);
+};
+
+export const getMaxImpostors = (playerCount: number, rules: RuleSet) =>
+  clamp(
+    Math.floor(playerCount / rules.playersPerImpostor) || 1,
+    1,
+    rules.maxImpostors,
+  );
+
+export const validatePlayerName = (
+  playerList: Player[],
+  name: string,
+): Message | null => {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    return msg("error.nameEmpty");
+  }
+  if (
+    playerList.some(
+      (player) => player.name.toLowerCase() === trimmed.toLowerCase(),
+    )
+  ) {
+    return msg("error.nameTaken");
+  }
+  return null;
+};
+
+export const isCrewSide = (player: Player) => getAlignment(player) === "crew";
+
+export const isImpostorSide = (player: Player) =>
+  getAlignment(player) === "impostor";
+
+export const getAliveCrew = (playerList: Player[]) =>
+  playerList.filter(
+    (player) => player.status === "alive" && isCrewSide(player),
+  );
+
+export const getAliveImpostors = (playerList: Player[]) =>
+  playerList.filter(
+    (player) => player.status === "alive" && isImpostorSide(player),
+  );
+
+/** Ghosts may only work tasks when the rules allow ghost play. */
+export const canWorkTasks = (player: Player, rules: RuleSet) =>
+  player.status === "alive" || rules.ghostTasks;
+
+export const computeCrewTaskTotals = (playerList: Player[], rules: RuleSet) =>
+  playerList.reduce(
+    (acc, player) => {
+      if (!isCrewSide(player) || !canWorkTasks(player, rules)) return acc;
+      player.tasks.forEach((task) => {
+        acc.total += 1;
+        if (task.completed) acc.completed += 1;
+      });
+      return acc;
+    },
+    { total: 0, completed: 0 },
+  );
+
+const WINNER_ALIGNMENTS: Partial<Record<Winner, Alignment>> = {
+  Crewmates: "crew",
+  Impostors: "impostor",
+};
+
+/** Team winners claim their whole alignment; special wins only their role. */
+export const didPlayerWin = (player: Player, outcome: Outcome) =>
+  !!outcome &&
+  outcome.results.some(({ winners }) =>
+    winners.some(
+      (winner) =>
+        WINNER_ALIGNMENTS[winner] === getAlignment(player) ||
+        ROLE_CATALOGUE[player.role].specialWin?.winner === winner,
+    ),
+  );
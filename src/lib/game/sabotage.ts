@@ -0,0 +1,99 @@
+import { isMessageKey } from "@/lib/i18n/translate";
+import type { MessageKey } from "@/lib/i18n/translate";
+import {
+  isArrayOf,
+  isBoolean,
+  isNullable,
+  isNumber,
+  isOneOf,
+  isRecord,
+  isString,
+} from "./guards";
+
+export const SABOTAGE_KINDS = ["reactor", "oxygen", "lights", "comms"] as const;
+export type SabotageKind = (typeof SABOTAGE_KINDS)[number];
+
+export type SabotageDefinition = {
+  /** Critical sabotages lose the round for the crew if the countdown ends. */
+  countdownSeconds: number | null;
+  blocksMeetings: boolean;
+  /** Every fix has to be completed, by anyone still alive, to end it. */
+  fixes: MessageKey[];
+};
+
+export const SABOTAGE_CATALOGUE: Record<SabotageKind, SabotageDefinition> = {
+  reactor: {
+    countdownSeconds: 45,
+    blocksMeetings: true,
+    fixes: ["sabotageFix.reactorUpper", "sabotageFix.reactorLower"],
+  },
+  oxygen: {
+    countdownSeconds: 40,
+    blocksMeetings: true,
+    fixes: ["sabotageFix.oxygenAdmin", "sabotageFix.oxygenGreenhouse"],
+  },
+  lights: {
+    countdownSeconds: null,
+    blocksMeetings: true,
+    fixes: ["sabotageFix.lightsBreakers"],
+  },
+  comms: {
+    countdownSeconds: null,
+    blocksMeetings: false,
+    fixes: ["sabotageFix.commsDish"],
+  },
+};
+
+/** Seconds after a sabotage is fixed before another can be triggered. */
+export const SABOTAGE_COOLDOWN_SECONDS = 30;
+
+export type SabotageFix = {
+  id: string;
+  name: MessageKey;
+  fixed: boolean;
+  /** The player who fixed it, or null when the host ticked it off. */
+  fixedBy: string | null;
+};
+
+export type ActiveSabotage = {
+  kind: SabotageKind;
+  triggeredBy: string | null;
+  startedAt: number;
+  fixes: SabotageFix[];
+};
+
+export const isCriticalSabotage = (kind: SabotageKind) =>
+  SABOTAGE_CATALOGUE[kind].countdownSeconds !== null;
+
+export const createSabotage = (
+  kind: SabotageKind,
+  triggeredBy: string | null,
+  at: number,
+): ActiveSabotage => ({
+  kind,
+  triggeredBy,
+  startedAt: at,
+  fixes: SABOTAGE_CATALOGUE[kind].fixes.map((name, index) => ({
+    id: `${kind}-${index}`,
+    name,
+    fixed: false,
+    fixedBy: null,
+  })),
+});
+
+export const isSabotageFixed = (sabotage: ActiveSabotage) =>
+  sabotage.fixes.every((fix) => fix.fixed);
+
+const isSabotageFix = (value: unknown): value is SabotageFix =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isMessageKey(value.name) &&
+  isBoolean(value.fixed) &&
+  isNullable(isString)(value.fixedBy);
+
+export const isActiveSabotage = (value: unknown): value is ActiveSabotage =>
+  isRecord(value) &&
+  isOneOf(SABOTAGE_KINDS)(value.kind) &&
+  isNullable(isString)(value.triggeredBy) &&
+  isNumber(value.startedAt) &&
+  isArrayOf(isSabotageFix)(value.fixes);
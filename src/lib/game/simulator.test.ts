@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest";
+import { gameReducer, initialGameState } from "./engine";
+import { simulateBalance } from "./simulator";
+import type { SimulationSetup } from "./simulator";
+
+const bigParty = (): SimulationSetup => {
+  const { rules, enabledRoles, deck, tieRule, timerSettings } = gameReducer(
+    initialGameState,
+    { type: "applyPreset", presetId: "bigParty" },
+  );
+  return { rules, enabledRoles, deck, tieRule, timerSettings };
+};
+
+describe("simulateBalance", () => {
+  it("seats a roster larger than the Classic player cap", () => {
+    const cells = simulateBalance({
+      playerCount: 15,
+      setup: bigParty(),
+      impostorCounts: [4, 5],
+      taskCounts: [3],
+      rounds: 20,
+    });
+    expect(cells.map((cell) => cell.impostorCount)).toEqual([4, 5]);
+    expect(cells.every((cell) => cell.rounds === 20)).toBe(true);
+    const [four, five] = cells;
+    expect(four?.impostorWins).not.toBe(five?.impostorWins);
+  });
+
+  it("refuses a roster its rules cannot seat", () => {
+    expect(() =>
+      simulateBalance({
+        playerCount: 16,
+        setup: bigParty(),
+        impostorCounts: [2],
+        taskCounts: [3],
+        rounds: 1,
+      }),
+    ).toThrow("Only 15 of 16 bots could be seated");
+  });
+});
@@ -0,0 +1,268 @@
+import { applyAction, initialGameState } from "./engine";
+import type { GameAction, GameState } from "./engine";
+import { createRng, seedToState } from "./random";
+import type { Rng } from "./random";
+import { ROLE_CATALOGUE } from "./roles";
+import {
+  canWorkTasks,
+  getMaxImpostors,
+  isCrewSide,
+  isImpostorSide,
+} from "./rules";
+import { ROLES } from "./types";
+import { getVoters } from "./voting";
+
+/** How the bots play; every rate is a chance per tick of simulated time. */
+export type BotPolicy = {
+  /** A player with open crew tasks finishes one. */
+  taskRate: number;
+  /** An impostor off cooldown kills someone. */
+  killRate: number;
+  /** Someone calls a meeting. */
+  meetingRate: number;
+  /** A crew ballot names a real impostor instead of a random player. */
+  voteAccuracy: number;
+};
+
+export const DEFAULT_BOT_POLICY: BotPolicy = {
+  taskRate: 0.2,
+  killRate: 0.15,
+  meetingRate: 0.08,
+  voteAccuracy: 0.4,
+};
+
+/** The lobby settings a simulation plays with. */
+export type SimulationSetup = Pick<
+  GameState,
+  "rules" | "enabledRoles" | "deck" | "tieRule" | "timerSettings"
+>;
+
+export type BalanceCell = {
+  impostorCount: number;
+  /** Tasks dealt to each crew-side role. */
+  taskCount: number;
+  /** Rounds that finished; a deck too small for the task count plays none. */
+  rounds: number;
+  crewWins: number;
+  impostorWins: number;
+  /** Draws, Jester wins and rounds that ran out of simulated time. */
+  otherWins: number;
+};
+
+const TICK_MS = 5000;
+const MAX_TICKS = 360;
+
+const pick = <T>(items: readonly T[], rng: Rng): T | undefined =>
+  items[Math.floor(rng.next() * items.length)];
+
+const buildLobby = (
+  playerCount: number,
+  setup: SimulationSetup,
+  impostorCount: number,
+  taskCount: number,
+): GameState => {
+  const seated = Array.from({ length: playerCount }).reduce<GameState>(
+    (state, _, index) =>
+      applyAction(state, {
+        type: "addPlayer",
+        id: `bot-${index + 1}`,
+        name: `Bot ${index + 1}`,
+      }),
+    // Seat under the table's own rules, or a big roster is capped by Classic's.
+    { ...initialGameState, ...setup },
+  );
+  if (seated.players.length !== playerCount) {
+    throw new Error(
+      `Only ${seated.players.length} of ${playerCount} bots could be seated`,
+    );
+  }
+  return {
+    ...seated,
+    impostorCount,
+    deck: {
+      ...setup.deck,
+      taskCounts: Object.fromEntries(
+        ROLES.map((role) => [
+          role,
+          ROLE_CATALOGUE[role].alignment === "crew"
+            ? taskCount
+            : setup.deck.taskCounts[role],
+        ]),
+      ) as GameState["deck"]["taskCounts"],
+    },
+    // Bots settle a meeting at once, so only the mission clock keeps time.
+    timerSettings: {
+      ...setup.timerSettings,
+      discussionSeconds: 0,
+      votingSeconds: 0,
+    },
+  };
+};
+
+/** Every bot votes once; crew bots find an impostor `voteAccuracy` of the time. */
+const holdVote = (
+  state: GameState,
+  rng: Rng,
+  policy: BotPolicy,
+  at: number,
+): GameState => {
+  let next = state;
+  const voters = getVoters(next.players);
+  const runoff = next.meeting?.runoff ?? null;
+  const candidates = voters.filter(
+    (player) => !runoff || runoff.includes(player.id),
+  );
+  for (const voter of voters) {
+    const others = candidates.filter((player) => player.id !== voter.id);
+    const impostors = others.filter(isImpostorSide);
+    const target = isImpostorSide(voter)
+      ? pick(
+          others.filter((player) => !isImpostorSide(player)),
+          rng,
+        )
+      : impostors.length && rng.next() < policy.voteAccuracy
+        ? pick(impostors, rng)
+        : pick(others, rng);
+    if (target) {
+      next = applyAction(next, {
+        type: "castVote",
+        voterId: voter.id,
+        targetId: target.id,
+      });
+    }
+  }
+  return applyAction(next, { type: "closeVoting", at });
+};
+
+const playTick = (
+  state: GameState,
+  rng: Rng,
+  policy: BotPolicy,
+  at: number,
+): GameState => {
+  let next = applyAction(state, { type: "expireTimers", at });
+  const apply = (action: GameAction) => {
+    if (next.phase === "mission") next = applyAction(next, action);
+  };
+  for (const player of next.players) {
+    const task = player.tasks.find((entry) => !entry.completed);
+    if (
+      task &&
+      isCrewSide(player) &&
+      canWorkTasks(player, next.rules) &&
+      rng.next() < policy.taskRate
+    ) {
+      apply({ type: "toggleTask", playerId: player.id, taskId: task.id, at });
+    }
+  }
+  for (const killer of getVoters(next.players).filter(isImpostorSide)) {
+    const victim = pick(
+      getVoters(next.players).filter((player) => !isImpostorSide(player)),
+      rng,
+    );
+    if (victim && rng.next() < policy.killRate) {
+      apply({
+        type: "killPlayer",
+        killerId: killer.id,
+        victimId: victim.id,
+        at,
+      });
+    }
+  }
+  if (next.phase === "mission" && rng.next() < policy.meetingRate) {
+    next = applyAction(next, { type: "callMeeting", at });
+    // A tie under the revote rule calls one runoff.
+    for (let ballot = 0; ballot < 2 && next.phase === "meeting"; ballot += 1) {
+      next = holdVote(next, rng, policy, at);
+    }
+    if (next.phase === "meeting") {
+      next = applyAction(next, { type: "skipVote", at });
+    }
+  }
+  return next;
+};
+
+type RoundResult = "crew" | "impostor" | "other";
+
+const playRound = (
+  lobby: GameState,
+  seed: string,
+  policy: BotPolicy,
+): RoundResult | null => {
+  const rng = createRng(seedToState(`${seed}:bots`));
+  let state = applyAction(lobby, { type: "startRound", at: 0, seed });
+  if (state.phase !== "reveal") return null;
+  state = applyAction(state, { type: "skipReveal", at: 0 });
+  for (let tick = 1; tick <= MAX_TICKS && state.outcome === null; tick += 1) {
+    state = playTick(state, rng, policy, tick * TICK_MS);
+  }
+  const winners = state.outcome?.results.flatMap((result) => result.winners);
+  if (winners?.includes("Crewmates")) return "crew";
+  if (winners?.includes("Impostors")) return "impostor";
+  return "other";
+};
+
+/**
+ * Plays `rounds` bot rounds for every impostor count and crew task count,
+ * through the real reducer, so dealing and win conditions match the table.
+ * Nobody watches a bot round back, so no replay frames are recorded.
+ * Seeds are fixed, so the same inputs always give the same report. Counts
+ * the roster cannot seat are left out.
+ */
+export const simulateBalance = ({
+  playerCount,
+  setup,
+  impostorCounts,
+  taskCounts,
+  rounds,
+  policy = DEFAULT_BOT_POLICY,
+}: {
+  playerCount: number;
+  setup: SimulationSetup;
+  impostorCounts: readonly number[];
+  taskCounts: readonly number[];
+  rounds: number;
+  policy?: BotPolicy;
+}): BalanceCell[] =>
+  impostorCounts
+    .filter((count) => count <= getMaxImpostors(playerCount, setup.rules))
+    .flatMap((impostorCount) =>
+      taskCounts.map((taskCount) => {
+        const lobby = buildLobby(playerCount, setup, impostorCount, taskCount);
+        const cell: BalanceCell = {
+          impostorCount,
+          taskCount,
+          rounds: 0,
+          crewWins: 0,
+          impostorWins: 0,
+          otherWins: 0,
+        };
+        for (let round = 0; round < rounds; round += 1) {
+          const result = playRound(lobby, `sim-${round}`, policy);
+          if (!result) break;
+          cell.rounds += 1;
+          if (result === "crew") cell.crewWins += 1;
+          else if (result === "impostor") cell.impostorWins += 1;
+          else cell.otherWins += 1;
+        }
+        return cell;
+      }),
+    );
+
+export const getWinRate = (wins: number, cell: BalanceCell) =>
+  cell.rounds ? wins / cell.rounds : 0;
+
+/** The cell closest to an even split, preferring fewer impostors on a tie. */
+export const recommendImpostorCount = (
+  cells: readonly BalanceCell[],
+): BalanceCell | null =>
+  cells
+    .filter((cell) => cell.rounds > 0)
+    .reduce<BalanceCell | null>((best, cell) => {
+      const gap = (entry: BalanceCell) =>
+        Math.abs(
+          getWinRate(entry.crewWins, entry) -
+            getWinRate(entry.impostorWins, entry),
+        );
+      return !best || gap(cell) < gap(best) ? cell : best;
+    }, null);
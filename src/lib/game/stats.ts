@@ -0,0 +1,250 @@
+import { msg, toDefaultText } from "@/lib/i18n/translate";
+import type { GameState } from "./engine";
+import {
+  isArrayOf,
+  isBoolean,
+  isNullable,
+  isNumber,
+  isOneOf,
+  isRecord,
+  isString,
+} from "./guards";
+import { getAlignment } from "./roles";
+import { didPlayerWin, isImpostorSide } from "./rules";
+import { ALIGNMENTS, ROLES, WINNERS } from "./types";
+import type { Alignment, Role, Winner } from "./types";
+
+export type RoundPlayerRecord = {
+  name: string;
+  role: Role;
+  alignment: Alignment;
+  won: boolean;
+  survived: boolean;
+  ejected: boolean;
+  tasksCompleted: number;
+  tasksTotal: number;
+  /** Ejections this player voted for, and how many of them removed an impostor. */
+  ejectionVotes: number;
+  correctEjectionVotes: number;
+};
+
+export type RoundRecord = {
+  id: string;
+  startedAt: number;
+  endedAt: number;
+  seed: string | null;
+  /** Every party that won; empty for a draw. */
+  winners: Winner[];
+  /** Kept in English so archived rounds read the same in any locale. */
+  reason: string;
+  players: RoundPlayerRecord[];
+  /** Names in the order they left the round. */
+  ejections: string[];
+  eliminations: string[];
+};
+
+export type RoleRecord = { played: number; won: number };
+
+export type LeaderboardRow = {
+  name: string;
+  rounds: number;
+  wins: number;
+  byRole: Partial<Record<Role, RoleRecord>>;
+  impostorRounds: number;
+  impostorSurvivals: number;
+  ejectionVotes: number;
+  correctEjectionVotes: number;
+};
+
+/** Snapshot of a finished round, or null while the round is still undecided. */
+export const buildRoundRecord = (
+  state: GameState,
+  endedAt: number,
+): RoundRecord | null => {
+  const { outcome, players, ejections, roundStartedAt } = state;
+  if (state.phase !== "ended" || !outcome || roundStartedAt === null) {
+    return null;
+  }
+  const nameOf = (playerId: string) =>
+    players.find((player) => player.id === playerId)?.name ??
+    toDefaultText(msg("leaderboard.unknownPlayer"));
+  const ejectedIds = new Set(ejections.map((entry) => entry.playerId));
+  const impostorIds = new Set(
+    players.filter(isImpostorSide).map((player) => player.id),
+  );
+  return {
+    id: `${roundStartedAt}-${state.seed ?? "unseeded"}`,
+    startedAt: roundStartedAt,
+    endedAt,
+    seed: state.seed,
+    winners: [...new Set(outcome.results.flatMap((result) => result.winners))],
+    reason: outcome.results
+      .map((result) => toDefaultText(result.reason))
+      .join(" · "),
+    players: players.map((player) => {
+      const backed = ejections.filter((entry) =>
+        entry.voterIds.includes(player.id),
+      );
+      return {
+        name: player.name,
+        role: player.role,
+        alignment: getAlignment(player),
+        won: didPlayerWin(player, outcome),
+        survived: player.status === "alive",
+        ejected: ejectedIds.has(player.id),
+        tasksCompleted: player.tasks.filter((task) => task.completed).length,
+        tasksTotal: player.tasks.length,
+        ejectionVotes: backed.length,
+        correctEjectionVotes: backed.filter((entry) =>
+          impostorIds.has(entry.playerId),
+        ).length,
+      };
+    }),
+    ejections: ejections.map((entry) => nameOf(entry.playerId)),
+    eliminations: players
+      .filter(
+        (player) => player.status === "eliminated" && !ejectedIds.has(player.id),
+      )
+      .map((player) => player.name),
+  };
+};
+
+const isCount = (value: unknown): value is number =>
+  isNumber(value) && Number.isInteger(value) && value >= 0;
+
+const isRoundPlayerRecord = (value: unknown): value is RoundPlayerRecord =>
+  isRecord(value) &&
+  isString(value.name) &&
+  isOneOf(ROLES)(value.role) &&
+  isOneOf(ALIGNMENTS)(value.alignment) &&
+  isBoolean(value.won) &&
+  isBoolean(value.survived) &&
+  isBoolean(value.ejected) &&
+  isCount(value.tasksCompleted) &&
+  isCount(value.tasksTotal) &&
+  isCount(value.ejectionVotes) &&
+  isCount(value.correctEjectionVotes);
+
+export const isRoundRecord = (value: unknown): value is RoundRecord =>
+  isRecord(value) &&
+  isString(value.id) &&
+  isNumber(value.startedAt) &&
+  isNumber(value.endedAt) &&
+  isNullable(isString)(value.seed) &&
+  isArrayOf(isOneOf(WINNERS))(value.winners) &&
+  isString(value.reason) &&
+  isArrayOf(isRoundPlayerRecord)(value.players) &&
+  isArrayOf(isString)(value.ejections) &&
+  isArrayOf(isString)(value.eliminations);
+
+/** Rounds recorded before shared wins kept a single `winner`. */
+export const upgradeRoundRecord = (value: unknown): unknown => {
+  if (!isRecord(value) || "winners" in value) return value;
+  const { winner, ...rest } = value;
+  return { ...rest, winners: [winner] };
+};
+
+/** Players are matched across rounds by name, ignoring case. */
+export const computeLeaderboard = (
+  records: readonly RoundRecord[],
+): LeaderboardRow[] => {
+  const rows = new Map<string, LeaderboardRow>();
+  records.forEach((record) => {
+    record.players.forEach((entry) => {
+      const key = entry.name.toLowerCase();
+      const row = rows.get(key) ?? {
+        name: entry.name,
+        rounds: 0,
+        wins: 0,
+        byRole: {},
+        impostorRounds: 0,
+        impostorSurvivals: 0,
+        ejectionVotes: 0,
+        correctEjectionVotes: 0,
+      };
+      const roleRecord = row.byRole[entry.role] ?? { played: 0, won: 0 };
+      const impostor = entry.alignment === "impostor";
+      rows.set(key, {
+        ...row,
+        rounds: row.rounds + 1,
+        wins: row.wins + (entry.won ? 1 : 0),
+        byRole: {
+          ...row.byRole,
+          [entry.role]: {
+            played: roleRecord.played + 1,
+            won: roleRecord.won + (entry.won ? 1 : 0),
+          },
+        },
+        impostorRounds: row.impostorRounds + (impostor ? 1 : 0),
+        impostorSurvivals:
+          row.impostorSurvivals + (impostor && entry.survived ? 1 : 0),
+        ejectionVotes: row.ejectionVotes + entry.ejectionVotes,
+        correctEjectionVotes:
+          row.correctEjectionVotes + entry.correctEjectionVotes,
+      });
+    });
+  });
+  return [...rows.values()].sort(
+    (a, b) =>
+      b.wins / b.rounds - a.wins / a.rounds ||
+      b.rounds - a.rounds ||
+      a.name.localeCompare(b.name),
+  );
+};
+
+export const formatRate = (numerator: number, denominator: number) =>
+  denominator === 0 ? "—" : `${Math.round((numerator / denominator) * 100)}%`;
+
+const CSV_COLUMNS = [
+  "round_id",
+  "started_at",
+  "ended_at",
+  "seed",
+  "winners",
+  "reason",
+  "player",
+  "role",
+  "alignment",
+  "won",
+  "survived",
+  "ejected",
+  "tasks_completed",
+  "tasks_total",
+  "ejection_votes",
+  "correct_ejection_votes",
+] as const;
+
+const escapeCsv = (value: string | number | boolean | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per player per round, so spreadsheets can pivot however they like. */
+export const roundsToCsv = (records: readonly RoundRecord[]) =>
+  [
+    CSV_COLUMNS.join(","),
+    ...records.flatMap((record) =>
+      record.players.map((entry) =>
+        [
+          record.id,
+          new Date(record.startedAt).toISOString(),
+          new Date(record.endedAt).toISOString(),
+          record.seed,
+          record.winners.join(" + ") || "Draw",
+          record.reason,
+          entry.name,
+          entry.role,
+          entry.alignment,
+          entry.won,
+          entry.survived,
+          entry.ejected,
+          entry.tasksCompleted,
+          entry.tasksTotal,
+          entry.ejectionVotes,
+          entry.correctEjectionVotes,
+        ]
+          .map(escapeCsv)
+          .join(","),
+      ),
+    ),
+  ].join("\n");
@@ -0,0 +1,42 @@
+import { isArrayOf } from "./guards";
+import { isRoundRecord, upgradeRoundRecord } from "./stats";
+import type { RoundRecord } from "./stats";
+import { createStoredValue } from "./storedValue";
+
+const STATS_STORAGE_KEY = "imposter-relay:stats";
+
+export const EMPTY_ROUND_HISTORY: RoundRecord[] = [];
+
+const roundHistory = createStoredValue(
+  STATS_STORAGE_KEY,
+  isArrayOf(isRoundRecord),
+  EMPTY_ROUND_HISTORY,
+  (stored) => (Array.isArray(stored) ? stored.map(upgradeRoundRecord) : stored),
+);
+
+export const subscribeToRoundHistory = roundHistory.subscribe;
+
+/** Finished rounds for useSyncExternalStore, oldest first. */
+export const readRoundHistory = roundHistory.read;
+
+const sameResult = (a: RoundRecord, b: RoundRecord) =>
+  JSON.stringify({ ...a, endedAt: 0 }) === JSON.stringify({ ...b, endedAt: 0 });
+
+/**
+ * Records a round once. If an undo changed how the round ended, the new result
+ * replaces the old one instead of being counted twice.
+ */
+export const recordRound = (record: RoundRecord) => {
+  const history = readRoundHistory();
+  const existing = history.find((entry) => entry.id === record.id);
+  if (existing && sameResult(existing, record)) return;
+  roundHistory.write(
+    existing
+      ? history.map((entry) => (entry.id === record.id ? record : entry))
+      : [...history, record],
+  );
+};
+
+export const clearRoundHistory = () => {
+  roundHistory.write(EMPTY_ROUND_HISTORY);
+};
@@ -0,0 +1,71 @@
+/** A JSON value kept in localStorage and read through useSyncExternalStore. */
+export type StoredValue<T> = {
+  subscribe: (listener: () => void) => () => void;
+  /** Stable until the stored text changes; `fallback` when missing or invalid. */
+  read: () => T;
+  write: (value: T) => void;
+  clear: () => void;
+};
+
+export const createStoredValue = <T>(
+  key: string,
+  guard: (value: unknown) => value is T,
+  fallback: T,
+  /** Brings older stored shapes up to date before the guard checks them. */
+  upgrade: (stored: unknown) => unknown = (stored) => stored,
+): StoredValue<T> => {
+  const listeners = new Set<() => void>();
+  let cachedRaw: string | null = null;
+  let cached = fallback;
+
+  const notify = () => listeners.forEach((listener) => listener());
+
+  return {
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    read: () => {
+      let raw: string | null;
+      try {
+        raw = window.localStorage.getItem(key);
+      } catch {
+        return cached;
+      }
+      if (raw === cachedRaw) return cached;
+      cachedRaw = raw;
+      try {
+        const parsed = upgrade(raw === null ? null : JSON.parse(raw));
+        cached = guard(parsed) ? parsed : fallback;
+      } catch {
+        cached = fallback;
+      }
+      return cached;
+    },
+
+    write: (value) => {
+      try {
+        window.localStorage.setItem(key, JSON.stringify(value));
+      } catch {
+        // Without storage the value lives in memory until the tab closes.
+        cachedRaw = null;
+        cached = value;
+      }
+      notify();
+    },
+
+    clear: () => {
+      try {
+        window.localStorage.removeItem(key);
+      } catch {
+        // Nothing stored to clear.
+      }
+      cachedRaw = null;
+      cached = fallback;
+      notify();
+    },
+  };
+};
@@ -0,0 +1,40 @@
+import { gameReducer, initialGameState } from "./engine";
+import type { GameAction, GameState } from "./engine";
+import type { Player } from "./types";
+
+// Shared fixtures for the reducer tests.
+
+export const play = (state: GameState, ...actions: GameAction[]) =>
+  actions.reduce(gameReducer, state);
+
+/** A lobby seating players `p1`…`pN`, on top of `state` if given. */
+export const seatLobby = (count: number, state = initialGameState) =>
+  play(
+    state,
+    ...Array.from({ length: count }, (_, index) => ({
+      type: "addPlayer" as const,
+      id: `p${index + 1}`,
+      name: `Player ${index + 1}`,
+    })),
+  );
+
+/** Deals the lobby with a fixed seed and skips straight to the mission. */
+export const startMission = (lobby: GameState, seed: string) =>
+  play(
+    lobby,
+    { type: "startRound", at: 1_000, seed },
+    { type: "skipReveal", at: 2_000 },
+  );
+
+/** A dealt, living player with no tasks, for evaluating rules directly. */
+export const makePlayer = (id: string, role: Player["role"]): Player => ({
+  id,
+  name: id,
+  role,
+  tasks: [],
+  status: "alive",
+  cause: null,
+  cardSeen: true,
+  pin: null,
+  location: null,
+});
@@ -0,0 +1,106 @@
+import { isArrayOf, isNullable, isNumber, isOneOf, isRecord } from "./guards";
+
+export const TIMER_KINDS = [
+  "discussion",
+  "voting",
+  "mission",
+  "prompt",
+  "sabotage",
+] as const;
+export type TimerKind = (typeof TIMER_KINDS)[number];
+
+/** A running timer has an `endsAt`; a paused one keeps what was left. */
+export type Timer = {
+  kind: TimerKind;
+  endsAt: number;
+  pausedRemaining: number | null;
+};
+
+/** Zero switches a timer off. */
+export type TimerSettings = {
+  discussionSeconds: number;
+  votingSeconds: number;
+  missionMinutes: number;
+};
+
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = {
+  discussionSeconds: 90,
+  votingSeconds: 45,
+  missionMinutes: 0,
+};
+
+export const TIMER_SETTING_LIMITS: Record<keyof TimerSettings, number> = {
+  discussionSeconds: 600,
+  votingSeconds: 300,
+  missionMinutes: 60,
+};
+
+export const findTimer = (timers: readonly Timer[], kind: TimerKind) =>
+  timers.find((timer) => timer.kind === kind) ?? null;
+
+export const startTimer = (
+  timers: readonly Timer[],
+  kind: TimerKind,
+  at: number,
+  durationMs: number,
+): Timer[] => [
+  ...timers.filter((timer) => timer.kind !== kind),
+  { kind, endsAt: at + durationMs, pausedRemaining: null },
+];
+
+export const stopTimers = (
+  timers: readonly Timer[],
+  kinds: readonly TimerKind[],
+) => timers.filter((timer) => !kinds.includes(timer.kind));
+
+export const getRemainingMs = (timer: Timer, at: number) =>
+  Math.max(timer.pausedRemaining ?? timer.endsAt - at, 0);
+
+export const togglePause = (timer: Timer, at: number): Timer =>
+  timer.pausedRemaining === null
+    ? { ...timer, pausedRemaining: getRemainingMs(timer, at) }
+    : { ...timer, endsAt: at + timer.pausedRemaining, pausedRemaining: null };
+
+/** Running timers that have run out by `at`, soonest first. */
+export const getExpiredTimers = (timers: readonly Timer[], at: number) =>
+  timers
+    .filter((timer) => timer.pausedRemaining === null && timer.endsAt <= at)
+    .sort((a, b) => a.endsAt - b.endsAt);
+
+export const formatCountdown = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+/**
+ * Reads a time limit such as "within 30 seconds", "in 2 minutes" or the
+ * Spanish "en 2 minutos" from a card.
+ */
+export const parsePromptSeconds = (text: string): number | null => {
+  const match =
+    /\b(\d+|an?|one|next|una?|próximo)\s*(second|sec|segundo|minute|minuto|min)s?\b/i.exec(
+      text,
+    );
+  if (!match) return null;
+  const amount = /^\d+$/.test(match[1]) ? Number.parseInt(match[1], 10) : 1;
+  const seconds = match[2].toLowerCase().startsWith("min")
+    ? amount * 60
+    : amount;
+  return seconds > 0 ? seconds : null;
+};
+
+export const isTimer = (value: unknown): value is Timer =>
+  isRecord(value) &&
+  isOneOf(TIMER_KINDS)(value.kind) &&
+  isNumber(value.endsAt) &&
+  isNullable(isNumber)(value.pausedRemaining);
+
+export const isTimerList = isArrayOf(isTimer);
+
+export const isTimerSettings = (value: unknown): value is TimerSettings =>
+  isRecord(value) &&
+  (Object.keys(TIMER_SETTING_LIMITS) as Array<keyof TimerSettings>).every(
+    (key) => isNumber(value[key]) && value[key] >= 0,
+  );
@@ -0,0 +1,117 @@
+import type { Message } from "@/lib/i18n/translate";
+import type { RoomId } from "./map";
+
+export const PHASES = [
+  "lobby",
+  "reveal",
+  "mission",
+  "meeting",
+  "ended",
+] as const;
+export const ROLES = [
+  "Crewmate",
+  "Impostor",
+  "Analyst",
+  "Sheriff",
+  "Engineer",
+  "Jester",
+] as const;
+export const ALIGNMENTS = ["crew", "impostor", "neutral"] as const;
+export const WINNERS = ["Crewmates", "Impostors", "Jester"] as const;
+export const TASK_KINDS = ["crew", "impostor", "support", "neutral"] as const;
+export const TIE_RULES = ["noEjection", "revote", "random"] as const;
+export const ELIMINATION_CAUSES = [
+  "killed",
+  "ejected",
+  "host",
+  "sheriff",
+] as const;
+export const WIN_CONDITION_IDS = [
+  "specialWin",
+  "hostDraw",
+  "tableResult",
+  "sabotage",
+  "missionClock",
+  "impostorsNeutralized",
+  "impostorsAhead",
+  "tasksDone",
+] as const;
+
+export type Phase = (typeof PHASES)[number];
+export type Role = (typeof ROLES)[number];
+export type Alignment = (typeof ALIGNMENTS)[number];
+export type Winner = (typeof WINNERS)[number];
+export type TaskKind = (typeof TASK_KINDS)[number];
+export type TieRule = (typeof TIE_RULES)[number];
+export type EliminationCause = (typeof ELIMINATION_CAUSES)[number];
+export type WinConditionId = (typeof WIN_CONDITION_IDS)[number];
+
+export type Task = {
+  id: string;
+  name: string;
+  kind: TaskKind;
+  /** Where on the ship the task is done; null for tasks that go anywhere. */
+  room: RoomId | null;
+  completed: boolean;
+};
+
+export type Player = {
+  id: string;
+  name: string;
+  role: Role;
+  tasks: Task[];
+  status: "alive" | "eliminated";
+  /** How an eliminated player left the round; null while they are alive. */
+  cause: EliminationCause | null;
+  cardSeen: boolean;
+  /** Set during the reveal so the player can re-check their card later. */
+  pin: string | null;
+  /** The room the player was last marked in during the mission. */
+  location: RoomId | null;
+};
+
+/** One win condition that fired; a draw has no winners. */
+export type OutcomeResult = {
+  conditionId: WinConditionId;
+  winners: Winner[];
+  reason: Message;
+};
+
+/** What the host copies back from a round played on printed cards. */
+export type TableResults = {
+  eliminatedIds: string[];
+  completedTaskIds: string[];
+  /** The winners the table agreed on, or null to let the win conditions decide. */
+  winners: Winner[] | null;
+};
+
+export type Outcome =
+  | {
+      at: number;
+      results: OutcomeResult[];
+    }
+  | null;
+
+/**
+ * Ballots map a voter's id to a suspect's id or `SKIP_VOTE`. A runoff limits
+ * the suspects to the players who tied in the previous count.
+ */
+export type MeetingState = {
+  ballots: Record<string, string>;
+  runoff: string[] | null;
+};
+
+/** A meeting ejection and the voters whose ballots named the ejected player. */
+export type Ejection = {
+  playerId: string;
+  voterIds: string[];
+};
+
+/** The ballots of one closed vote, kept for the round's vote history. */
+export type VoteRecord = {
+  at: number;
+  runoff: boolean;
+  ballots: Record<string, string>;
+};
+
+export type Random = () => number;
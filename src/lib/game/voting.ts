@@ -0,0 +1,74 @@
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import type { MeetingState, Player } from "./types";
+
+export const SKIP_VOTE = "skip";
+
+export type Tally = {
+  /** Every option that drew at least one vote, most votes first. */
+  counts: Array<{ targetId: string; votes: number }>;
+  leaders: string[];
+  abstained: number;
+};
+
+export const getVoters = (playerList: Player[]) =>
+  playerList.filter((player) => player.status === "alive");
+
+export const isValidBallot = (
+  meeting: MeetingState,
+  playerList: Player[],
+  voterId: string,
+  targetId: string,
+) => {
+  const voters = getVoters(playerList);
+  if (!voters.some((player) => player.id === voterId)) return false;
+  if (targetId === SKIP_VOTE) return true;
+  if (meeting.runoff && !meeting.runoff.includes(targetId)) return false;
+  return voters.some((player) => player.id === targetId);
+};
+
+export const tallyBallots = (
+  meeting: MeetingState,
+  playerList: Player[],
+): Tally => {
+  const voters = getVoters(playerList);
+  const totals = new Map<string, number>();
+  let abstained = 0;
+  voters.forEach((voter) => {
+    const targetId = meeting.ballots[voter.id];
+    if (!targetId) {
+      abstained += 1;
+      return;
+    }
+    totals.set(targetId, (totals.get(targetId) ?? 0) + 1);
+  });
+  const counts = [...totals.entries()]
+    .map(([targetId, votes]) => ({ targetId, votes }))
+    .sort((a, b) => b.votes - a.votes);
+  const topVotes = counts[0]?.votes ?? 0;
+  return {
+    counts,
+    leaders: counts
+      .filter((entry) => entry.votes === topVotes)
+      .map((entry) => entry.targetId),
+    abstained,
+  };
+};
+
+export const describeTally = (
+  tally: Tally,
+  playerList: Player[],
+): Message[] => {
+  const nameOf = (targetId: string) =>
+    targetId === SKIP_VOTE
+      ? msg("tally.skip")
+      : (playerList.find((player) => player.id === targetId)?.name ??
+        msg("tally.unknown"));
+  const parts = tally.counts.map((entry) =>
+    msg("tally.votes", { name: nameOf(entry.targetId), votes: entry.votes }),
+  );
+  if (tally.abstained) {
+    parts.push(msg("tally.abstained", { count: tally.abstained }));
+  }
+  return parts.length ? parts : [msg("tally.none")];
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { msg } from "@/lib/i18n/translate";
+import { CLASSIC_RULES } from "./presets";
+import { didPlayerWin } from "./rules";
+import { makePlayer, play, seatLobby, startMission } from "./testing";
+import { evaluateOutcome } from "./winConditions";
+import type { Player } from "./types";
+import type { WinCondition } from "./winConditions";
+
+describe("evaluateOutcome", () => {
+  it("shares the result between conditions firing at the same priority", () => {
+    const conditions: WinCondition[] = [
+      {
+        id: "tasksDone",
+        priority: 10,
+        evaluate: () => ({
+          winners: ["Crewmates"],
+          reason: msg("outcome.tasksDone"),
+        }),
+      },
+      {
+        id: "specialWin",
+        priority: 10,
+        evaluate: () => ({
+          winners: ["Jester"],
+          reason: msg("outcome.hostDraw"),
+        }),
+      },
+      {
+        id: "missionClock",
+        priority: 5,
+        evaluate: () => ({
+          winners: ["Impostors"],
+          reason: msg("outcome.missionClock"),
+        }),
+      },
+    ];
+    const results = evaluateOutcome(
+      { players: [makePlayer("a", "Crewmate")], rules: CLASSIC_RULES },
+      conditions,
+    );
+    expect(results.map((result) => result.conditionId)).toEqual([
+      "tasksDone",
+      "specialWin",
+    ]);
+  });
+});
+
+describe("impostorsAhead", () => {
+  const eliminated = (player: Player): Player => ({
+    ...player,
+    status: "eliminated",
+    cause: "ejected",
+  });
+
+  it("gives the impostors nothing once none of them are alive", () => {
+    const crewmate = eliminated(makePlayer("c", "Crewmate"));
+    const impostor = eliminated(makePlayer("i", "Impostor"));
+    const winners = (players: Player[]) =>
+      evaluateOutcome({ players, rules: CLASSIC_RULES }).flatMap(
+        (result) => result.winners,
+      );
+    expect(winners([crewmate, impostor, makePlayer("j", "Jester")])).toEqual(
+      [],
+    );
+    expect(winners([crewmate, impostor])).toEqual([]);
+  });
+});
+
+describe("table results", () => {
+  it("records a shared win the host picked", () => {
+    const mission = startMission(seatLobby(5), "shared");
+    const ended = play(mission, {
+      type: "enterResults",
+      results: {
+        eliminatedIds: [],
+        completedTaskIds: [],
+        winners: ["Crewmates", "Jester"],
+      },
+      at: 3_000,
+    });
+    expect(ended.phase).toBe("ended");
+    expect(ended.outcome?.results).toEqual([
+      expect.objectContaining({
+        conditionId: "tableResult",
+        winners: ["Crewmates", "Jester"],
+      }),
+    ]);
+    const { outcome } = ended;
+    expect(didPlayerWin(makePlayer("c", "Crewmate"), outcome)).toBe(true);
+    expect(didPlayerWin(makePlayer("j", "Jester"), outcome)).toBe(true);
+    expect(didPlayerWin(makePlayer("i", "Impostor"), outcome)).toBe(false);
+  });
+});
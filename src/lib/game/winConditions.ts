@@ -0,0 +1,153 @@
+import { msg } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import type { RuleSet } from "./presets";
+import { ROLE_CATALOGUE } from "./roles";
+import {
+  computeCrewTaskTotals,
+  getAliveCrew,
+  getAliveImpostors,
+  isImpostorSide,
+} from "./rules";
+import type { SabotageKind } from "./sabotage";
+import type { OutcomeResult, Player, WinConditionId, Winner } from "./types";
+
+export type OutcomeContext = {
+  /** The player a meeting vote just ejected, if any. */
+  ejectedId?: string;
+  /** The mission clock just ran out. */
+  missionClockExpired?: boolean;
+  /** A critical sabotage whose countdown just ran out. */
+  meltdown?: SabotageKind;
+  /** The host called the round a draw. */
+  hostDraw?: boolean;
+  /** Winners the host entered from a round played on paper. */
+  tableWinners?: Winner[];
+};
+
+export type WinContext = OutcomeContext & {
+  players: Player[];
+  rules: RuleSet;
+};
+
+export type WinCondition = {
+  id: WinConditionId;
+  /**
+   * Higher priorities are checked first. Every condition that fires at the
+   * highest priority that fires at all shares the result.
+   */
+  priority: number;
+  evaluate: (
+    context: WinContext,
+  ) => { winners: Winner[]; reason: Message } | null;
+};
+
+export const WIN_CONDITIONS: readonly WinCondition[] = [
+  {
+    id: "specialWin",
+    priority: 100,
+    evaluate: ({ players, ejectedId }) => {
+      const ejected = players.find((player) => player.id === ejectedId);
+      const specialWin = ejected && ROLE_CATALOGUE[ejected.role].specialWin;
+      if (!ejected || specialWin?.trigger !== "ejected") return null;
+      return {
+        winners: [specialWin.winner],
+        reason: specialWin.reason(ejected),
+      };
+    },
+  },
+  {
+    id: "tableResult",
+    priority: 95,
+    evaluate: ({ tableWinners }) =>
+      tableWinners
+        ? { winners: tableWinners, reason: msg("outcome.tableResult") }
+        : null,
+  },
+  {
+    id: "hostDraw",
+    priority: 90,
+    evaluate: ({ hostDraw }) =>
+      hostDraw ? { winners: [], reason: msg("outcome.hostDraw") } : null,
+  },
+  {
+    id: "sabotage",
+    priority: 80,
+    evaluate: ({ meltdown }) =>
+      meltdown
+        ? {
+            winners: ["Impostors"],
+            reason: msg("outcome.sabotage", {
+              sabotage: msg(`sabotage.${meltdown}`),
+            }),
+          }
+        : null,
+  },
+  {
+    id: "missionClock",
+    priority: 70,
+    evaluate: ({ missionClockExpired }) =>
+      missionClockExpired
+        ? { winners: ["Impostors"], reason: msg("outcome.missionClock") }
+        : null,
+  },
+  {
+    id: "impostorsNeutralized",
+    priority: 50,
+    evaluate: ({ players }) =>
+      getAliveImpostors(players).length === 0 &&
+      getAliveCrew(players).length > 0
+        ? {
+            winners: ["Crewmates"],
+            reason: msg("outcome.impostorsNeutralized"),
+          }
+        : null,
+  },
+  {
+    id: "impostorsAhead",
+    priority: 50,
+    evaluate: ({ players, rules }) => {
+      const aliveCrew = getAliveCrew(players).length;
+      const aliveImpostors = getAliveImpostors(players).length;
+      // Neutral roles still count as bodies the impostors have to outnumber.
+      const aliveOthers = players.filter(
+        (player) => player.status === "alive" && !isImpostorSide(player),
+      ).length;
+      const impostorsAhead = rules.impostorsWinAtParity
+        ? aliveImpostors >= aliveOthers
+        : aliveImpostors > aliveOthers;
+      if (!aliveImpostors || (aliveCrew > 0 && !impostorsAhead)) return null;
+      return {
+        winners: ["Impostors"],
+        reason: msg(
+          rules.impostorsWinAtParity ? "outcome.parity" : "outcome.outnumbered",
+        ),
+      };
+    },
+  },
+  {
+    id: "tasksDone",
+    priority: 40,
+    evaluate: ({ players, rules }) => {
+      const totals = computeCrewTaskTotals(players, rules);
+      return totals.total > 0 && totals.completed === totals.total
+        ? { winners: ["Crewmates"], reason: msg("outcome.tasksDone") }
+        : null;
+    },
+  },
+];
+
+/** Every result at the highest priority that fired; empty while undecided. */
+export const evaluateOutcome = (
+  context: WinContext,
+  conditions: readonly WinCondition[] = WIN_CONDITIONS,
+): OutcomeResult[] => {
+  if (!context.players.length) return [];
+  const fired = conditions.flatMap((condition) => {
+    const result = condition.evaluate(context);
+    return result ? [{ condition, result }] : [];
+  });
+  const top = Math.max(...fired.map(({ condition }) => condition.priority));
+  return fired
+    .filter(({ condition }) => condition.priority === top)
+    .map(({ condition, result }) => ({ conditionId: condition.id, ...result }));
+};
@@ -0,0 +1,43 @@
+import { DEFAULT_LOCALE, LOCALE_COOKIE } from "./locales";
+import type { Locale } from "./locales";
+import { isLocale } from "./translate";
+
+const LOCALE_STORAGE_KEY = "imposter-relay:locale";
+
+const listeners = new Set<() => void>();
+let memoryLocale: Locale | null = null;
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/** Also follows picks made in other tabs, such as the host's public display. */
+export const subscribeToLocale = (listener: () => void) => {
+  listeners.add(listener);
+  window.addEventListener("storage", listener);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", listener);
+  };
+};
+
+/** The chosen locale for useSyncExternalStore, English until one is picked. */
+export const readLocale = (): Locale => {
+  try {
+    const stored = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    return isLocale(stored) ? stored : (memoryLocale ?? DEFAULT_LOCALE);
+  } catch {
+    return memoryLocale ?? DEFAULT_LOCALE;
+  }
+};
+
+export const storeLocale = (locale: Locale) => {
+  memoryLocale = locale;
+  try {
+    window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+  } catch {
+    // Without storage the choice lasts until the tab closes.
+  }
+  // The cookie lets server-rendered metadata follow the same choice.
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=31536000; samesite=lax`;
+  document.documentElement.lang = locale;
+  notify();
+};
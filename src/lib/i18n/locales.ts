@@ -0,0 +1,12 @@
+export const LOCALES = ["en", "es"] as const;
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/** Each locale's name in its own language, for the switcher. */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: "English",
+  es: "Español",
+};
+
+export const LOCALE_COOKIE = "imposter-relay-locale";
@@ -0,0 +1,646 @@
+/** A plain template, or one chosen by the `count` parameter's plural form. */
+export type Template = string | { one: string; other: string };
+
+/**
+ * The English catalogue doubles as the list of keys: every other locale is a
+ * partial copy that falls back to these templates.
+ */
+export const en = {
+  // Game vocabulary
+  "phase.lobby": "Player Lobby",
+  "phase.reveal": "Card Reveal",
+  "phase.mission": "Mission Control",
+  "phase.meeting": "Emergency Meeting",
+  "phase.ended": "Round Summary",
+  "role.Crewmate": "Crewmate",
+  "role.Impostor": "Impostor",
+  "role.Analyst": "Analyst",
+  "role.Sheriff": "Sheriff",
+  "role.Engineer": "Engineer",
+  "role.Jester": "Jester",
+  "roleDescription.Crewmate":
+    "Complete critical ship tasks and keep an eye out for sabotage.",
+  "roleDescription.Impostor":
+    "Blend in, derail task completion, and eliminate the crew without exposure.",
+  "roleDescription.Analyst":
+    "Support the crew with intel, track alibis, and confirm suspicious activity.",
+  "roleDescription.Sheriff":
+    "Keep the peace. Once per round you may take the Sheriff's shot: an impostor you name is eliminated, but anyone else costs you your own life.",
+  "roleDescription.Engineer":
+    "Keep the ship flying. You carry the longest task list, and one fix from you repairs a whole sabotage.",
+  "roleDescription.Jester":
+    "Work for nobody. Act suspicious enough to get yourself ejected by vote and you win alone.",
+  "team.Crewmates": "Crewmates",
+  "team.Impostors": "Impostors",
+  "team.Jester": "Jester",
+  "alignment.crew": "Crew",
+  "alignment.impostor": "Impostor",
+  "alignment.neutral": "Neutral",
+  "ability.scan": "Scan",
+  "ability.voteHistory": "Vote history",
+  "ability.recentTasks": "Recent tasks",
+  "ability.scanResult": "{name} is {alignment}.",
+  "ability.noVotes": "No votes have closed this round.",
+  "ability.voteBallots": "Vote {number}: {ballots}",
+  "ability.runoffBallots": "Runoff {number}: {ballots}",
+  "ability.ballot": "{voter} → {choice}",
+  "ability.noRecentTasks":
+    "Nobody finished a task in the last {seconds} seconds.",
+  "ability.recentTasksResult":
+    "Tasks finished in the last {seconds} seconds: {players}",
+  "ability.taskCount": "{name} ×{count}",
+  "winner.Crewmates": "Crewmates win",
+  "winner.Impostors": "Impostors win",
+  "winner.Jester": "The Jester wins",
+  "tieRule.noEjection": "Tie means no ejection",
+  "tieRule.revote": "Tie goes to a runoff vote",
+  "tieRule.random": "Tie is broken at random",
+  "taskKind.crew": "Crew Task",
+  "taskKind.support": "Intel Task",
+  "taskKind.impostor": "Secret Play",
+  "taskKind.neutral": "Side Hustle",
+  "cause.killed": "Killed",
+  "cause.ejected": "Ejected",
+  "cause.host": "Removed by host",
+  "cause.sheriff": "Sheriff's shot",
+  "deckSection.crew": "Crew Tasks",
+  "deckSection.support": "Intel Routines",
+  "deckSection.impostor": "Impostor Objectives",
+  "deckSection.neutral": "Jester Antics",
+  "deckSection.prompts": "Prompt Cards",
+  "logType.round": "Round",
+  "logType.task": "Tasks",
+  "logType.status": "Status",
+  "logType.kill": "Kills",
+  "logType.card": "Card checks",
+  "logType.ability": "Abilities",
+  "logType.meeting": "Meetings",
+  "logType.vote": "Votes",
+  "logType.ejection": "Ejections",
+  "logType.prompt": "Prompts",
+  "logType.timer": "Timers",
+  "logType.sabotage": "Sabotage",
+  "logType.correction": "Corrections",
+  "logType.outcome": "Outcome",
+  "timer.discussion": "Discussion",
+  "timer.voting": "Voting",
+  "timer.mission": "Mission",
+  "timer.prompt": "Prompt",
+  "timer.sabotage": "Sabotage",
+  "sabotage.reactor": "Reactor meltdown",
+  "sabotage.oxygen": "Oxygen depletion",
+  "sabotage.lights": "Lights out",
+  "room.reactor": "Reactor",
+  "room.electrical": "Electrical",
+  "room.oxygen": "O2",
+  "room.comms": "Comms",
+  "room.medbay": "Medbay",
+  "room.navigation": "Navigation",
+  "room.security": "Security",
+  "room.cargo": "Cargo Bay",
+  "effect.swapTasks": "Task swap",
+  "effect.silentRound": "Silent round",
+  "effect.analystApproval": "Analyst approval",
+  "effect.forcedMeeting": "Forced meeting",
+  "effect.lockRoom": "Room lock",
+  "effectDescription.swapTasks":
+    "Each player hands their first open crew task to the next player in seat order.",
+  "effectDescription.silentRound":
+    "No talking until the next meeting is called.",
+  "effectDescription.analystApproval":
+    "Each living Analyst may vouch for one player; only the host sees who.",
+  "effectDescription.forcedMeeting": "An emergency meeting opens right away.",
+  "effectDescription.lockRoom":
+    "Pick a room on the map: nobody finishes a task there until the lock runs out.",
+  "sabotage.comms": "Comms blackout",
+  "sabotageFix.reactorUpper": "Hold the upper reactor scanner",
+  "sabotageFix.reactorLower": "Hold the lower reactor scanner",
+  "sabotageFix.oxygenAdmin": "Enter the O2 code in admin",
+  "sabotageFix.oxygenGreenhouse": "Enter the O2 code in greenhouse",
+  "sabotageFix.lightsBreakers": "Reset the electrical breakers",
+  "sabotageFix.commsDish": "Realign the comms dish",
+  "preset.classic": "Classic",
+  "preset.classic.description": "The standard rules for 4 to 12 players.",
+  "preset.speed": "Speed Round",
+  "preset.speed.description":
+    "Short task lists so a round fits in a few minutes.",
+  "preset.bigParty": "Big Party",
+  "preset.bigParty.description":
+    "8 to 15 players, up to 5 impostors and every special role.",
+  "preset.noAnalyst": "No Analyst",
+  "preset.noAnalyst.description":
+    "Classic rules with only crewmates and impostors.",
+  "deck.standardName": "Standard Issue",
+
+  // Mission log
+  "log.roundArmed": {
+    one: "Round armed with {count} impostor. Reveal cards privately before continuing.",
+    other:
+      "Round armed with {count} impostors. Reveal cards privately before continuing.",
+  },
+  "log.allCardsViewed": "All cards viewed. Mission control live.",
+  "log.revealSkipped": "Card reveal skipped. Mission control live.",
+  "log.tableResults":
+    "Results entered from the printed cards: {eliminated} eliminated, {tasks} tasks done.",
+  "log.taskCompleted": '{name} completed "{task}".',
+  "log.taskReopened": '{name} reopened "{task}".',
+  "log.kill": "{killer} killed {victim}.",
+  "log.sheriffHit": "{sheriff} took the Sheriff's shot and eliminated {name}.",
+  "log.sheriffMisfire":
+    "{sheriff} took the Sheriff's shot at {name}, misfired and was eliminated.",
+  "log.cardChecked": "{name} checked their card in private.",
+  "log.abilityUsed": "{name} used {ability}: {result}",
+  "log.bodyReported":
+    "{reporter} reported {victim}'s body. Emergency meeting called.",
+  "log.hostEliminated": "{name} was eliminated by the host.",
+  "log.hostRevived": "Host override: {name} was revived.",
+  "log.meetingCalled": "Emergency meeting called. Resolve accusations swiftly.",
+  "log.voteTally": "Vote tally: {tally}.",
+  "log.runoffTally": "Runoff tally: {tally}.",
+  "log.runoffCalled":
+    "The vote tied. Recast ballots in a runoff between the tied options.",
+  "log.nobodyEjected": "{reason} Nobody was ejected.",
+  "log.playerEjected": "{reason} {name} was ejected.",
+  "log.voteSkipped": "Vote skipped. Mission resumes.",
+  "log.votingExpired":
+    "Voting time ran out, so the vote counts as a skip. Mission resumes.",
+  "log.promptDrawn": "New prompt drawn: {card}",
+  "log.roomLocked": "{room} is locked for {seconds} seconds.",
+  "log.effectSwap": "Prompt effect: players passed a task along.",
+  "log.effectSilent": "Prompt effect: silent round until the next meeting.",
+  "log.effectApproval":
+    "Prompt effect: the Analysts may each approve one player.",
+  "log.effectMeeting": "Prompt effect: an emergency meeting was forced.",
+  "log.effectDismissed": "Prompt effect dismissed: {effect}.",
+  "log.approved": "{analyst} approved {name}.",
+  "log.timerStarted": "{timer} timer started at {time}.",
+  "log.timerRanOut": "{timer} timer ran out.",
+  "log.timerResumed": "{timer} timer resumed.",
+  "log.timerPaused": "{timer} timer paused with {time} left.",
+  "log.sabotageStarted": "{sabotage}! Fix it: {fixes}.",
+  "log.sabotageTriggered": "{name} triggered {sabotage}.",
+  "log.sabotageFixed": '{name} finished "{fix}".',
+  "log.sabotageFixedByEngineer": "{name} repaired the whole {sabotage} alone.",
+  "log.sabotageFixedByHost": 'The host finished "{fix}".',
+  "log.sabotageResolved":
+    "{sabotage} resolved. Sabotage is on cooldown for {seconds} seconds.",
+  "log.outcome": "{team} locked the round — {reason}",
+  "log.draw": "The round ended in a draw — {reason}",
+  "log.correctionUndo": "Correction: undid {step}",
+  "log.correctionRedo": "Correction: redid {step}",
+  "log.quotedStep": '"{text}"',
+  "log.lastHostChange": "the last host change.",
+  "log.columnTime": "Time",
+  "log.columnType": "Type",
+  "log.columnEvent": "Event",
+  "log.hidden": "hidden",
+  "vote.skipped": "The crew voted to skip.",
+  "vote.decided": "The vote is decided.",
+  "vote.noBallots": "No ballots were cast.",
+  "vote.randomTie": "The vote tied and was broken at random.",
+  "vote.runoffTied": "The runoff tied as well.",
+  "vote.tied": "The vote tied.",
+  "tally.votes": "{name} {votes}",
+  "tally.skip": "Skip",
+  "tally.unknown": "Unknown",
+  "tally.abstained": "{count} abstained",
+  "tally.none": "no ballots cast",
+
+  // Round outcomes
+  "outcome.jester": "{name} fooled the crew into ejecting them.",
+  "outcome.impostorsNeutralized": "All impostors were neutralized.",
+  "outcome.parity": "Impostors reached player parity and seized control.",
+  "outcome.outnumbered": "Impostors outnumbered the rest and seized control.",
+  "outcome.tasksDone":
+    "Every critical task was completed before sabotage spiked.",
+  "outcome.missionClock": "The mission clock ran out before the crew finished.",
+  "outcome.sabotage": "{sabotage} was not fixed in time.",
+  "outcome.hostDraw": "The host called the round a draw.",
+  "outcome.tableResult": "The host entered the result agreed at the table.",
+  "winCondition.specialWin": "a role's own win",
+  "winCondition.hostDraw": "the host",
+  "winCondition.tableResult": "the table result",
+  "winCondition.sabotage": "critical sabotage",
+  "winCondition.missionClock": "the mission clock",
+  "winCondition.impostorsNeutralized": "impostors neutralized",
+  "winCondition.impostorsAhead": "impostor numbers",
+  "winCondition.tasksDone": "all tasks done",
+
+  // Rule and input errors
+  "error.nameEmpty": "Enter a player name before adding.",
+  "error.nameTaken": "That player name is already in the lobby.",
+  "error.maxPlayers": "These rules allow at most {count} players.",
+  "error.tooManyPlayers":
+    "These rules allow at most {count} players. Remove some or pick a bigger preset.",
+  "error.minPlayers":
+    "You need at least {count} players to start a deduction round.",
+  "error.entryEmpty": "Entries need some text.",
+  "error.entryTooLong": "Keep entries under {count} characters.",
+  "error.invalidDeck": "That deck pack is incomplete or invalid.",
+  "error.deckName": "Give the deck pack a name first.",
+  "error.shortBank":
+    'The {role} needs {needed} tasks but "{deck}" only has {available} in that section.',
+  "error.killerInvalid": "Only an impostor still on the mission can kill.",
+  "error.victimInvalid": "Impostors can only kill players on the other side.",
+  "error.sheriffInvalid": "Only a Sheriff still on the mission can shoot.",
+  "error.sheriffSpent":
+    "{name} has already taken the Sheriff's shot this round.",
+  "error.shotTargetInvalid":
+    "The Sheriff can only shoot another living player.",
+  "error.killCooldown": "{name} can kill again in {seconds} seconds.",
+  "error.reporterInvalid":
+    "Only players still on the mission can report a body.",
+  "error.noBody": "There is no unreported body to report.",
+  "error.pinFormat": "PINs are 4 to 6 digits.",
+  "error.roomLocked": "{room} is locked for another {time}.",
+  "error.lockPrompt": "Only a prompt card that locks a room can do that.",
+  "error.lockActive": "A room is already locked.",
+  "error.effectPending": "Run or dismiss the current prompt effect first.",
+  "error.promptLimit":
+    "All {count} prompt cards for this round have been drawn.",
+  "error.noPin": "{name} did not set a PIN during the reveal.",
+  "error.wrongPin": "That PIN does not match.",
+  "error.abilityRole":
+    "Only an Analyst still on the mission can use intel abilities.",
+  "error.abilityLimit": "{ability} is used up for this round.",
+  "error.abilityCharge":
+    "No charges left. Finish a support task to earn another.",
+  "error.scanTarget": "Pick another player to scan.",
+  "error.meetingBlocked": "{sabotage} blocks meetings until it is fixed.",
+  "error.invalidBallot":
+    "Only players still on the mission can vote, and only for each other.",
+  "error.saboteurInvalid":
+    "Only an impostor still on the mission can sabotage.",
+  "error.sabotageActive": "{sabotage} has to be fixed first.",
+  "error.sabotageCooldown":
+    "Sabotage is on cooldown for another {seconds} seconds.",
+  "error.fixerInvalid": "Only players still on the mission can fix sabotage.",
+  "error.deckFileJson": "That file is not valid JSON.",
+  "error.deckFileFormat": "That file is not an Imposter Relay deck.",
+  "error.deckFileVersion": "Deck files must be version {version}.",
+  "error.deckFileInvalid":
+    "The deck is missing sections, has empty or over-long entries, or asks for more than {count} tasks per role.",
+  "error.deckFilePrompts": "A deck needs at least one prompt card.",
+  "error.replayFileJson": "That replay file is not valid JSON.",
+  "error.replayFileFormat": "That file is not an Imposter Relay replay.",
+  "error.replayFileVersion": "Replay files must be version {version}.",
+  "error.replayFileInvalid": "That replay file is damaged or incomplete.",
+  "roomError.notFound": "No room with that code is open.",
+  "roomError.hostOnly": "Only the host can close this room.",
+  "roomError.notSeated": "This device is not seated in the room.",
+  "roomError.noAction": "Send a game action to apply.",
+  "roomError.replaceState": "Room state can only change through game actions.",
+  "roomError.actionFailed": "That action could not be applied.",
+  "roomError.invalidAction": "That action is missing fields or has bad values.",
+  "roomError.pickSeat": "Pick your name from the roster to join.",
+  "roomError.seatTaken": "That seat is already taken on another device.",
+  "roomError.invalidState": "Room needs a valid game state to start from.",
+  "roomError.playerActions":
+    "Players can only update their own tasks, ballot, sabotage and kills.",
+  "roomError.requestFailed": "Room request failed with status {status}.",
+  "roomError.unreachable": "The room server could not be reached.",
+
+  // Interface
+  "missionLog.title": "Mission Log",
+  "missionLog.titleSeeded": "Mission Log — seed {seed}",
+  "missionLog.description":
+    "Every event this round. The newest entries sit at the top; dashed entries reveal secret roles.",
+  "missionLog.filterPlayer": "Filter by player",
+  "missionLog.allPlayers": "All players",
+  "missionLog.filterType": "Filter by event type",
+  "missionLog.allEvents": "All events",
+  "missionLog.publicOnly":
+    "Public view — hide secret entries on screen and in exports",
+  "missionLog.noMatches": "No entries match these filters.",
+  "missionLog.empty":
+    "Mission feed idle. Progress updates will appear here once the round is in motion.",
+  "missionLog.exportJson": "Export JSON",
+  "missionLog.exportMarkdown": "Export Markdown",
+  "timers.resume": "Resume",
+  "timers.pause": "Pause",
+  "timers.paused": "Paused",
+  "sabotagePanel.critical": "Critical",
+  "sabotagePanel.blocksMeetings":
+    "No meetings can be called until this is fixed.",
+  "sabotagePanel.title": "Sabotage",
+  "sabotagePanel.description":
+    "Critical sabotages start a countdown; the impostors win if the crew does not fix them in time.",
+  "sabotagePanel.readyAgain": "Ready again from {time}.",
+  "deckEditor.title": "Deck Editor",
+  "deckEditor.untitled": "Untitled pack",
+  "deckEditor.nameFirst": "Name the pack before saving it.",
+  "deckEditor.saved": 'Saved "{name}" to this browser.',
+  "deckEditor.loaded": 'Loaded "{name}".',
+  "deckEditor.deleted": 'Deleted "{name}".',
+  "deckEditor.imported": 'Imported "{name}".',
+  "deckEditor.unreadable": "That file could not be read.",
+  "deckEditor.packName": "Pack Name",
+  "deckEditor.savedPacks": "Saved Packs",
+  "deckEditor.choosePack": "Choose a pack",
+  "deckEditor.save": "Save Pack",
+  "deckEditor.load": "Load",
+  "deckEditor.delete": "Delete",
+  "deckEditor.exportJson": "Export JSON",
+  "deckEditor.importJson": "Import JSON",
+  "deckEditor.restoreStandard": "Restore Standard",
+  "deckEditor.roleTasks": "{role} tasks",
+  "deckEditor.newEntry": "New {section} entry",
+  "deckEditor.tagsPlaceholder": "Tags, comma separated",
+  "deckEditor.addEntry": "Add Entry",
+  "deckEditor.filterTag": "Filter by tag",
+  "deckEditor.allEntries": "All entries",
+  "deckEditor.emptySection": "Nothing in this section yet.",
+  "deckEditor.entryTags": "Tags for {entry}",
+  "deckEditor.room": "Room",
+  "deckEditor.anyRoom": "Any room",
+  "deckEditor.entryRoom": "Room for {entry}",
+  "deckEditor.effect": "Effect",
+  "deckEditor.noEffect": "No effect",
+  "deckEditor.entryEffect": "Effect for {entry}",
+  "deckEditor.addTags": "Add tags",
+  "deckEditor.remove": "Remove",
+  "leaderboard.title": "Leaderboard",
+  "leaderboard.onRecord": {
+    one: "{count} finished round on record.",
+    other: "{count} finished rounds on record.",
+  },
+  "leaderboard.empty": "Finished rounds are recorded here automatically.",
+  "leaderboard.lastRound": "Last round: {winner}.",
+  "leaderboard.ejected": "Ejected {names}.",
+  "leaderboard.nobodyEjected": "Nobody was ejected.",
+  "leaderboard.wins": {
+    one: "{rate} wins over {count} round",
+    other: "{rate} wins over {count} rounds",
+  },
+  "leaderboard.impostorSurvival": "Impostor survival {rate}",
+  "leaderboard.correctEjections": "Correct ejections {rate}",
+  "leaderboard.exportCsv": "Export CSV",
+  "leaderboard.clear": "Clear stats",
+  "leaderboard.unknownPlayer": "Unknown player",
+  "replay.title": "Round replay",
+  "replay.description":
+    "Step through every change of a finished round: who was alive, task progress, meeting results and the moment it was decided. Save the replay to a file to review it later.",
+  "replay.save": "Save replay",
+  "replay.load": "Load replay",
+  "replay.loaded": "Replay loaded from file.",
+  "replay.unreadable": "That replay file could not be read.",
+  "replay.showCurrent": "Back to this round",
+  "replay.previous": "Previous",
+  "replay.next": "Next",
+  "replay.scrub": "Replay position",
+  "replay.jumpToOutcome": "Jump to result",
+  "replay.step": "Step {step} of {total} · {time}",
+  "replay.crewTasks": "Crew tasks {completed}/{total}",
+  "replay.decided": "The round was decided here",
+  "replay.tasks": "tasks {completed}/{total}",
+  "replay.moments": "Key moments",
+  "rules.title": "Rules",
+  "rules.custom": "Custom",
+  "rules.preset": "Preset",
+  "rules.presetNote":
+    "Applying a preset also sets the optional roles and the pack's task counts.",
+  "rules.minPlayers": "Min players",
+  "rules.maxPlayers": "Max players",
+  "rules.playersPerImpostor": "Players per impostor",
+  "rules.maxImpostors": "Max impostors",
+  "rules.roleFrom": "{role} from",
+  "rules.parity":
+    "Impostors win at parity (otherwise they must outnumber everyone else)",
+  "rules.ghostTasks":
+    "Ghost play: eliminated players keep doing their tasks (otherwise their tasks leave the crew total)",
+  "rules.promptDrawLimit": "Prompt cards per round",
+  "balance.title": "Balance check",
+  "balance.description":
+    "Bots play {rounds} rounds of this lobby for each impostor and crew task count, using the real dealing and win rules. Treat the split as a rough guide.",
+  "balance.run": "Simulate",
+  "balance.running": "Simulating…",
+  "balance.recommended": {
+    one: "{count} impostor recommended",
+    other: "{count} impostors recommended",
+  },
+  "balance.use": {
+    one: "Use {count} impostor",
+    other: "Use {count} impostors",
+  },
+  "balance.split": "Expected split: crew {crew}% · impostors {impostors}%",
+  "balance.tasks": {
+    one: "{count} task",
+    other: "{count} tasks",
+  },
+  "balance.cell": "{crew}% / {impostors}%",
+  "balance.noRounds": "Deck too small",
+  "print.foldHint": "Fold along the line. Open it only when the round starts.",
+  "print.hostSheet": "Host sheet",
+  "print.seed": "Seed: {seed}",
+  "print.player": "Player",
+  "print.role": "Role",
+  "print.tasks": "Tasks",
+  "print.prompts": "Prompt deck",
+  "results.title": "Enter table results",
+  "results.description":
+    "Played on printed cards? Tick who was eliminated and every task checked off, then pick the winner or let the win rules decide. This replaces the statuses and tasks on screen.",
+  "results.eliminated": "{name} was eliminated",
+  "results.winner": "Winner",
+  "results.auto": "Decide from the results",
+  "results.teams": "Pick the winning teams",
+  "results.save": "Save Results",
+  "display.waiting":
+    "Waiting for the host screen. Keep the control center open in another window of this browser.",
+  "display.ballotsCast": "{cast} / {voters} ballots cast.",
+  "display.runoff": "Runoff between {names}.",
+  "display.latestEvents": "Latest Events",
+  "display.noEvents": "Nothing has happened yet.",
+  "stats.alive": "Alive",
+  "stats.eliminated": "Eliminated",
+  "stats.crewTasks": "Crew Task %",
+  "stats.crewTasksComplete": "{completed} / {total} crew tasks complete",
+  "status.alive": "On mission",
+  "status.eliminated": "Eliminated",
+  "meta.title": "Imposter Relay | Party Host Console",
+  "meta.description":
+    "Run a full social deduction round from your browser with player cards, task tracking, and emergency meetings.",
+  "meta.playTitle": "Imposter Relay | Player Card",
+  "meta.playDescription":
+    "Join a hosted round and keep your secret role on your own phone.",
+  "meta.displayTitle": "Imposter Relay | Public Display",
+  "meta.displayDescription":
+    "A projector-safe view of the round that never shows roles or objectives.",
+  "locale.label": "Language",
+  "player.roomClosed": "The room was closed or your seat was released.",
+  "player.codeMissing": "Enter the room code shown on the host screen.",
+  "player.title": "Imposter Relay Player Card",
+  "player.subtitle":
+    "Keep your secret role on your own screen. Only you can see what is on this card.",
+  "room.tag": "Room {code}",
+  "player.joinTitle": "Join a Room",
+  "player.joinDescription":
+    "Enter the code from the host screen, then pick your name.",
+  "player.codePlaceholder": "Room code",
+  "player.findRoom": "Find room",
+  "player.noPlayers": "The host has not added any players yet.",
+  "player.alreadyJoined": "Already joined",
+  "player.tapToJoin": "Tap to join",
+  "player.connecting": "Connecting to the room…",
+  "player.leaveSeat": "Leave seat",
+  "player.waitingForRoles": "Waiting for the host to deal roles.",
+  "player.revealHint": "Make sure nobody is looking, then reveal your role.",
+  "player.ghostHint":
+    "You are a ghost: keep working your tasks, but you cannot vote or report bodies.",
+  "card.hideRole": "Hide Role",
+  "card.revealRole": "Reveal Role",
+  "player.killTitle": "Kill",
+  "player.killDescription": "Tap a name once the deed is done.",
+  "player.shotTitle": "Sheriff's shot",
+  "player.shotDescription":
+    "Once per round: an impostor you name is eliminated, but anyone else costs you your own life.",
+  "player.voteTitle": "Your Vote",
+  "player.voteDescription":
+    "Tap a name to vote, or tap it again to take your vote back.",
+  "player.approveTitle": "Approve",
+  "player.approveDescription":
+    "Vouch for one player. Only the host sees your pick.",
+  "host.title": "Imposter Relay Control Center",
+  "host.subtitle":
+    "Host a full social deduction session from a single screen. Add players, assign hidden roles, track progress, and resolve emergency meetings without a separate rulebook.",
+  "host.tasksPercent": "{percent}% crew tasks complete",
+  "host.undo": "Undo",
+  "host.redo": "Redo",
+  "host.callMeeting": "Call Meeting",
+  "host.drawPrompt": "Draw Prompt",
+  "host.declareDraw": "Declare Draw",
+  "host.printCards": "Print Cards",
+  "host.startRound": "Start Round",
+  "host.clearLobby": "Clear Lobby",
+  "host.resetRound": "Reset for New Round",
+  "stats.players": "Players",
+  "stats.aliveCrew": "Alive Crew",
+  "stats.aliveImpostors": "Alive Impostors",
+  "resume.title": "Resume saved session?",
+  "resume.summary": {
+    one: "{phase} with {count} player, saved at {time}.",
+    other: "{phase} with {count} players, saved at {time}.",
+  },
+  "resume.resume": "Resume session",
+  "resume.discard": "Start fresh",
+  "panel.lobby": "Build Your Lobby",
+  "panel.lobby.description":
+    "Add each player, choose your impostor count, and lock in the next social deduction round.",
+  "panel.reveal": "Card Reveal Deck",
+  "panel.reveal.description":
+    "Hand the device to each player privately so they can reveal their role card.",
+  "panel.mission": "Mission Control Tracker",
+  "panel.mission.description":
+    "Track task completion, mark eliminations, and pull prompt cards to add tension.",
+  "panel.meeting": "Emergency Voting Console",
+  "panel.meeting.description":
+    "Discuss the sabotage, select a suspect, and decide whether to eject or skip.",
+  "panel.ended": "Round Summary",
+  "panel.ended.description":
+    "Celebrate victory, review the roster, and reset for the next round.",
+  "lobby.namePlaceholder": "Enter player name",
+  "lobby.addPlayer": "Add Player",
+  "lobby.impostors": "Impostors",
+  "lobby.tieRule": "Vote Ties",
+  "lobby.seed": "Round Seed",
+  "lobby.seedPlaceholder": "Random",
+  "lobby.discussionSeconds": "Discussion (sec)",
+  "lobby.votingSeconds": "Voting (sec)",
+  "lobby.missionMinutes": "Mission limit (min)",
+  "lobby.off": "Off",
+  "lobby.roundStatus": "Round Status",
+  "lobby.awaitingLaunch": "Awaiting launch",
+  "lobby.empty":
+    "No players yet. Add at least {count} names to launch a round.",
+  "lobby.remove": "Remove",
+  "lobby.joinedRemotely": "Joined on their own device.",
+  "lobby.ready": "Ready for role assignment.",
+  "reveal.passDevice": "Pass device to",
+  "reveal.hint":
+    "Tap reveal to show their secret role, then continue to the next player.",
+  "reveal.roomHint":
+    "Players seated in room {code} can read their card on their own phone instead.",
+  "reveal.next": "Next Player",
+  "reveal.skip": "Skip Remainder",
+  "reveal.pinLabel": "PIN to check your card later",
+  "reveal.pinSave": "Save PIN",
+  "reveal.pinSaved": "PIN saved.",
+  "mission.noPlayers": "No players available. Reset to lobby and add players.",
+  "mission.status": "Mission status",
+  "mission.tasksComplete": "{completed} / {total} tasks complete",
+  "mission.eliminate": "Eliminate",
+  "mission.revive": "Revive",
+  "mission.killLabel": "{name}'s kill",
+  "mission.killPlaceholder": "Kill a player…",
+  "mission.shotLabel": "{name}'s Sheriff shot",
+  "mission.shotPlaceholder": "Take the Sheriff's shot…",
+  "mission.approveLabel": "{name}'s approval",
+  "mission.approvePlaceholder": "Approve a player…",
+  "mission.reportLabel": "Report {name}'s body",
+  "mission.reportPlaceholder": "Body found by…",
+  "mission.noObjectives": "No objectives assigned for this role.",
+  "mission.locationLabel": "Where {name} is",
+  "mission.noLocation": "Location unknown",
+  "map.title": "Ship map",
+  "map.lockHint": "The prompt card locks a room: pick the one the table chose.",
+  "map.tasks": "{open} of {total} tasks open",
+  "map.locked": "Locked · {time}",
+  "map.lock": "Lock",
+  "cardCheck.title": "Check my card",
+  "cardCheck.description":
+    "Pick your name and enter the PIN you set during the reveal. Only your own role and tasks appear, and they hide again after {seconds} seconds.",
+  "cardCheck.player": "Player",
+  "cardCheck.pin": "PIN",
+  "cardCheck.open": "Show my card",
+  "cardCheck.owner": "{name}'s card",
+  "cardCheck.closesIn": "Hides in {seconds} s",
+  "cardCheck.close": "Hide now",
+  "cardCheck.gridHidden":
+    "Player cards stay hidden while someone checks their card.",
+  "abilities.title": "Analyst abilities",
+  "abilities.charges": {
+    one: "{count} charge left. Finish support tasks to earn more.",
+    other: "{count} charges left. Finish support tasks to earn more.",
+  },
+  "abilities.scanTarget": "Player to scan…",
+  "abilities.use": "{ability} ({count} left)",
+  "meeting.runoff": "Runoff vote — only {names} can be chosen, or skip.",
+  "meeting.voteLabel": "{name}'s vote",
+  "meeting.noVote": "No vote yet",
+  "meeting.cannotVote": "Eliminated — cannot vote",
+  "meeting.closeVoting": "Close voting",
+  "meeting.skipVote": "Skip vote",
+  "summary.seed":
+    "Round seed {seed} — enter it with the same roster to replay this deal.",
+  "summary.survived": "survived",
+  "summary.draw": "Draw",
+  "summary.sharedWin": "Shared win: {teams}",
+  "summary.condition": "Decided by {condition} at {time}",
+  "summary.nextRound": "Set up next round",
+  "summary.emptyLobby": "Back to empty lobby",
+  "prompts.title": "Prompt Deck",
+  "prompts.description": "Pull a tension card to shake up the mission flow.",
+  "prompts.empty": "No prompt drawn yet. Press the button below.",
+  "prompts.effect": "Effect: {effect}",
+  "prompts.runEffect": "Run effect",
+  "prompts.dismissEffect": "Dismiss",
+  "prompts.drawn": "{count}/{limit} cards drawn this round",
+  "prompts.silentRound": "Silent round: no talking until the next meeting",
+  "devices.title": "Player Devices",
+  "devices.description":
+    "Open a room so each player can check their role and tick their tasks on their own phone.",
+  "devices.roomCode": "Room code",
+  "devices.joined": "{joined} / {total} devices joined.",
+  "devices.joinAt": "Players join at {url}",
+  "devices.close": "Close room",
+  "devices.open": "Open room",
+  "display.title": "Public Display",
+  "display.description":
+    "Put this window on a projector or shared screen. It shows the phase, timers and task progress but never roles or objectives.",
+  "display.open": "Open display",
+  "quickReset.title": "Quick Reset",
+  "quickReset.description":
+    "Need a fresh start? Reset the current round or wipe the lobby.",
+  "quickReset.round": "Reset round",
+} satisfies Record<string, Template>;
+
+export type MessageKey = keyof typeof en;
@@ -0,0 +1,669 @@
+import type { MessageKey, Template } from "./en";
+
+export const es: Partial<Record<MessageKey, Template>> = {
+  // Game vocabulary
+  "phase.lobby": "Sala de jugadores",
+  "phase.reveal": "Reparto de cartas",
+  "phase.mission": "Control de misión",
+  "phase.meeting": "Reunión de emergencia",
+  "phase.ended": "Resumen de la ronda",
+  "role.Crewmate": "Tripulante",
+  "role.Impostor": "Impostor",
+  "role.Analyst": "Analista",
+  "role.Sheriff": "Sheriff",
+  "role.Engineer": "Ingeniero",
+  "role.Jester": "Bufón",
+  "roleDescription.Crewmate":
+    "Completa las tareas críticas de la nave y vigila los sabotajes.",
+  "roleDescription.Impostor":
+    "Pasa desapercibido, frena las tareas y elimina a la tripulación sin que te descubran.",
+  "roleDescription.Analyst":
+    "Ayuda a la tripulación con información, comprueba coartadas y confirma actividades sospechosas.",
+  "roleDescription.Sheriff":
+    "Mantén el orden. Una vez por ronda puedes usar el disparo del sheriff: si nombras a un impostor queda eliminado, pero si no, pierdes tu propia vida.",
+  "roleDescription.Engineer":
+    "Mantén la nave en vuelo. Llevas la lista de tareas más larga, y con una sola reparación tuya se arregla todo un sabotaje.",
+  "roleDescription.Jester":
+    "No trabajas para nadie. Compórtate de forma tan sospechosa que te expulsen por votación y ganarás en solitario.",
+  "team.Crewmates": "Tripulantes",
+  "team.Impostors": "Impostores",
+  "team.Jester": "Bufón",
+  "alignment.crew": "Tripulación",
+  "alignment.impostor": "Impostor",
+  "alignment.neutral": "Neutral",
+  "ability.scan": "Escanear",
+  "ability.voteHistory": "Historial de votos",
+  "ability.recentTasks": "Tareas recientes",
+  "ability.scanResult": "Bando de {name}: {alignment}.",
+  "ability.noVotes": "Aún no se ha cerrado ninguna votación en esta ronda.",
+  "ability.voteBallots": "Votación {number}: {ballots}",
+  "ability.runoffBallots": "Desempate {number}: {ballots}",
+  "ability.ballot": "{voter} → {choice}",
+  "ability.noRecentTasks":
+    "Nadie ha terminado una tarea en los últimos {seconds} segundos.",
+  "ability.recentTasksResult":
+    "Tareas terminadas en los últimos {seconds} segundos: {players}",
+  "ability.taskCount": "{name} ×{count}",
+  "winner.Crewmates": "Ganan los tripulantes",
+  "winner.Impostors": "Ganan los impostores",
+  "winner.Jester": "Gana el bufón",
+  "tieRule.noEjection": "Un empate no expulsa a nadie",
+  "tieRule.revote": "Un empate lleva a una segunda votación",
+  "tieRule.random": "Un empate se decide al azar",
+  "taskKind.crew": "Tarea de tripulación",
+  "taskKind.support": "Tarea de inteligencia",
+  "taskKind.impostor": "Jugada secreta",
+  "taskKind.neutral": "Chanchullo",
+  "cause.killed": "Asesinado",
+  "cause.ejected": "Expulsado",
+  "cause.host": "Retirado por el anfitrión",
+  "cause.sheriff": "Disparo del sheriff",
+  "deckSection.crew": "Tareas de tripulación",
+  "deckSection.support": "Rutinas de inteligencia",
+  "deckSection.impostor": "Objetivos del impostor",
+  "deckSection.neutral": "Payasadas del bufón",
+  "deckSection.prompts": "Cartas de reto",
+  "logType.round": "Ronda",
+  "logType.task": "Tareas",
+  "logType.status": "Estado",
+  "logType.kill": "Asesinatos",
+  "logType.card": "Consultas de carta",
+  "logType.ability": "Habilidades",
+  "logType.meeting": "Reuniones",
+  "logType.vote": "Votos",
+  "logType.ejection": "Expulsiones",
+  "logType.prompt": "Retos",
+  "logType.timer": "Temporizadores",
+  "logType.sabotage": "Sabotaje",
+  "logType.correction": "Correcciones",
+  "logType.outcome": "Resultado",
+  "timer.discussion": "Debate",
+  "timer.voting": "Votación",
+  "timer.mission": "Misión",
+  "timer.prompt": "Reto",
+  "timer.sabotage": "Sabotaje",
+  "sabotage.reactor": "Fusión del reactor",
+  "sabotage.oxygen": "Falta de oxígeno",
+  "sabotage.lights": "Apagón",
+  "room.reactor": "Reactor",
+  "room.electrical": "Electricidad",
+  "room.oxygen": "O2",
+  "room.comms": "Comunicaciones",
+  "room.medbay": "Enfermería",
+  "room.navigation": "Navegación",
+  "room.security": "Seguridad",
+  "room.cargo": "Bodega",
+  "effect.swapTasks": "Intercambio de tareas",
+  "effect.silentRound": "Ronda en silencio",
+  "effect.analystApproval": "Aval del analista",
+  "effect.forcedMeeting": "Reunión forzada",
+  "effect.lockRoom": "Cierre de sala",
+  "effectDescription.swapTasks":
+    "Cada jugador pasa su primera tarea de tripulación abierta al siguiente en el orden de asientos.",
+  "effectDescription.silentRound":
+    "Nadie habla hasta que se convoque la próxima reunión.",
+  "effectDescription.analystApproval":
+    "Cada analista vivo puede avalar a un jugador; solo el anfitrión ve a quién.",
+  "effectDescription.forcedMeeting":
+    "Se abre una reunión de emergencia de inmediato.",
+  "effectDescription.lockRoom":
+    "Elige una sala en el mapa: nadie termina tareas allí hasta que acabe el cierre.",
+  "sabotage.comms": "Comunicaciones caídas",
+  "sabotageFix.reactorUpper": "Mantener el escáner superior del reactor",
+  "sabotageFix.reactorLower": "Mantener el escáner inferior del reactor",
+  "sabotageFix.oxygenAdmin": "Introducir el código de O2 en administración",
+  "sabotageFix.oxygenGreenhouse":
+    "Introducir el código de O2 en el invernadero",
+  "sabotageFix.lightsBreakers": "Rearmar los disyuntores eléctricos",
+  "sabotageFix.commsDish": "Realinear la antena de comunicaciones",
+  "preset.classic": "Clásico",
+  "preset.classic.description": "Las reglas estándar para 4 a 12 jugadores.",
+  "preset.speed": "Ronda rápida",
+  "preset.speed.description":
+    "Listas de tareas cortas para que una ronda dure pocos minutos.",
+  "preset.bigParty": "Gran fiesta",
+  "preset.bigParty.description":
+    "De 8 a 15 jugadores, hasta 5 impostores y todos los roles especiales.",
+  "preset.noAnalyst": "Sin analista",
+  "preset.noAnalyst.description":
+    "Reglas clásicas solo con tripulantes e impostores.",
+  "deck.standardName": "Reglamentario",
+
+  // Mission log
+  "log.roundArmed": {
+    one: "Ronda preparada con {count} impostor. Mirad las cartas en privado antes de seguir.",
+    other:
+      "Ronda preparada con {count} impostores. Mirad las cartas en privado antes de seguir.",
+  },
+  "log.allCardsViewed": "Todas las cartas vistas. Control de misión activo.",
+  "log.revealSkipped": "Reparto omitido. Control de misión activo.",
+  "log.tableResults":
+    "Resultados copiados de las cartas impresas: {eliminated} eliminados, {tasks} tareas hechas.",
+  "log.taskCompleted": "{name} completó «{task}».",
+  "log.taskReopened": "{name} reabrió «{task}».",
+  "log.kill": "{killer} asesinó a {victim}.",
+  "log.sheriffHit": "{sheriff} usó el disparo del sheriff y eliminó a {name}.",
+  "log.sheriffMisfire":
+    "{sheriff} disparó como sheriff a {name}, falló y quedó eliminado.",
+  "log.cardChecked": "{name} consultó su carta en privado.",
+  "log.abilityUsed": "{name} usó {ability}: {result}",
+  "log.bodyReported":
+    "{reporter} encontró el cuerpo de {victim}. Reunión de emergencia convocada.",
+  "log.hostEliminated": "El anfitrión eliminó a {name}.",
+  "log.hostRevived": "Corrección del anfitrión: {name} ha vuelto a la vida.",
+  "log.meetingCalled":
+    "Reunión de emergencia convocada. Resolved las acusaciones rápido.",
+  "log.voteTally": "Recuento: {tally}.",
+  "log.runoffTally": "Recuento del desempate: {tally}.",
+  "log.runoffCalled":
+    "La votación empató. Volved a votar entre las opciones empatadas.",
+  "log.nobodyEjected": "{reason} Nadie fue expulsado.",
+  "log.playerEjected": "{reason} {name} fue expulsado.",
+  "log.voteSkipped": "Votación omitida. La misión continúa.",
+  "log.votingExpired":
+    "Se acabó el tiempo de votación, así que cuenta como omitida. La misión continúa.",
+  "log.promptDrawn": "Nuevo reto: {card}",
+  "log.roomLocked": "{room} queda cerrada durante {seconds} segundos.",
+  "log.effectSwap": "Efecto de carta: los jugadores pasaron una tarea.",
+  "log.effectSilent":
+    "Efecto de carta: ronda en silencio hasta la próxima reunión.",
+  "log.effectApproval":
+    "Efecto de carta: cada analista puede avalar a un jugador.",
+  "log.effectMeeting": "Efecto de carta: se forzó una reunión de emergencia.",
+  "log.effectDismissed": "Efecto de carta descartado: {effect}.",
+  "log.approved": "{analyst} avaló a {name}.",
+  "log.timerStarted": "{timer}: temporizador iniciado en {time}.",
+  "log.timerRanOut": "{timer}: el temporizador llegó a cero.",
+  "log.timerResumed": "{timer}: temporizador reanudado.",
+  "log.timerPaused": "{timer}: temporizador en pausa con {time} restantes.",
+  "log.sabotageStarted": "¡{sabotage}! Arreglos: {fixes}.",
+  "log.sabotageTriggered": "{name} provocó: {sabotage}.",
+  "log.sabotageFixed": "{name} completó «{fix}».",
+  "log.sabotageFixedByEngineer":
+    "{name} reparó por sí solo todo el sabotaje: {sabotage}.",
+  "log.sabotageFixedByHost": "El anfitrión completó «{fix}».",
+  "log.sabotageResolved":
+    "{sabotage} resuelto. El sabotaje se recarga durante {seconds} segundos.",
+  "log.outcome": "Ronda cerrada a favor de {team}: {reason}",
+  "log.draw": "La ronda terminó en empate: {reason}",
+  "log.correctionUndo": "Corrección: se deshizo {step}",
+  "log.correctionRedo": "Corrección: se rehízo {step}",
+  "log.quotedStep": "«{text}»",
+  "log.lastHostChange": "el último cambio del anfitrión.",
+  "log.columnTime": "Hora",
+  "log.columnType": "Tipo",
+  "log.columnEvent": "Evento",
+  "log.hidden": "oculto",
+  "vote.skipped": "La tripulación votó omitir.",
+  "vote.decided": "La votación está decidida.",
+  "vote.noBallots": "No se emitió ningún voto.",
+  "vote.randomTie": "La votación empató y se decidió al azar.",
+  "vote.runoffTied": "El desempate también empató.",
+  "vote.tied": "La votación empató.",
+  "tally.votes": "{name} {votes}",
+  "tally.skip": "Omitir",
+  "tally.unknown": "Desconocido",
+  "tally.abstained": {
+    one: "{count} abstención",
+    other: "{count} abstenciones",
+  },
+  "tally.none": "ningún voto emitido",
+
+  // Round outcomes
+  "outcome.jester": "{name} engañó a la tripulación para que lo expulsaran.",
+  "outcome.impostorsNeutralized": "Todos los impostores fueron neutralizados.",
+  "outcome.parity":
+    "Los impostores igualaron en número al resto y tomaron el control.",
+  "outcome.outnumbered":
+    "Los impostores superaron en número al resto y tomaron el control.",
+  "outcome.tasksDone":
+    "Todas las tareas críticas se completaron antes de que el sabotaje se disparara.",
+  "outcome.missionClock":
+    "El reloj de la misión se agotó antes de que la tripulación terminara.",
+  "outcome.sabotage": "{sabotage} no se arregló a tiempo.",
+  "outcome.hostDraw": "El anfitrión declaró la ronda en empate.",
+  "outcome.tableResult": "El anfitrión anotó el resultado acordado en la mesa.",
+  "winCondition.specialWin": "la victoria propia de un rol",
+  "winCondition.hostDraw": "el anfitrión",
+  "winCondition.tableResult": "el resultado de la mesa",
+  "winCondition.sabotage": "sabotaje crítico",
+  "winCondition.missionClock": "el reloj de la misión",
+  "winCondition.impostorsNeutralized": "impostores neutralizados",
+  "winCondition.impostorsAhead": "número de impostores",
+  "winCondition.tasksDone": "todas las tareas hechas",
+
+  // Rule and input errors
+  "error.nameEmpty": "Escribe un nombre antes de añadir al jugador.",
+  "error.nameTaken": "Ese nombre ya está en la sala.",
+  "error.maxPlayers": "Estas reglas permiten como máximo {count} jugadores.",
+  "error.tooManyPlayers":
+    "Estas reglas permiten como máximo {count} jugadores. Quita alguno o elige un modo más grande.",
+  "error.minPlayers":
+    "Necesitas al menos {count} jugadores para empezar una ronda.",
+  "error.entryEmpty": "Las entradas necesitan algo de texto.",
+  "error.entryTooLong": "Las entradas deben tener menos de {count} caracteres.",
+  "error.invalidDeck": "Ese mazo está incompleto o no es válido.",
+  "error.deckName": "Primero ponle un nombre al mazo.",
+  "error.shortBank":
+    "El rol {role} necesita {needed} tareas, pero «{deck}» solo tiene {available} en esa sección.",
+  "error.killerInvalid":
+    "Solo un impostor que siga en la misión puede asesinar.",
+  "error.victimInvalid":
+    "Los impostores solo pueden asesinar a jugadores del otro bando.",
+  "error.sheriffInvalid":
+    "Solo un sheriff que siga en la misión puede disparar.",
+  "error.sheriffSpent": "{name} ya usó el disparo del sheriff en esta ronda.",
+  "error.shotTargetInvalid":
+    "El sheriff solo puede disparar a otro jugador que siga vivo.",
+  "error.killCooldown": "{name} podrá volver a asesinar en {seconds} segundos.",
+  "error.reporterInvalid":
+    "Solo los jugadores que siguen en la misión pueden informar de un cuerpo.",
+  "error.noBody": "No hay ningún cuerpo sin descubrir.",
+  "error.pinFormat": "El PIN debe tener de 4 a 6 dígitos.",
+  "error.roomLocked": "{room} sigue cerrada durante {time}.",
+  "error.lockPrompt":
+    "Solo una carta de reto que cierra una sala puede hacerlo.",
+  "error.lockActive": "Ya hay una sala cerrada.",
+  "error.effectPending":
+    "Ejecuta o descarta primero el efecto de la carta actual.",
+  "error.promptLimit": "Ya se robaron las {count} cartas de esta ronda.",
+  "error.noPin": "{name} no eligió un PIN durante el reparto.",
+  "error.wrongPin": "Ese PIN no coincide.",
+  "error.abilityRole":
+    "Solo un Analista que siga en la misión puede usar habilidades.",
+  "error.abilityLimit": "{ability} ya está agotado en esta ronda.",
+  "error.abilityCharge":
+    "No quedan cargas. Termina una tarea de apoyo para ganar otra.",
+  "error.scanTarget": "Elige a otro jugador para escanear.",
+  "error.meetingBlocked":
+    "{sabotage} impide las reuniones hasta que se arregle.",
+  "error.invalidBallot":
+    "Solo votan los jugadores que siguen en la misión, y solo entre ellos.",
+  "error.saboteurInvalid":
+    "Solo un impostor que siga en la misión puede sabotear.",
+  "error.sabotageActive": "Primero hay que arreglar: {sabotage}.",
+  "error.sabotageCooldown":
+    "El sabotaje se está recargando durante otros {seconds} segundos.",
+  "error.fixerInvalid":
+    "Solo los jugadores que siguen en la misión pueden arreglar sabotajes.",
+  "error.deckFileJson": "Ese archivo no es JSON válido.",
+  "error.deckFileFormat": "Ese archivo no es un mazo de Imposter Relay.",
+  "error.deckFileVersion":
+    "Los archivos de mazo deben ser de la versión {version}.",
+  "error.deckFileInvalid":
+    "Al mazo le faltan secciones, tiene entradas vacías o demasiado largas, o pide más de {count} tareas por rol.",
+  "error.deckFilePrompts": "Un mazo necesita al menos una carta de reto.",
+  "error.replayFileJson": "Ese archivo de repetición no es JSON válido.",
+  "error.replayFileFormat":
+    "Ese archivo no es una repetición de Imposter Relay.",
+  "error.replayFileVersion":
+    "Los archivos de repetición deben ser de la versión {version}.",
+  "error.replayFileInvalid":
+    "Ese archivo de repetición está dañado o incompleto.",
+  "roomError.notFound": "No hay ninguna sala abierta con ese código.",
+  "roomError.hostOnly": "Solo el anfitrión puede cerrar esta sala.",
+  "roomError.notSeated": "Este dispositivo no tiene asiento en la sala.",
+  "roomError.noAction": "Envía una acción de juego para aplicarla.",
+  "roomError.replaceState":
+    "El estado de la sala solo cambia mediante acciones de juego.",
+  "roomError.actionFailed": "No se pudo aplicar esa acción.",
+  "roomError.invalidAction":
+    "A esa acción le faltan campos o tiene valores no válidos.",
+  "roomError.pickSeat": "Elige tu nombre en la lista para unirte.",
+  "roomError.seatTaken": "Ese asiento ya está ocupado en otro dispositivo.",
+  "roomError.invalidState":
+    "La sala necesita un estado de juego válido para empezar.",
+  "roomError.playerActions":
+    "Los jugadores solo pueden cambiar sus tareas, su voto, sus sabotajes y sus asesinatos.",
+  "roomError.requestFailed":
+    "La petición a la sala falló con el estado {status}.",
+  "roomError.unreachable": "No se pudo contactar con el servidor de la sala.",
+
+  // Interface
+  "missionLog.title": "Registro de misión",
+  "missionLog.titleSeeded": "Registro de misión — semilla {seed}",
+  "missionLog.description":
+    "Todo lo ocurrido en esta ronda. Las entradas más recientes van arriba; las discontinuas revelan roles secretos.",
+  "missionLog.filterPlayer": "Filtrar por jugador",
+  "missionLog.allPlayers": "Todos los jugadores",
+  "missionLog.filterType": "Filtrar por tipo de evento",
+  "missionLog.allEvents": "Todos los eventos",
+  "missionLog.publicOnly":
+    "Vista pública: oculta las entradas secretas en pantalla y al exportar",
+  "missionLog.noMatches": "Ninguna entrada coincide con estos filtros.",
+  "missionLog.empty":
+    "Registro en espera. Los avances aparecerán aquí cuando la ronda esté en marcha.",
+  "missionLog.exportJson": "Exportar JSON",
+  "missionLog.exportMarkdown": "Exportar Markdown",
+  "timers.resume": "Reanudar",
+  "timers.pause": "Pausar",
+  "timers.paused": "En pausa",
+  "sabotagePanel.critical": "Crítico",
+  "sabotagePanel.blocksMeetings":
+    "No se pueden convocar reuniones hasta que se arregle.",
+  "sabotagePanel.title": "Sabotaje",
+  "sabotagePanel.description":
+    "Los sabotajes críticos inician una cuenta atrás; los impostores ganan si la tripulación no los arregla a tiempo.",
+  "sabotagePanel.readyAgain": "Disponible de nuevo desde las {time}.",
+  "deckEditor.title": "Editor de mazos",
+  "deckEditor.untitled": "Mazo sin nombre",
+  "deckEditor.nameFirst": "Ponle nombre al mazo antes de guardarlo.",
+  "deckEditor.saved": "«{name}» guardado en este navegador.",
+  "deckEditor.loaded": "«{name}» cargado.",
+  "deckEditor.deleted": "«{name}» eliminado.",
+  "deckEditor.imported": "«{name}» importado.",
+  "deckEditor.unreadable": "No se pudo leer ese archivo.",
+  "deckEditor.packName": "Nombre del mazo",
+  "deckEditor.savedPacks": "Mazos guardados",
+  "deckEditor.choosePack": "Elige un mazo",
+  "deckEditor.save": "Guardar mazo",
+  "deckEditor.load": "Cargar",
+  "deckEditor.delete": "Eliminar",
+  "deckEditor.exportJson": "Exportar JSON",
+  "deckEditor.importJson": "Importar JSON",
+  "deckEditor.restoreStandard": "Restaurar el estándar",
+  "deckEditor.roleTasks": "Tareas de {role}",
+  "deckEditor.newEntry": "Nueva entrada en {section}",
+  "deckEditor.tagsPlaceholder": "Etiquetas, separadas por comas",
+  "deckEditor.addEntry": "Añadir entrada",
+  "deckEditor.filterTag": "Filtrar por etiqueta",
+  "deckEditor.allEntries": "Todas las entradas",
+  "deckEditor.emptySection": "Todavía no hay nada en esta sección.",
+  "deckEditor.entryTags": "Etiquetas de {entry}",
+  "deckEditor.room": "Sala",
+  "deckEditor.anyRoom": "Cualquier sala",
+  "deckEditor.entryRoom": "Sala de {entry}",
+  "deckEditor.effect": "Efecto",
+  "deckEditor.noEffect": "Sin efecto",
+  "deckEditor.entryEffect": "Efecto de {entry}",
+  "deckEditor.addTags": "Añadir etiquetas",
+  "deckEditor.remove": "Quitar",
+  "leaderboard.title": "Clasificación",
+  "leaderboard.onRecord": {
+    one: "{count} ronda terminada registrada.",
+    other: "{count} rondas terminadas registradas.",
+  },
+  "leaderboard.empty":
+    "Las rondas terminadas se registran aquí automáticamente.",
+  "leaderboard.lastRound": "Última ronda: {winner}.",
+  "leaderboard.ejected": "Expulsados: {names}.",
+  "leaderboard.nobodyEjected": "Nadie fue expulsado.",
+  "leaderboard.wins": {
+    one: "{rate} de victorias en {count} ronda",
+    other: "{rate} de victorias en {count} rondas",
+  },
+  "leaderboard.impostorSurvival": "Supervivencia como impostor {rate}",
+  "leaderboard.correctEjections": "Expulsiones acertadas {rate}",
+  "leaderboard.exportCsv": "Exportar CSV",
+  "leaderboard.clear": "Borrar estadísticas",
+  "leaderboard.unknownPlayer": "Jugador desconocido",
+  "replay.title": "Repetición de la ronda",
+  "replay.description":
+    "Recorre cada cambio de una ronda terminada: quién seguía vivo, el progreso de tareas, los resultados de las reuniones y el momento en que se decidió. Guarda la repetición en un archivo para revisarla después.",
+  "replay.save": "Guardar repetición",
+  "replay.load": "Cargar repetición",
+  "replay.loaded": "Repetición cargada desde el archivo.",
+  "replay.unreadable": "No se pudo leer ese archivo de repetición.",
+  "replay.showCurrent": "Volver a esta ronda",
+  "replay.previous": "Anterior",
+  "replay.next": "Siguiente",
+  "replay.scrub": "Posición de la repetición",
+  "replay.jumpToOutcome": "Ir al resultado",
+  "replay.step": "Paso {step} de {total} · {time}",
+  "replay.crewTasks": "Tareas de tripulación {completed}/{total}",
+  "replay.decided": "Aquí se decidió la ronda",
+  "replay.tasks": "tareas {completed}/{total}",
+  "replay.moments": "Momentos clave",
+  "rules.title": "Reglas",
+  "rules.custom": "Personalizado",
+  "rules.preset": "Modo de juego",
+  "rules.presetNote":
+    "Aplicar un modo también ajusta los roles opcionales y el número de tareas del mazo.",
+  "rules.minPlayers": "Mínimo de jugadores",
+  "rules.maxPlayers": "Máximo de jugadores",
+  "rules.playersPerImpostor": "Jugadores por impostor",
+  "rules.maxImpostors": "Máximo de impostores",
+  "rules.roleFrom": "{role} desde",
+  "rules.parity":
+    "Los impostores ganan al igualar en número (si no, deben superar al resto)",
+  "rules.ghostTasks":
+    "Modo fantasma: los eliminados siguen haciendo sus tareas (si no, sus tareas salen del total)",
+  "rules.promptDrawLimit": "Cartas por ronda",
+  "balance.title": "Equilibrio",
+  "balance.description":
+    "Unos bots juegan {rounds} rondas de esta sala por cada número de impostores y de tareas de la tripulación, con el reparto y las reglas de victoria reales. Toma el resultado como una guía aproximada.",
+  "balance.run": "Simular",
+  "balance.running": "Simulando…",
+  "balance.recommended": {
+    one: "Se recomienda {count} impostor",
+    other: "Se recomiendan {count} impostores",
+  },
+  "balance.use": {
+    one: "Usar {count} impostor",
+    other: "Usar {count} impostores",
+  },
+  "balance.split":
+    "Reparto esperado: tripulación {crew}% · impostores {impostors}%",
+  "balance.tasks": {
+    one: "{count} tarea",
+    other: "{count} tareas",
+  },
+  "balance.cell": "{crew}% / {impostors}%",
+  "balance.noRounds": "Mazo insuficiente",
+  "print.foldHint": "Dobla por la línea. Ábrela solo cuando empiece la ronda.",
+  "print.hostSheet": "Hoja del anfitrión",
+  "print.seed": "Semilla: {seed}",
+  "print.player": "Jugador",
+  "print.role": "Rol",
+  "print.tasks": "Tareas",
+  "print.prompts": "Mazo de consignas",
+  "results.title": "Anotar resultados de la mesa",
+  "results.description":
+    "¿Jugasteis con cartas impresas? Marca quién fue eliminado y cada tarea tachada, y elige el ganador o deja que decidan las reglas de victoria. Esto reemplaza los estados y las tareas en pantalla.",
+  "results.eliminated": "{name} fue eliminado",
+  "results.winner": "Ganador",
+  "results.auto": "Decidir según los resultados",
+  "results.teams": "Elegir los equipos ganadores",
+  "results.save": "Guardar resultados",
+  "display.waiting":
+    "Esperando a la pantalla del anfitrión. Mantén el centro de control abierto en otra ventana de este navegador.",
+  "display.ballotsCast": "{cast} / {voters} votos emitidos.",
+  "display.runoff": "Desempate entre {names}.",
+  "display.latestEvents": "Últimos eventos",
+  "display.noEvents": "Todavía no ha pasado nada.",
+  "stats.alive": "Vivos",
+  "stats.eliminated": "Eliminados",
+  "stats.crewTasks": "% de tareas",
+  "stats.crewTasksComplete":
+    "{completed} / {total} tareas de tripulación completadas",
+  "status.alive": "En misión",
+  "status.eliminated": "Eliminado",
+  "meta.title": "Imposter Relay | Consola del anfitrión",
+  "meta.description":
+    "Dirige una ronda completa de deducción social desde el navegador con cartas de jugador, seguimiento de tareas y reuniones de emergencia.",
+  "meta.playTitle": "Imposter Relay | Carta de jugador",
+  "meta.playDescription":
+    "Únete a una ronda y guarda tu rol secreto en tu propio móvil.",
+  "meta.displayTitle": "Imposter Relay | Pantalla pública",
+  "meta.displayDescription":
+    "Una vista de la ronda apta para proyector que nunca muestra roles ni objetivos.",
+  "locale.label": "Idioma",
+  "player.roomClosed": "La sala se cerró o tu asiento quedó libre.",
+  "player.codeMissing":
+    "Escribe el código de sala que aparece en la pantalla del anfitrión.",
+  "player.title": "Carta de jugador de Imposter Relay",
+  "player.subtitle":
+    "Guarda tu rol secreto en tu propia pantalla. Solo tú puedes ver esta carta.",
+  "room.tag": "Sala {code}",
+  "player.joinTitle": "Unirse a una sala",
+  "player.joinDescription":
+    "Escribe el código de la pantalla del anfitrión y elige tu nombre.",
+  "player.codePlaceholder": "Código de sala",
+  "player.findRoom": "Buscar sala",
+  "player.noPlayers": "El anfitrión todavía no ha añadido jugadores.",
+  "player.alreadyJoined": "Ya está dentro",
+  "player.tapToJoin": "Toca para entrar",
+  "player.connecting": "Conectando con la sala…",
+  "player.leaveSeat": "Dejar el asiento",
+  "player.waitingForRoles": "Esperando a que el anfitrión reparta los roles.",
+  "player.revealHint": "Asegúrate de que nadie mira y luego descubre tu rol.",
+  "player.ghostHint":
+    "Eres un fantasma: sigue con tus tareas, pero no puedes votar ni informar de cuerpos.",
+  "card.hideRole": "Ocultar rol",
+  "card.revealRole": "Ver rol",
+  "player.killTitle": "Asesinar",
+  "player.killDescription": "Toca un nombre cuando esté hecho.",
+  "player.shotTitle": "Disparo del sheriff",
+  "player.shotDescription":
+    "Una vez por ronda: si nombras a un impostor queda eliminado, pero si no, pierdes tu propia vida.",
+  "player.voteTitle": "Tu voto",
+  "player.voteDescription":
+    "Toca un nombre para votar, o tócalo otra vez para retirar tu voto.",
+  "player.approveTitle": "Avalar",
+  "player.approveDescription":
+    "Avala a un jugador. Solo el anfitrión verá tu elección.",
+  "host.title": "Centro de control de Imposter Relay",
+  "host.subtitle":
+    "Dirige una partida completa de deducción social desde una sola pantalla. Añade jugadores, reparte roles ocultos, sigue el progreso y resuelve reuniones de emergencia sin reglamento aparte.",
+  "host.tasksPercent": "{percent}% de tareas de tripulación completadas",
+  "host.undo": "Deshacer",
+  "host.redo": "Rehacer",
+  "host.callMeeting": "Convocar reunión",
+  "host.drawPrompt": "Sacar reto",
+  "host.declareDraw": "Declarar empate",
+  "host.printCards": "Imprimir cartas",
+  "host.startRound": "Empezar ronda",
+  "host.clearLobby": "Vaciar la sala",
+  "host.resetRound": "Preparar nueva ronda",
+  "stats.players": "Jugadores",
+  "stats.aliveCrew": "Tripulantes vivos",
+  "stats.aliveImpostors": "Impostores vivos",
+  "resume.title": "¿Reanudar la sesión guardada?",
+  "resume.summary": {
+    one: "{phase} con {count} jugador, guardada a las {time}.",
+    other: "{phase} con {count} jugadores, guardada a las {time}.",
+  },
+  "resume.resume": "Reanudar sesión",
+  "resume.discard": "Empezar de cero",
+  "panel.lobby": "Prepara tu sala",
+  "panel.lobby.description":
+    "Añade a cada jugador, elige cuántos impostores habrá y prepara la próxima ronda de deducción.",
+  "panel.reveal": "Reparto de cartas",
+  "panel.reveal.description":
+    "Pasa el dispositivo a cada jugador en privado para que vea su carta de rol.",
+  "panel.mission": "Seguimiento de la misión",
+  "panel.mission.description":
+    "Sigue las tareas, marca las eliminaciones y saca cartas de reto para añadir tensión.",
+  "panel.meeting": "Consola de votación de emergencia",
+  "panel.meeting.description":
+    "Debatid el sabotaje, elegid a un sospechoso y decidid si expulsarlo u omitir.",
+  "panel.ended": "Resumen de la ronda",
+  "panel.ended.description":
+    "Celebrad la victoria, repasad la lista y preparad la siguiente ronda.",
+  "lobby.namePlaceholder": "Nombre del jugador",
+  "lobby.addPlayer": "Añadir jugador",
+  "lobby.impostors": "Impostores",
+  "lobby.tieRule": "Empates",
+  "lobby.seed": "Semilla de la ronda",
+  "lobby.seedPlaceholder": "Aleatoria",
+  "lobby.discussionSeconds": "Debate (s)",
+  "lobby.votingSeconds": "Votación (s)",
+  "lobby.missionMinutes": "Límite de misión (min)",
+  "lobby.off": "Sin límite",
+  "lobby.roundStatus": "Estado de la ronda",
+  "lobby.awaitingLaunch": "Esperando el inicio",
+  "lobby.empty":
+    "Todavía no hay jugadores. Añade al menos {count} nombres para empezar una ronda.",
+  "lobby.remove": "Quitar",
+  "lobby.joinedRemotely": "Conectado desde su propio dispositivo.",
+  "lobby.ready": "Listo para el reparto de roles.",
+  "reveal.passDevice": "Pasa el dispositivo a",
+  "reveal.hint":
+    "Toca «Ver rol» para mostrar su rol secreto y luego pasa al siguiente jugador.",
+  "reveal.roomHint":
+    "Los jugadores sentados en la sala {code} pueden ver su carta en su propio móvil.",
+  "reveal.next": "Siguiente jugador",
+  "reveal.skip": "Omitir el resto",
+  "reveal.pinLabel": "PIN para volver a consultar tu carta",
+  "reveal.pinSave": "Guardar PIN",
+  "reveal.pinSaved": "PIN guardado.",
+  "mission.noPlayers": "No hay jugadores. Vuelve a la sala y añade jugadores.",
+  "mission.status": "Estado de la misión",
+  "mission.tasksComplete": "{completed} / {total} tareas completadas",
+  "mission.eliminate": "Eliminar",
+  "mission.revive": "Revivir",
+  "mission.killLabel": "Asesinato de {name}",
+  "mission.killPlaceholder": "Asesinar a un jugador…",
+  "mission.shotLabel": "Disparo del sheriff de {name}",
+  "mission.shotPlaceholder": "Usar el disparo del sheriff…",
+  "mission.approveLabel": "Aval de {name}",
+  "mission.approvePlaceholder": "Avalar a un jugador…",
+  "mission.reportLabel": "Informar del cuerpo de {name}",
+  "mission.reportPlaceholder": "Cuerpo encontrado por…",
+  "mission.noObjectives": "Este rol no tiene objetivos asignados.",
+  "mission.locationLabel": "Dónde está {name}",
+  "mission.noLocation": "Ubicación desconocida",
+  "map.title": "Mapa de la nave",
+  "map.lockHint":
+    "La carta de reto cierra una sala: elige la que decidió la mesa.",
+  "map.tasks": "{open} de {total} tareas pendientes",
+  "map.locked": "Cerrada · {time}",
+  "map.lock": "Cerrar",
+  "cardCheck.title": "Consultar mi carta",
+  "cardCheck.description":
+    "Elige tu nombre e introduce el PIN que pusiste durante el reparto. Solo aparecen tu rol y tus tareas, y se ocultan de nuevo a los {seconds} segundos.",
+  "cardCheck.player": "Jugador",
+  "cardCheck.pin": "PIN",
+  "cardCheck.open": "Ver mi carta",
+  "cardCheck.owner": "Carta de {name}",
+  "cardCheck.closesIn": "Se oculta en {seconds} s",
+  "cardCheck.close": "Ocultar ya",
+  "cardCheck.gridHidden":
+    "Las cartas de los jugadores se ocultan mientras alguien consulta la suya.",
+  "abilities.title": "Habilidades del Analista",
+  "abilities.charges": {
+    one: "Te queda {count} carga. Termina tareas de apoyo para ganar más.",
+    other: "Te quedan {count} cargas. Termina tareas de apoyo para ganar más.",
+  },
+  "abilities.scanTarget": "Jugador a escanear…",
+  "abilities.use": "{ability} (quedan {count})",
+  "meeting.runoff": "Desempate: solo se puede elegir a {names}, u omitir.",
+  "meeting.voteLabel": "Voto de {name}",
+  "meeting.noVote": "Sin votar",
+  "meeting.cannotVote": "Eliminado: no puede votar",
+  "meeting.closeVoting": "Cerrar votación",
+  "meeting.skipVote": "Omitir votación",
+  "summary.seed":
+    "Semilla de la ronda {seed}: úsala con la misma lista para repetir este reparto.",
+  "summary.survived": "sobrevivió",
+  "summary.draw": "Empate",
+  "summary.sharedWin": "Victoria compartida: {teams}",
+  "summary.condition": "Decidido por {condition} a las {time}",
+  "summary.nextRound": "Preparar la siguiente ronda",
+  "summary.emptyLobby": "Volver a una sala vacía",
+  "prompts.title": "Mazo de retos",
+  "prompts.description": "Saca una carta de tensión para agitar la misión.",
+  "prompts.empty": "Todavía no hay reto. Pulsa el botón de abajo.",
+  "prompts.effect": "Efecto: {effect}",
+  "prompts.runEffect": "Aplicar efecto",
+  "prompts.dismissEffect": "Descartar",
+  "prompts.drawn": "{count}/{limit} cartas robadas esta ronda",
+  "prompts.silentRound":
+    "Ronda en silencio: nadie habla hasta la próxima reunión",
+  "devices.title": "Dispositivos de los jugadores",
+  "devices.description":
+    "Abre una sala para que cada jugador vea su rol y marque sus tareas en su propio móvil.",
+  "devices.roomCode": "Código de sala",
+  "devices.joined": "{joined} / {total} dispositivos conectados.",
+  "devices.joinAt": "Los jugadores entran en {url}",
+  "devices.close": "Cerrar sala",
+  "devices.open": "Abrir sala",
+  "display.title": "Pantalla pública",
+  "display.description":
+    "Pon esta ventana en un proyector o pantalla compartida. Muestra la fase, los temporizadores y el progreso, pero nunca roles ni objetivos.",
+  "display.open": "Abrir pantalla",
+  "quickReset.title": "Reinicio rápido",
+  "quickReset.description":
+    "¿Necesitas empezar de nuevo? Reinicia la ronda actual o vacía la sala.",
+  "quickReset.round": "Reiniciar ronda",
+};
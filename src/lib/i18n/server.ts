@@ -0,0 +1,10 @@
+import { cookies } from "next/headers";
+import { DEFAULT_LOCALE, LOCALE_COOKIE } from "./locales";
+import type { Locale } from "./locales";
+import { isLocale } from "./translate";
+
+/** The locale the visitor last picked, as remembered in the locale cookie. */
+export const getRequestLocale = async (): Promise<Locale> => {
+  const stored = (await cookies()).get(LOCALE_COOKIE)?.value;
+  return isLocale(stored) ? stored : DEFAULT_LOCALE;
+};
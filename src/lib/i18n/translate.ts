@@ -0,0 +1,81 @@
+import { isNumber, isOneOf, isRecord, isString } from "@/lib/game/guards";
+import { DEFAULT_LOCALE, LOCALES } from "./locales";
+import type { Locale } from "./locales";
+import { en } from "./messages/en";
+import { es } from "./messages/es";
+import type { MessageKey, Template } from "./messages/en";
+
+export type { MessageKey } from "./messages/en";
+
+/**
+ * Parameters may nest whole messages, such as a label inside a log line, or a
+ * list of them, which is joined with a middle dot.
+ */
+export type MessageParams = {
+  [name: string]: string | number | Message | Message[];
+};
+
+/** Text stored as a catalogue key so it can be shown in any locale later. */
+export type Message = { key: MessageKey; params?: MessageParams };
+
+const CATALOGUES: Record<Locale, Partial<Record<MessageKey, Template>>> = {
+  en,
+  es,
+};
+
+const MESSAGE_KEYS = Object.keys(en) as MessageKey[];
+
+export const msg = (key: MessageKey, params?: MessageParams): Message =>
+  params ? { key, params } : { key };
+
+// Missing keys fall back to English, which has every key by construction.
+const pickTemplate = (
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams,
+) => {
+  const template = CATALOGUES[locale][key] ?? en[key];
+  if (isString(template)) return template;
+  const count = params.count;
+  return isNumber(count) && new Intl.PluralRules(locale).select(count) === "one"
+    ? template.one
+    : template.other;
+};
+
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {},
+): string =>
+  pickTemplate(locale, key, params).replace(/\{(\w+)\}/g, (match, name) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    if (Array.isArray(value)) {
+      return value.map((item) => translateMessage(locale, item)).join(" · ");
+    }
+    return isRecord(value) ? translateMessage(locale, value) : String(value);
+  });
+
+export const translateMessage = (locale: Locale, message: Message) =>
+  translate(locale, message.key, message.params);
+
+/** English rendering for archives and exports that outlive the UI locale. */
+export const toDefaultText = (message: Message) =>
+  translateMessage(DEFAULT_LOCALE, message);
+
+export const isLocale = isOneOf(LOCALES);
+
+export const isMessageKey = isOneOf(MESSAGE_KEYS);
+
+export const isMessage = (value: unknown): value is Message =>
+  isRecord(value) &&
+  isMessageKey(value.key) &&
+  (value.params === undefined ||
+    (isRecord(value.params) &&
+      Object.values(value.params).every(
+        (param) =>
+          isString(param) ||
+          isNumber(param) ||
+          isMessage(param) ||
+          (Array.isArray(param) && param.every(isMessage)),
+      )));
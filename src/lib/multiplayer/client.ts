@@ -0,0 +1,113 @@
+import type { GameState } from "@/lib/game/engine";
+import type { HistoryAction } from "@/lib/game/history";
+import { isMessage, msg, toDefaultText } from "@/lib/i18n/translate";
+import type { Message } from "@/lib/i18n/translate";
+import type {
+  HostSnapshot,
+  PlayerSeat,
+  PlayerView,
+  RoomCredentials,
+  RoomRoster,
+} from "./types";
+
+/** A failed room request, carrying the server's reason as a catalogue message. */
+export class RoomRequestError extends Error {
+  readonly detail: Message;
+
+  constructor(detail: Message) {
+    super(toDefaultText(detail));
+    this.name = "RoomRequestError";
+    this.detail = detail;
+  }
+}
+
+/** What to show for a rejected room call, including network failures. */
+export const describeRoomError = (reason: unknown): Message =>
+  reason instanceof RoomRequestError
+    ? reason.detail
+    : msg("roomError.unreachable");
+
+const roomPath = (code: string) => `/api/rooms/${encodeURIComponent(code)}`;
+
+const request = async <T>(
+  path: string,
+  init: RequestInit & { token?: string } = {},
+): Promise<T> => {
+  const { token, headers, ...rest } = init;
+  const response = await fetch(path, {
+    ...rest,
+    headers: {
+      "Content-Type": "application/json",
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      ...headers,
+    },
+  });
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new RoomRequestError(
+      isMessage(body?.message)
+        ? body.message
+        : msg("roomError.requestFailed", { status: response.status }),
+    );
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+export const createRoom = (state: GameState) =>
+  request<RoomCredentials>("/api/rooms", {
+    method: "POST",
+    body: JSON.stringify({ state }),
+  });
+
+export const closeRoom = (room: RoomCredentials) =>
+  request<void>(roomPath(room.code), { method: "DELETE", token: room.token });
+
+export const fetchRoster = (code: string) =>
+  request<RoomRoster>(roomPath(code.trim().toUpperCase()));
+
+export const joinRoom = (code: string, playerId: string) =>
+  request<PlayerSeat>(`${roomPath(code)}/join`, {
+    method: "POST",
+    body: JSON.stringify({ playerId }),
+  });
+
+export const sendRoomAction = <T extends HostSnapshot | PlayerView>(
+  room: RoomCredentials,
+  action: HistoryAction,
+) =>
+  request<T>(`${roomPath(room.code)}/actions`, {
+    method: "POST",
+    token: room.token,
+    body: JSON.stringify({ action }),
+  });
+
+export const roomEventsUrl = (room: RoomCredentials) =>
+  `${roomPath(room.code)}/events?token=${encodeURIComponent(room.token)}`;
+
+export const playerJoinUrl = (code: string) =>
+  `${window.location.origin}/play?room=${encodeURIComponent(code)}`;
+
+/**
+ * Subscribes to a room's event stream. `onClosed` fires when the host ends the
+ * room or the server refuses the token; transient drops reconnect on their own.
+ */
+export const subscribeToRoomEvents = <T>(
+  room: RoomCredentials,
+  onSnapshot: (snapshot: T) => void,
+  onClosed: () => void,
+) => {
+  const source = new EventSource(roomEventsUrl(room));
+  source.addEventListener("snapshot", (event) => {
+    onSnapshot(JSON.parse((event as MessageEvent<string>).data) as T);
+  });
+  source.addEventListener("closed", () => {
+    source.close();
+    onClosed();
+  });
+  source.onerror = () => {
+    if (source.readyState === EventSource.CLOSED) {
+      onClosed();
+    }
+  };
+  return () => source.close();
+};
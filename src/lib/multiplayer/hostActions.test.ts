@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { toHostAction } from "./hostActions";
+
+describe("toHostAction", () => {
+  it("keeps a well-formed action and drops stray fields", () => {
+    expect(
+      toHostAction({
+        type: "callMeeting",
+        at: 3_000,
+        state: { phase: "ended" },
+      }),
+    ).toEqual({ type: "callMeeting", at: 3_000 });
+    expect(
+      toHostAction({ type: "setRules", rules: { maxPlayers: 9 } }),
+    ).toEqual({ type: "setRules", rules: { maxPlayers: 9 } });
+  });
+
+  it("rejects unknown types, missing fields and bad values", () => {
+    expect(toHostAction({ type: "replaceState", state: {} })).toBeNull();
+    expect(toHostAction({ type: "callMeeting" })).toBeNull();
+    expect(
+      toHostAction({ type: "setRules", rules: { maxPlayers: "many" } }),
+    ).toBeNull();
+    expect(
+      toHostAction({ type: "setRules", rules: { cheat: true } }),
+    ).toBeNull();
+    expect(
+      toHostAction({ type: "lockRoom", room: "roof", at: 3_000 }),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+import { ANALYST_ABILITIES } from "@/lib/game/abilities";
+import { DECK_SECTIONS, isDeckPack } from "@/lib/game/decks";
+import {
+  isArrayOf,
+  isNullable,
+  isNumber,
+  isOneOf,
+  isRecord,
+  isString,
+} from "@/lib/game/guards";
+import type { HistoryAction } from "@/lib/game/history";
+import { ROOMS } from "@/lib/game/map";
+import { CLASSIC_RULES, PRESET_IDS, isRuleSet } from "@/lib/game/presets";
+import { PROMPT_EFFECTS } from "@/lib/game/prompts";
+import { SABOTAGE_KINDS } from "@/lib/game/sabotage";
+import {
+  DEFAULT_TIMER_SETTINGS,
+  TIMER_KINDS,
+  isTimerSettings,
+} from "@/lib/game/timers";
+import { ROLES, TIE_RULES, WINNERS } from "@/lib/game/types";
+import type { TableResults } from "@/lib/game/types";
+
+/** Everything the host may send a room; whole states never go over the wire. */
+export type HostAction = Exclude<HistoryAction, { type: "replaceState" }>;
+
+type FieldGuards<A> = {
+  [F in Exclude<keyof A, "type">]-?: (value: unknown) => value is A[F];
+};
+
+/** A partial update whose keys all belong to `base` and whose result is valid. */
+const isPatchOf =
+  <T extends object>(base: T, guard: (value: unknown) => value is T) =>
+  (value: unknown): value is Partial<T> =>
+    isRecord(value) &&
+    Object.keys(value).every((key) => key in base) &&
+    guard({ ...base, ...value });
+
+const isTableResults = (value: unknown): value is TableResults =>
+  isRecord(value) &&
+  isArrayOf(isString)(value.eliminatedIds) &&
+  isArrayOf(isString)(value.completedTaskIds) &&
+  isNullable(isArrayOf(isOneOf(WINNERS)))(value.winners);
+
+const isRoom = isOneOf(ROOMS);
+const isSection = isOneOf(DECK_SECTIONS);
+const isTags = isArrayOf(isString);
+
+// The fields each action carries, so a malformed body never reaches the
+// reducer and stray fields never reach the state.
+const HOST_ACTION_FIELDS: {
+  [K in HostAction["type"]]: FieldGuards<Extract<HostAction, { type: K }>>;
+} = {
+  addPlayer: { id: isString, name: isString },
+  removePlayer: { playerId: isString },
+  setImpostorCount: { count: isNumber },
+  setTieRule: { tieRule: isOneOf(TIE_RULES) },
+  toggleRole: { role: isOneOf(ROLES) },
+  applyPreset: { presetId: isOneOf(PRESET_IDS) },
+  setRules: { rules: isPatchOf(CLASSIC_RULES, isRuleSet) },
+  addDeckEntry: {
+    section: isSection,
+    id: isString,
+    text: isString,
+    tags: isTags,
+    room: isNullable(isRoom),
+    effect: isNullable(isOneOf(PROMPT_EFFECTS)),
+  },
+  removeDeckEntry: { section: isSection, entryId: isString },
+  tagDeckEntry: { section: isSection, entryId: isString, tags: isTags },
+  setDeckEntryRoom: {
+    section: isSection,
+    entryId: isString,
+    room: isNullable(isRoom),
+  },
+  setDeckEntryEffect: {
+    section: isSection,
+    entryId: isString,
+    effect: isNullable(isOneOf(PROMPT_EFFECTS)),
+  },
+  setDeckName: { name: isString },
+  setTaskCount: { role: isOneOf(ROLES), count: isNumber },
+  loadDeck: { deck: isDeckPack },
+  setTimerSettings: {
+    settings: isPatchOf(DEFAULT_TIMER_SETTINGS, isTimerSettings),
+  },
+  resetLobby: {},
+  startRound: { at: isNumber, seed: isString },
+  nextCard: { at: isNumber },
+  skipReveal: { at: isNumber },
+  setPin: { playerId: isString, pin: isString },
+  checkCard: { playerId: isString, pin: isString, at: isNumber },
+  toggleTask: { playerId: isString, taskId: isString, at: isNumber },
+  setLocation: { playerId: isString, room: isNullable(isRoom) },
+  lockRoom: { room: isRoom, at: isNumber },
+  killPlayer: { killerId: isString, victimId: isString, at: isNumber },
+  reportBody: { reporterId: isString, victimId: isString, at: isNumber },
+  sheriffShot: { sheriffId: isString, targetId: isString, at: isNumber },
+  useAbility: {
+    playerId: isString,
+    ability: isOneOf(ANALYST_ABILITIES),
+    targetId: isNullable(isString),
+    at: isNumber,
+  },
+  eliminatePlayer: { playerId: isString, at: isNumber },
+  revivePlayer: { playerId: isString, at: isNumber },
+  callMeeting: { at: isNumber },
+  castVote: { voterId: isString, targetId: isNullable(isString) },
+  closeVoting: { at: isNumber },
+  skipVote: { at: isNumber },
+  drawPrompt: { at: isNumber },
+  runPromptEffect: { at: isNumber },
+  dismissPromptEffect: { at: isNumber },
+  approvePlayer: { analystId: isString, targetId: isString, at: isNumber },
+  toggleTimer: { kind: isOneOf(TIMER_KINDS), at: isNumber },
+  triggerSabotage: {
+    kind: isOneOf(SABOTAGE_KINDS),
+    playerId: isNullable(isString),
+    at: isNumber,
+  },
+  fixSabotage: {
+    fixId: isString,
+    playerId: isNullable(isString),
+    at: isNumber,
+  },
+  expireTimers: { at: isNumber },
+  declareDraw: { at: isNumber },
+  enterResults: { results: isTableResults, at: isNumber },
+  resetRound: {},
+  undo: { at: isNumber },
+  redo: { at: isNumber },
+};
+
+const isHostActionType = isOneOf(
+  Object.keys(HOST_ACTION_FIELDS) as HostAction["type"][],
+);
+
+/** The action with only its own fields, or null if any is missing or wrong. */
+export const toHostAction = (
+  action: Record<string, unknown>,
+): HostAction | null => {
+  if (!isHostActionType(action.type)) return null;
+  const fields: Record<string, (value: unknown) => boolean> =
+    HOST_ACTION_FIELDS[action.type];
+  const entries = Object.entries(fields);
+  if (!entries.every(([field, guard]) => guard(action[field]))) return null;
+  return {
+    type: action.type,
+    ...Object.fromEntries(entries.map(([field]) => [field, action[field]])),
+  } as HostAction;
+};
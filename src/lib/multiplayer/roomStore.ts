@@ -0,0 +1,169 @@
+import type { GameState } from "@/lib/game/engine";
+import { DEFAULT_LOCALE } from "@/lib/i18n/locales";
+import { msg, translate } from "@/lib/i18n/translate";
+import type { MessageKey } from "@/lib/i18n/translate";
+import { createHistory, historyReducer } from "@/lib/game/history";
+import type { GameHistory, HistoryAction } from "@/lib/game/history";
+import { generateCode } from "@/lib/game/random";
+import type { HostSnapshot, PlayerView } from "./types";
+import { buildPlayerView } from "./views";
+
+// Rooms live in this process only. `next start` runs a single server, which is
+// all a party on one local network needs.
+
+const ROOM_CODE_LENGTH = 4;
+const ROOM_IDLE_LIMIT_MS = 12 * 60 * 60 * 1000;
+
+export type Room = {
+  code: string;
+  hostToken: string;
+  history: GameHistory;
+  seats: Map<string, string>;
+  updatedAt: number;
+};
+
+export type RoomIdentity =
+  { kind: "host" } | { kind: "player"; playerId: string };
+
+type RoomListener = (room: Room | null) => void;
+
+type RoomRegistry = {
+  rooms: Map<string, Room>;
+  listeners: Map<string, Set<RoomListener>>;
+};
+
+// Kept on globalThis so dev-mode module reloads do not drop open rooms.
+const globalRegistry = globalThis as typeof globalThis & {
+  __imposterRelayRooms?: RoomRegistry;
+};
+
+const registry: RoomRegistry = (globalRegistry.__imposterRelayRooms ??= {
+  rooms: new Map(),
+  listeners: new Map(),
+});
+
+const notify = (code: string, room: Room | null) => {
+  registry.listeners.get(code)?.forEach((listener) => listener(room));
+};
+
+export const normalizeRoomCode = (code: string) => code.trim().toUpperCase();
+
+export const closeRoom = (code: string) => {
+  const normalized = normalizeRoomCode(code);
+  if (!registry.rooms.delete(normalized)) return false;
+  notify(normalized, null);
+  registry.listeners.delete(normalized);
+  return true;
+};
+
+const sweepIdleRooms = (now: number) => {
+  registry.rooms.forEach((room, code) => {
+    if (now - room.updatedAt > ROOM_IDLE_LIMIT_MS) {
+      closeRoom(code);
+    }
+  });
+};
+
+export const getRoom = (code: string) =>
+  registry.rooms.get(normalizeRoomCode(code)) ?? null;
+
+export const createRoom = (state: GameState): Room => {
+  const now = Date.now();
+  sweepIdleRooms(now);
+  let code = generateCode(ROOM_CODE_LENGTH);
+  while (registry.rooms.has(code)) {
+    code = generateCode(ROOM_CODE_LENGTH);
+  }
+  const room: Room = {
+    code,
+    hostToken: crypto.randomUUID(),
+    history: createHistory({ ...state, error: null }),
+    seats: new Map(),
+    updatedAt: now,
+  };
+  registry.rooms.set(code, room);
+  return room;
+};
+
+export const identify = (
+  room: Room,
+  token: string | null,
+): RoomIdentity | null => {
+  if (!token) return null;
+  if (token === room.hostToken) return { kind: "host" };
+  for (const [playerId, seatToken] of room.seats) {
+    if (seatToken === token) return { kind: "player", playerId };
+  }
+  return null;
+};
+
+/** Hands out a seat token, or null when the seat is taken or unknown. */
+export const claimSeat = (room: Room, playerId: string): string | null => {
+  if (room.seats.has(playerId)) return null;
+  if (!room.history.present.players.some((player) => player.id === playerId)) {
+    return null;
+  }
+  const token = crypto.randomUUID();
+  room.seats.set(playerId, token);
+  room.updatedAt = Date.now();
+  notify(room.code, room);
+  return token;
+};
+
+export const applyRoomAction = (
+  room: Room,
+  action: HistoryAction,
+): GameState => {
+  const previous = room.history.present;
+  room.history = historyReducer(room.history, action);
+  room.updatedAt = Date.now();
+  const next = room.history.present;
+  if (next !== previous) {
+    room.seats.forEach((_, playerId) => {
+      if (!next.players.some((player) => player.id === playerId)) {
+        room.seats.delete(playerId);
+      }
+    });
+    notify(room.code, room);
+  }
+  return next;
+};
+
+export const snapshotFor = (
+  room: Room,
+  identity: RoomIdentity,
+): HostSnapshot | PlayerView | null =>
+  identity.kind === "host"
+    ? {
+        state: room.history.present,
+        claimedSeats: [...room.seats.keys()],
+        canUndo: room.history.past.length > 0,
+        canRedo: room.history.future.length > 0,
+      }
+    : buildPlayerView(room.code, room.history.present, identity.playerId);
+
+export const subscribeToRoom = (code: string, listener: RoomListener) => {
+  const normalized = normalizeRoomCode(code);
+  const listeners = registry.listeners.get(normalized) ?? new Set();
+  listeners.add(listener);
+  registry.listeners.set(normalized, listeners);
+  return () => {
+    listeners.delete(listener);
+    if (!listeners.size) {
+      registry.listeners.delete(normalized);
+    }
+  };
+};
+
+export const readBearerToken = (request: Request) => {
+  const header = request.headers.get("authorization") ?? "";
+  const [scheme, token] = header.split(" ");
+  return scheme === "Bearer" && token ? token : null;
+};
+
+/** Sends the English text for plain clients and the key for translated ones. */
+export const jsonError = (key: MessageKey, status: number) =>
+  Response.json(
+    { error: translate(DEFAULT_LOCALE, key), message: msg(key) },
+    { status },
+  );
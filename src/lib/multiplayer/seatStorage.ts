@@ -0,0 +1,26 @@
+import { isNullable, isRecord, isString } from "@/lib/game/guards";
+import { createStoredValue } from "@/lib/game/storedValue";
+import type { PlayerSeat } from "./types";
+
+const SEAT_STORAGE_KEY = "imposter-relay:seat";
+
+const isPlayerSeat = (value: unknown): value is PlayerSeat =>
+  isRecord(value) &&
+  isString(value.code) &&
+  isString(value.token) &&
+  isString(value.playerId);
+
+const storedSeat = createStoredValue<PlayerSeat | null>(
+  SEAT_STORAGE_KEY,
+  isNullable(isPlayerSeat),
+  null,
+);
+
+export const subscribeToSeat = storedSeat.subscribe;
+
+/** The seat this browser holds, if any. */
+export const readStoredSeat = storedSeat.read;
+
+export const storeSeat = storedSeat.write;
+
+export const clearStoredSeat = storedSeat.clear;
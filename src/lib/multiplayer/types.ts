@@ -0,0 +1,82 @@
+import type { AbilityUse, AnalystAbility } from "@/lib/game/abilities";
+import type { GameState } from "@/lib/game/engine";
+import type { SabotageKind } from "@/lib/game/sabotage";
+import type { Timer } from "@/lib/game/timers";
+import type { Outcome, Phase, Player, Role, Task } from "@/lib/game/types";
+import type { MessageKey } from "@/lib/i18n/translate";
+
+export type RoomCredentials = {
+  code: string;
+  token: string;
+};
+
+export type PlayerSeat = RoomCredentials & {
+  playerId: string;
+};
+
+export type RoomRoster = {
+  code: string;
+  phase: Phase;
+  players: Array<{ id: string; name: string; claimed: boolean }>;
+};
+
+/** Everything one player may see about the round, and nothing more. */
+export type PlayerView = {
+  code: string;
+  phase: Phase;
+  outcome: Outcome;
+  prompt: string | null;
+  /** No talking until the next meeting. */
+  silentRound: boolean;
+  timers: Timer[];
+  /** Public details of the running sabotage, without who triggered it. */
+  sabotage: {
+    kind: SabotageKind;
+    fixes: Array<{ id: string; name: MessageKey; fixed: boolean }>;
+  } | null;
+  sabotageReadyAt: number;
+  /** True while this player may tick tasks, ghosts included if the rules allow. */
+  canWorkTasks: boolean;
+  /** True for impostors, who may trigger sabotage from their device. */
+  canSabotage: boolean;
+  /** Present only while this player is an impostor who can kill. */
+  kill: {
+    targets: Array<{ id: string; name: string }>;
+    readyAt: number;
+  } | null;
+  /** Present only while this player is a Sheriff with an unspent shot. */
+  shot: {
+    targets: Array<{ id: string; name: string }>;
+  } | null;
+  /** Present only while this player is an Analyst who can use abilities. */
+  abilities: {
+    charges: number;
+    remaining: Record<AnalystAbility, number>;
+    uses: Array<Pick<AbilityUse, "ability" | "at" | "result">>;
+    targets: Array<{ id: string; name: string }>;
+  } | null;
+  /** Present only while this Analyst holds an unspent approval token. */
+  approval: {
+    targets: Array<{ id: string; name: string }>;
+  } | null;
+  player: {
+    id: string;
+    name: string;
+    role: Role | null;
+    status: Player["status"];
+    cause: Player["cause"];
+    tasks: Task[];
+  };
+  /** Present only while this player may vote in an open meeting. */
+  ballot: {
+    candidates: Array<{ id: string; name: string }>;
+    vote: string | null;
+  } | null;
+};
+
+export type HostSnapshot = {
+  state: GameState;
+  claimedSeats: string[];
+  canUndo: boolean;
+  canRedo: boolean;
+};
@@ -0,0 +1,131 @@
+import {
+  getAbilityCharges,
+  getRemainingUses,
+  hasAbilities,
+} from "@/lib/game/abilities";
+import type { GameState } from "@/lib/game/engine";
+import { getKillReadyAt } from "@/lib/game/kills";
+import { canWorkTasks, isImpostorSide } from "@/lib/game/rules";
+import { getVoters } from "@/lib/game/voting";
+import type { PlayerView, RoomRoster } from "./types";
+
+export const buildRoster = (
+  code: string,
+  state: GameState,
+  claimedSeats: ReadonlySet<string>,
+): RoomRoster => ({
+  code,
+  phase: state.phase,
+  players: state.players.map((player) => ({
+    id: player.id,
+    name: player.name,
+    claimed: claimedSeats.has(player.id),
+  })),
+});
+
+export const buildPlayerView = (
+  code: string,
+  state: GameState,
+  playerId: string,
+): PlayerView | null => {
+  const player = state.players.find((entry) => entry.id === playerId);
+  if (!player) return null;
+  // Roles are placeholders until the round is dealt.
+  const dealt = state.phase !== "lobby";
+  const { meeting } = state;
+  const canVote =
+    state.phase === "meeting" && !!meeting && player.status === "alive";
+  const canKill =
+    state.phase === "mission" &&
+    !state.outcome &&
+    player.status === "alive" &&
+    isImpostorSide(player);
+  const canShoot =
+    state.phase === "mission" &&
+    !state.outcome &&
+    player.status === "alive" &&
+    player.role === "Sheriff" &&
+    !state.sheriffShots.includes(player.id);
+  const isRoundLive =
+    (state.phase === "mission" || state.phase === "meeting") && !state.outcome;
+  const canUseAbilities = isRoundLive && hasAbilities(player);
+  return {
+    code,
+    phase: state.phase,
+    outcome: state.outcome,
+    prompt: state.prompt,
+    silentRound: state.silentRound,
+    timers: state.timers,
+    sabotage: state.sabotage && {
+      kind: state.sabotage.kind,
+      fixes: state.sabotage.fixes.map(({ id, name, fixed }) => ({
+        id,
+        name,
+        fixed,
+      })),
+    },
+    sabotageReadyAt: state.sabotageReadyAt,
+    canWorkTasks:
+      state.phase === "mission" &&
+      !state.outcome &&
+      canWorkTasks(player, state.rules),
+    canSabotage: dealt && isImpostorSide(player),
+    kill: canKill
+      ? {
+          targets: getVoters(state.players)
+            .filter((target) => !isImpostorSide(target))
+            .map((target) => ({ id: target.id, name: target.name })),
+          readyAt: getKillReadyAt(state.kills, player.id),
+        }
+      : null,
+    shot: canShoot
+      ? {
+          targets: getVoters(state.players)
+            .filter((target) => target.id !== player.id)
+            .map((target) => ({ id: target.id, name: target.name })),
+        }
+      : null,
+    abilities: canUseAbilities
+      ? {
+          charges: getAbilityCharges(player, state.abilityUses),
+          remaining: getRemainingUses(player.id, state.abilityUses),
+          uses: state.abilityUses
+            .filter((use) => use.playerId === player.id)
+            .map(({ ability, at, result }) => ({ ability, at, result })),
+          targets: state.players
+            .filter((target) => target.id !== player.id)
+            .map((target) => ({ id: target.id, name: target.name })),
+        }
+      : null,
+    approval:
+      isRoundLive &&
+      player.status === "alive" &&
+      state.approvalTokens.includes(player.id)
+        ? {
+            targets: getVoters(state.players)
+              .filter((target) => target.id !== player.id)
+              .map((target) => ({ id: target.id, name: target.name })),
+          }
+        : null,
+    player: {
+      id: player.id,
+      name: player.name,
+      role: dealt ? player.role : null,
+      status: player.status,
+      cause: player.cause,
+      tasks: dealt ? player.tasks : [],
+    },
+    ballot:
+      canVote && meeting
+        ? {
+            candidates: getVoters(state.players)
+              .filter(
+                (candidate) =>
+                  !meeting.runoff || meeting.runoff.includes(candidate.id),
+              )
+              .map((candidate) => ({ id: candidate.id, name: candidate.name })),
+            vote: meeting.ballots[player.id] ?? null,
+          }
+        : null,
+  };
+};